@@ -0,0 +1,128 @@
+/**
+ * Round trip for AI cassettes (src/ai/cassette.ts): records a seeded blackjack session of a memory-variant
+ * webhook agent that answers at random, then replays it in a fresh process from a different bankroll and with
+ * an earlier hand in its session memory, and checks that every bet, decision and outcome repeats.
+ *
+ * Run: npm run cassette:roundtrip
+ *
+ * Needs no API key or network: the agent is a local HTTP server, and neither phase uses the database or HCS.
+ */
+
+import { spawnSync } from "child_process";
+import { createServer } from "http";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+
+const AGENT_ID = "roundtrip-agent";
+const CONTESTANT_ID = `${AGENT_ID}@memory.v1`;
+const HANDS = 8;
+const SEED = "cassette-roundtrip";
+
+type Phase = "record" | "replay";
+
+const pick = <T>(xs: T[]): T => xs[Math.floor(Math.random() * xs.length)];
+
+/** A webhook agent with no strategy at all, so only the cassette can make two runs agree. */
+function randomReply(kind: string): Record<string, unknown> {
+  if (kind === "blackjack_bet") return { bet: 10 + Math.floor(Math.random() * 90), sideBets: [], reasoning: "random" };
+  if (kind === "blackjack_insurance") return { insurance: Math.random() < 0.5, reasoning: "random" };
+  return { decision: pick(["hit", "stand", "double"]), reasoning: "random" };
+}
+
+/** One phase, in this process (config is read at import, so the env is set before anything is loaded). */
+async function runPhase(phase: Phase, cassettePath: string): Promise<void> {
+  process.env.AI_CASSETTE = cassettePath;
+  process.env.AI_CASSETTE_MODE = phase;
+  process.env.DATABASE_URL = "sqlite";
+  process.env.HEDERA_TOPIC_ID = "";
+  // The agent is a local server
+  process.env.AGENT_ALLOW_PRIVATE_URLS = "true";
+  const { registerWebhookAgent, getAIProvider } = await import("../src/ai/index.js");
+  const { playHandsStream, getOrCreateDailyBankroll, deductBet } = await import("../src/domains/blackjack/service.js");
+  const { appendBlackjackHand } = await import("../src/hedera/blackjack-hand-store.js");
+
+  let url = "http://127.0.0.1:9/";
+  const server =
+    phase === "record"
+      ? createServer((req, res) => {
+          let body = "";
+          req.on("data", (chunk) => (body += chunk));
+          req.on("end", () => {
+            res.setHeader("content-type", "application/json");
+            res.end(JSON.stringify(randomReply(JSON.parse(body).kind)));
+          });
+        })
+      : null;
+  if (server) {
+    await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+    const address = server.address();
+    if (address && typeof address === "object") url = `http://127.0.0.1:${address.port}/`;
+  }
+  registerWebhookAgent({ id: AGENT_ID, name: "Round-trip agent", url, domains: ["blackjack"], autoPlay: false });
+  if (!getAIProvider(CONTESTANT_ID)) throw new Error(`${CONTESTANT_ID} did not resolve`);
+
+  const date = new Date().toISOString().slice(0, 10);
+  if (phase === "replay") {
+    // What a replay on another day or later in the same day sees differently: the bankroll and the session memory
+    await getOrCreateDailyBankroll(CONTESTANT_ID, "blackjack", date);
+    await deductBet(CONTESTANT_ID, date, 12_345);
+    appendBlackjackHand(CONTESTANT_ID, { date, betCents: 2_500, playerCards: ["K♠", "7♦"], dealerUpcard: "9♣", decision: "stand", outcome: "loss", pnlCents: -2_500 });
+  }
+
+  const played: string[] = [];
+  await playHandsStream(
+    CONTESTANT_ID,
+    0,
+    HANDS,
+    (ev) => {
+      if (ev.type === "bet") played.push(`bet ${ev.betCents}`);
+      else if (ev.type === "deal") played.push(`deal ${ev.playerCards.join(" ")} v ${ev.dealerUpcard}`);
+      else if (ev.type === "decision") played.push(`decision ${ev.decision}`);
+      else if (ev.type === "outcome") played.push(`outcome ${ev.outcome} ${ev.pnlCents}`);
+      else if (ev.type === "error") played.push(`error ${ev.message}`);
+    },
+    { shoe: { seed: SEED } }
+  );
+  server?.close();
+  console.log(JSON.stringify(played));
+}
+
+function spawnPhase(phase: Phase, cassettePath: string): string[] {
+  const script = fileURLToPath(import.meta.url);
+  const child = spawnSync(process.execPath, [...process.execArgv, script, phase, cassettePath], { encoding: "utf-8", timeout: 120_000 });
+  if (child.status !== 0) throw new Error(`${phase} failed:\n${child.stderr}`);
+  const last = child.stdout.trim().split("\n").pop() ?? "[]";
+  return JSON.parse(last) as string[];
+}
+
+async function main() {
+  const [phase, cassettePath] = process.argv.slice(2);
+  if (phase === "record" || phase === "replay") {
+    await runPhase(phase, cassettePath);
+    process.exit(0);
+  }
+
+  const dir = mkdtempSync(join(tmpdir(), "cassette-"));
+  try {
+    const path = join(dir, "roundtrip.jsonl");
+    const recorded = spawnPhase("record", path);
+    const replayed = spawnPhase("replay", path);
+    console.log(`Recorded ${recorded.length} events over ${HANDS} hands; replayed ${replayed.length}.`);
+    const first = recorded.findIndex((line, i) => line !== replayed[i]);
+    if (first >= 0 || recorded.length !== replayed.length) {
+      const i = first >= 0 ? first : Math.min(recorded.length, replayed.length);
+      console.error(`Replay diverged at event ${i + 1}: recorded ${recorded[i] ?? "(end)"}, replayed ${replayed[i] ?? "(end)"}`);
+      process.exit(1);
+    }
+    console.log("Replay identical to the recording.");
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,249 @@
+/**
+ * Baseline bots: built-in providers that answer the same prompts as the LLMs, without any network.
+ * They read the game state back out of the prompt text and reply in the format the prompt asks for.
+ * Basic strategy is the skill ceiling and random play the floor; never-bust is the classic
+ * beginner heuristic. The crop bots hold a flat dollar stake or size the position by half-Kelly.
+ */
+
+import { config } from "../config.js";
+import type { AIProvider, AIResponse } from "./types.js";
+import { usageFor } from "./pricing.js";
+import type { ModelDomain } from "./registry.js";
+import { handValue, isSoft, type Card, type PlayerAction } from "../domains/blackjack/engine.js";
+import { DEFAULT_TABLE_RULES, type TableRules } from "../domains/blackjack/rules.js";
+import { actionEvs } from "../domains/blackjack/strategy.js";
+import { seededRandom } from "../domains/blackjack/fairness.js";
+
+type BaselineBot = {
+  id: string;
+  name: string;
+  domains: ModelDomain[];
+  answer(prompt: string): AIResponse;
+};
+
+const SUITS: Record<string, string> = { Hearts: "H", Diamonds: "D", Clubs: "C", Spades: "S" };
+
+/** Cards as written by formatCardForPrompt ("10 of Hearts"). */
+function cardsIn(text: string): Card[] {
+  return [...text.matchAll(/\b(A|K|Q|J|10|[2-9]) of (Hearts|Diamonds|Clubs|Spades)\b/g)].map((m) => `${m[1]}${SUITS[m[2]]}` as Card);
+}
+
+function dollarsAfter(prompt: string, pattern: RegExp): number | null {
+  const m = prompt.match(pattern);
+  return m ? parseFloat(m[1].replace(/,/g, "")) : null;
+}
+
+type BlackjackState = { playerCards: Card[]; dealerUpcard: Card; actions: PlayerAction[]; rules: TableRules };
+
+/** Decision prompt: hand, upcard, offered actions and the rules the one-line table summary gives. */
+function parseDecisionPrompt(prompt: string): BlackjackState | null {
+  const hand = prompt.match(/You have:([^\n]*?)\(total/) ?? prompt.match(/Your hand:([^\n]*)/);
+  const dealer = prompt.match(/Dealer shows:([^\n.]*)/);
+  const playerCards = hand ? cardsIn(hand[1]) : [];
+  const dealerUpcard = dealer ? cardsIn(dealer[1])[0] : undefined;
+  if (playerCards.length === 0 || !dealerUpcard) return null;
+  const offered = [...prompt.matchAll(/DECISION: (hit|stand|double|split|surrender)/g)].map((m) => m[1] as PlayerAction);
+  const rules: TableRules = {
+    ...DEFAULT_TABLE_RULES,
+    dealerHitsSoft17: /dealer hits soft 17/i.test(prompt),
+    blackjackPayout: /blackjack pays 6:5/i.test(prompt) ? "6:5" : "3:2",
+  };
+  return { playerCards, dealerUpcard, actions: offered.length > 0 ? [...new Set(offered)] : ["hit", "stand"], rules };
+}
+
+/** Bet limits from either bet prompt wording; the bet may not exceed the balance. */
+function parseBetLimits(prompt: string): { minCents: number; maxCents: number } {
+  const min = dollarsAfter(prompt, /Min(?:imum)? bet \$([\d,.]+)/i) ?? config.blackjackMinBetCents / 100;
+  const max = dollarsAfter(prompt, /max(?:imum)? bet \$([\d,.]+)/i) ?? config.blackjackMaxBetCents / 100;
+  const balance = dollarsAfter(prompt, /balance(?: is|:) \$([\d,.]+)/i) ?? max;
+  return { minCents: Math.round(min * 100), maxCents: Math.round(Math.max(min, Math.min(max, balance)) * 100) };
+}
+
+function betReply(cents: number, reasoning: string): AIResponse {
+  const raw = `BET: ${(cents / 100).toFixed(0)}\nSIDE_BET: none\nREASONING: ${reasoning}`;
+  return { decision: "bet", reasoning, raw };
+}
+
+function flatBet(prompt: string): AIResponse {
+  const { minCents, maxCents } = parseBetLimits(prompt);
+  return betReply(Math.max(minCents, Math.min(maxCents, config.autoPlayBetCents)), "Flat bet every hand; side bets and insurance are negative EV.");
+}
+
+function decisionReply(decision: PlayerAction, reasoning: string): AIResponse {
+  return { decision, reasoning, raw: `DECISION: ${decision}\nREASONING: ${reasoning}` };
+}
+
+function insuranceReply(take: boolean, reasoning: string): AIResponse {
+  return { decision: take ? "yes" : "no", reasoning, raw: `INSURANCE: ${take ? "yes" : "no"}\nREASONING: ${reasoning}` };
+}
+
+const isInsurancePrompt = (p: string) => /INSURANCE: yes/.test(p);
+const isBetPrompt = (p: string) => /BET: N/.test(p);
+const isCropPrompt = (p: string) => /TRADE: buy\|sell\|/.test(p);
+
+/** Which answer a prompt asks for, from the reply format it spells out. */
+export function promptKind(prompt: string): "insurance" | "bet" | "crop" | "decision" {
+  if (isInsurancePrompt(prompt)) return "insurance";
+  if (isBetPrompt(prompt)) return "bet";
+  return isCropPrompt(prompt) ? "crop" : "decision";
+}
+
+/** Answer for prompts a bot does not play (e.g. a crop prompt sent to a blackjack bot). */
+function fallback(prompt: string): AIResponse {
+  if (isCropPrompt(prompt)) return cropReply("hold", 0, "This baseline does not trade crops.");
+  return decisionReply("stand", "Unrecognised prompt.");
+}
+
+function blackjackBot(
+  id: string,
+  name: string,
+  play: (state: BlackjackState) => { decision: PlayerAction; reasoning: string },
+  bet: (prompt: string) => AIResponse = flatBet,
+  insure: () => boolean = () => false
+): BaselineBot {
+  return {
+    id,
+    name,
+    domains: ["blackjack"],
+    answer(prompt) {
+      if (isInsurancePrompt(prompt)) return insuranceReply(insure(), "Insurance is a side bet with a house edge.");
+      if (isBetPrompt(prompt)) return bet(prompt);
+      const state = parseDecisionPrompt(prompt);
+      if (!state) return fallback(prompt);
+      const { decision, reasoning } = play(state);
+      return decisionReply(decision, reasoning);
+    },
+  };
+}
+
+/** Highest-EV offered action from the strategy oracle. */
+function basicStrategy({ playerCards, dealerUpcard, actions, rules }: BlackjackState): { decision: PlayerAction; reasoning: string } {
+  const evs = actionEvs(playerCards, dealerUpcard, rules, actions);
+  const [decision, ev] = (Object.entries(evs) as [PlayerAction, number][]).reduce((best, e) => (e[1] > best[1] ? e : best));
+  return { decision, reasoning: `Basic strategy: ${decision} has the best expected value (${ev.toFixed(3)} bets).` };
+}
+
+/** Never take a card that could bust: hit hard 11 or less and soft hands below 18, otherwise stand. */
+function neverBust({ playerCards }: BlackjackState): { decision: PlayerAction; reasoning: string } {
+  const total = handValue(playerCards);
+  const hit = total <= 11 || (isSoft(playerCards) && total < 18);
+  return { decision: hit ? "hit" : "stand", reasoning: hit ? `Total ${total} cannot bust on one card.` : `Total ${total} could bust; standing.` };
+}
+
+/** One seeded stream per process, so a random run replays identically after a restart. */
+const random = seededRandom("baseline-random", 1);
+
+function randomAction({ actions }: BlackjackState): { decision: PlayerAction; reasoning: string } {
+  return { decision: actions[Math.floor(random() * actions.length)], reasoning: "Random choice among the offered actions." };
+}
+
+function randomBet(prompt: string): AIResponse {
+  const { minCents, maxCents } = parseBetLimits(prompt);
+  const dollars = Math.floor(minCents / 100 + random() * (maxCents / 100 - minCents / 100 + 1));
+  return betReply(Math.min(maxCents, dollars * 100), "Random bet between the table limits.");
+}
+
+/** contractSize is set in a futures account, where the bots trade whole contracts and cash already includes open P/L. */
+type CropState = { price: number; cashCents: number; bushels: number; contractSize: number | null };
+
+function parseCropPrompt(prompt: string): CropState | null {
+  const price = dollarsAfter(prompt, /Current corn price: \$([\d,.]+)/);
+  const cash = prompt.match(/Cash: (-?)\$([\d,.]+)/);
+  const bushels = dollarsAfter(prompt, /Corn: (-?[\d,.]+) bushels/);
+  if (price == null || price <= 0 || !cash || bushels == null) return null;
+  const futures = /you buy and sell whole contracts/.test(prompt);
+  const contractSize = futures ? dollarsAfter(prompt, /One contract is (\d+) bushels(?: of corn)?[.,;\s]/) : null;
+  if (futures && !contractSize) return null;
+  return { price, cashCents: Math.round(parseFloat(`${cash[1]}${cash[2].replace(/,/g, "")}`) * 100), bushels, contractSize };
+}
+
+function cropValueCents(state: CropState): number {
+  return state.cashCents + (state.contractSize ? 0 : Math.round(state.bushels * state.price * 100));
+}
+
+/** Long-run trend yield quoted by the crop bots; they infer nothing from prices. They only ever trade corn. */
+const TREND_BUSHELS_PER_ACRE = 181;
+
+function cropReply(trade: "buy" | "sell" | "hold", size: number, reasoning: string): AIResponse {
+  const raw = `TRADE: ${trade}
+COMMODITY: corn
+SIZE: ${trade === "sell" ? Math.floor(size) : size.toFixed(2)}
+REASONING: ${reasoning}
+BUSHELS_PER_ACRE: ${TREND_BUSHELS_PER_ACRE}
+REASON_LONGTERM: Baseline bot: quotes the long-run trend yield and uses no external data.`;
+  return { decision: trade, reasoning, raw };
+}
+
+/** Move the corn position toward a target dollar value; skip trades under 5% of the portfolio. */
+function rebalanceTo(state: CropState, targetCents: number, why: string): AIResponse {
+  const cornCents = Math.round(state.bushels * state.price * 100);
+  const band = 0.05 * cropValueCents(state);
+  const diff = targetCents - cornCents;
+  if (Math.abs(diff) < band) return cropReply("hold", 0, `${why} Position is within 5% of target; holding.`);
+  if (state.contractSize) {
+    const contracts = Math.trunc(diff / (state.contractSize * state.price * 100));
+    if (contracts > 0) return cropReply("buy", contracts, `${why} Buying contracts toward the target.`);
+    const sell = Math.min(Math.max(0, Math.floor(state.bushels / state.contractSize)), -contracts);
+    if (sell > 0) return cropReply("sell", sell, `${why} Selling contracts down to the target.`);
+    return cropReply("hold", 0, `${why} Less than a contract from the target; holding.`);
+  }
+  if (diff > 0) return cropReply("buy", Math.min(diff, state.cashCents) / 100, `${why} Buying toward the target.`);
+  return cropReply("sell", Math.min(state.bushels, -diff / 100 / state.price), `${why} Selling down to the target.`);
+}
+
+/** Flat stake: always hold $10,000 of corn, whatever the price or bankroll. */
+const FLAT_STAKE_CENTS = 1_000_000;
+
+/** Half-Kelly on reversion to a long-run fair price with 25% annual volatility; long only. */
+const FAIR_PRICE = 4.5;
+const ANNUAL_VOL = 0.25;
+
+function kellyTarget(state: CropState): { targetCents: number; fraction: number } {
+  const edge = Math.log(FAIR_PRICE / state.price);
+  const fraction = Math.max(0, Math.min(1, (0.5 * edge) / ANNUAL_VOL ** 2));
+  return { targetCents: Math.round(fraction * cropValueCents(state)), fraction };
+}
+
+function cropBot(id: string, name: string, target: (s: CropState) => { targetCents: number; why: string }): BaselineBot {
+  return {
+    id,
+    name,
+    domains: ["crop"],
+    answer(prompt) {
+      const state = isCropPrompt(prompt) ? parseCropPrompt(prompt) : null;
+      if (!state) return fallback(prompt);
+      const { targetCents, why } = target(state);
+      return rebalanceTo(state, targetCents, `The current price is $${state.price.toFixed(2)} per bushel. ${why}`);
+    },
+  };
+}
+
+const BOTS: BaselineBot[] = [
+  blackjackBot("baseline-basic-strategy", "Baseline: Basic Strategy", basicStrategy),
+  blackjackBot("baseline-never-bust", "Baseline: Never Bust", neverBust),
+  blackjackBot("baseline-random", "Baseline: Random", randomAction, randomBet, () => random() < 0.5),
+  cropBot("baseline-crop-flat", "Baseline: Flat Stake", () => ({ targetCents: FLAT_STAKE_CENTS, why: "Flat stake: target $10,000 of corn." })),
+  cropBot("baseline-crop-kelly", "Baseline: Half Kelly", (s) => {
+    const { targetCents, fraction } = kellyTarget(s);
+    return { targetCents, why: `Half-Kelly toward a $${FAIR_PRICE.toFixed(2)} fair price: target ${(fraction * 100).toFixed(0)}% of the portfolio in corn.` };
+  }),
+];
+
+/** Baselines for a domain's model list and auto-play, in a fixed order. */
+export function getBaselineEntries(domain?: ModelDomain): { id: string; name: string; domains: ModelDomain[] }[] {
+  return BOTS.filter((b) => !domain || b.domains.includes(domain)).map(({ id, name, domains }) => ({ id, name, domains }));
+}
+
+export function getBaselineProvider(id: string): AIProvider | null {
+  const bot = BOTS.find((b) => b.id === (id ?? "").trim().toLowerCase());
+  if (!bot) return null;
+  return {
+    id: bot.id,
+    name: bot.name,
+    async ask(prompt: string): Promise<AIResponse> {
+      const started = Date.now();
+      const res = bot.answer(prompt);
+      return { ...res, usage: usageFor(null, 0, 0, Date.now() - started) };
+    },
+  };
+}
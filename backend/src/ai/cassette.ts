@@ -0,0 +1,173 @@
+/**
+ * Record/replay cassettes: a wrapper around any provider that appends every prompt→response pair to a
+ * JSONL file (record) or answers from that file without calling the model (replay). Entries are keyed
+ * on the provider id, the reply kind (text or a structured schema) and the SHA-256 of the prompt's stable
+ * form (stablePrompt), so a session re-run from the same seeded deals gets the same answers offline even
+ * when its bankroll, date or session memory differ from the recording's.
+ *
+ * A prompt asked several times replays its recorded answers in order, then repeats the last one.
+ * A prompt that was never recorded is an error in replay: the session has diverged from the recording.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { createHash } from "crypto";
+import type { AIAskContext, AIProvider, AIResponse, ResponseSchema } from "./types.js";
+import { SESSION_MEMORY_HEADING } from "./prompt-variants.js";
+
+export type CassetteMode = "record" | "replay";
+
+/** One line of a cassette file. */
+export type CassetteEntry = {
+  key: string;
+  providerId: string;
+  /** "text" for ask/askStream, otherwise the structured schema name. */
+  kind: string;
+  promptHash: string;
+  response: AIResponse & { structured?: unknown };
+  recordedAt: string;
+};
+
+export type Cassette = {
+  path: string;
+  mode: CassetteMode;
+  /** Next recorded answer for a key (replay); undefined when the prompt was never recorded. */
+  next(key: string): CassetteEntry["response"] | undefined;
+  record(entry: Omit<CassetteEntry, "recordedAt">): void;
+};
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/** Amounts and dates that differ between a recording and its replay of the same session. */
+const VOLATILE: [RegExp, (match: string, label: string) => string][] = [
+  // The daily bankroll a blackjack bet is sized from, and the maximum bet it caps
+  [/\b(balance(?: is)?:?|max(?:imum)? bet) \$\d+/gi, (_, label) => `${label} $N`],
+  [/\b\d{4}-\d{2}-\d{2}(?:T[\d:.]+Z?)?/g, () => "YYYY-MM-DD"],
+];
+
+/**
+ * The prompt a key hashes: without the session memory (it also summarises earlier sessions that day) and with
+ * bankroll amounts and dates masked. Prompts that differ only in these share a key; their answers still replay
+ * in the order they were recorded.
+ */
+export function stablePrompt(prompt: string): string {
+  const memory = prompt.indexOf(SESSION_MEMORY_HEADING);
+  const kept = memory >= 0 ? prompt.slice(0, memory).trimEnd() : prompt;
+  return VOLATILE.reduce((s, [pattern, mask]) => s.replace(pattern, mask), kept);
+}
+
+export function cassetteKey(providerId: string, kind: string, prompt: string): { key: string; promptHash: string } {
+  const promptHash = hash(stablePrompt(prompt));
+  return { key: hash(`${providerId.toLowerCase()}\n${kind}\n${promptHash}`), promptHash };
+}
+
+/** Open a cassette file; replay reads it once, record appends to it (creating it if needed). */
+export function openCassette(path: string, mode: CassetteMode): Cassette {
+  const file = resolve(path);
+  const recorded = new Map<string, CassetteEntry["response"][]>();
+  const played = new Map<string, number>();
+  if (mode === "replay") {
+    if (!existsSync(file)) throw new Error(`AI cassette not found: ${file}`);
+    readFileSync(file, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .forEach((line, i) => {
+        let entry: CassetteEntry;
+        try {
+          entry = JSON.parse(line) as CassetteEntry;
+        } catch {
+          throw new Error(`AI cassette ${file}: line ${i + 1} is not JSON`);
+        }
+        if (!recorded.has(entry.key)) recorded.set(entry.key, []);
+        recorded.get(entry.key)!.push(entry.response);
+      });
+  } else {
+    mkdirSync(dirname(file), { recursive: true });
+  }
+  return {
+    path: file,
+    mode,
+    next(key) {
+      const answers = recorded.get(key);
+      if (!answers) return undefined;
+      const i = played.get(key) ?? 0;
+      played.set(key, i + 1);
+      return answers[Math.min(i, answers.length - 1)];
+    },
+    record(entry) {
+      appendFileSync(file, JSON.stringify({ ...entry, recordedAt: new Date().toISOString() }) + "\n");
+    },
+  };
+}
+
+function replayed(cassette: Cassette, providerId: string, kind: string, prompt: string): CassetteEntry["response"] {
+  const { key, promptHash } = cassetteKey(providerId, kind, prompt);
+  const response = cassette.next(key);
+  if (!response) throw new Error(`AI cassette ${cassette.path} has no ${kind} reply from ${providerId} for prompt ${promptHash.slice(0, 12)}`);
+  return structuredClone(response);
+}
+
+/**
+ * Wrap a provider with a cassette. Replay answers ask and askStructured from the file and offers no
+ * askStream (callers then use ask), so it works without an API key or network; pass a stand-in from
+ * replayProvider when the real provider cannot be built. Record passes every call through and saves
+ * the final reply, streamed ones included.
+ */
+export function withCassette(provider: AIProvider, cassette: Cassette): AIProvider {
+  const { id, name } = provider;
+  const save = (kind: string, prompt: string, response: CassetteEntry["response"]) => {
+    const { key, promptHash } = cassetteKey(id, kind, prompt);
+    cassette.record({ key, providerId: id, kind, promptHash, response });
+  };
+
+  if (cassette.mode === "replay") {
+    const askStructured = async (prompt: string, schema: ResponseSchema) =>
+      replayed(cassette, id, schema.name, prompt) as AIResponse & { structured: unknown };
+    return {
+      id,
+      name,
+      async ask(prompt: string) {
+        return replayed(cassette, id, "text", prompt);
+      },
+      ...(provider.askStructured ? { askStructured } : {}),
+    };
+  }
+
+  const inner = provider;
+  const wrapped: AIProvider = {
+    id,
+    name,
+    async ask(prompt: string, context?: AIAskContext) {
+      const response = await inner.ask(prompt, context);
+      save("text", prompt, response);
+      return response;
+    },
+  };
+  if (inner.askStream) {
+    const stream = inner.askStream.bind(inner);
+    wrapped.askStream = async function* (prompt: string, context?: AIAskContext) {
+      const response = yield* stream(prompt, context);
+      save("text", prompt, response);
+      return response;
+    };
+  }
+  if (inner.askStructured) {
+    const structured = inner.askStructured.bind(inner);
+    wrapped.askStructured = async (prompt: string, schema: ResponseSchema, context?: AIAskContext) => {
+      const response = await structured(prompt, schema, context);
+      save(schema.name, prompt, response);
+      return response;
+    };
+  }
+  return wrapped;
+}
+
+/** Stand-in for a provider that cannot be built offline (no API key); only useful wrapped in a replay cassette. */
+export function replayProvider(id: string, name: string, structuredOutput: boolean): AIProvider {
+  const offline = async (): Promise<never> => {
+    throw new Error(`${id} is only available from an AI cassette`);
+  };
+  return { id, name, ask: offline, ...(structuredOutput ? { askStructured: offline } : {}) };
+}
@@ -0,0 +1,185 @@
+/**
+ * Ensembles: one provider that asks several models (or one model several times at temperature > 0)
+ * and answers with their majority. Actions, insurance and trades (side and commodity) go by majority vote
+ * (a tie goes to the answer that arrived first); bet sizes, side bets, trade sizes and yield forecasts by median.
+ * The reply is written in the same text format as any model's, so the domains parse it unchanged and the
+ * ensemble plays VS, tournaments and auto-play under its own id. Its cost is the sum of its members'.
+ */
+
+import type { AIAskContext, AIProvider, AIResponse, AIUsage } from "./types.js";
+import type { EnsembleEntry } from "./registry.js";
+import { failedResponse } from "./resilience.js";
+import { promptKind } from "./baselines.js";
+import { textOf } from "./structured.js";
+import { SIDE_BET_KINDS } from "../domains/blackjack/rules.js";
+import { parseSideBets } from "../domains/blackjack/sidebets.js";
+
+type Seat = { label: string; provider: AIProvider };
+type Ballot = { label: string; response: AIResponse };
+
+const ACTIONS = ["hit", "stand", "double", "split", "surrender"];
+
+/** Most common value; ties go to the one voted first. */
+function majority<T>(votes: T[]): { winner: T; count: number } | null {
+  const counts = new Map<T, number>();
+  for (const v of votes) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best: { winner: T; count: number } | null = null;
+  for (const [winner, count] of counts) if (!best || count > best.count) best = { winner, count };
+  return best;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function tally<T>(votes: T[]): string {
+  const counts = new Map<T, number>();
+  for (const v of votes) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts].map(([v, n]) => `${v} ${n}`).join(", ");
+}
+
+/** A trade's side and commodity ("buy soybeans"), or "hold"; null without a TRADE line. */
+function tradeOf(text: string): string | null {
+  const trade = text.match(/TRADE:\s*(buy|sell|short|cover|hold)/i)?.[1]?.toLowerCase();
+  if (!trade || trade === "hold") return trade ?? null;
+  const commodity = text.match(/COMMODITY:\s*([a-z][a-z ]*?)\s*$/im)?.[1]?.toLowerCase();
+  return commodity ? `${trade} ${commodity}` : trade;
+}
+
+function numberAfter(text: string, pattern: RegExp): number | null {
+  const m = text.match(pattern);
+  const n = m ? parseFloat(m[1].replace(/,/g, "")) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+/** What one member answered, in a line for the stream; null when it gave no usable answer. */
+function voteOf(kind: ReturnType<typeof promptKind>, response: AIResponse): string | null {
+  if (response.failure) return null;
+  const text = textOf(response);
+  switch (kind) {
+    case "insurance": {
+      const m = text.match(/(?:INSURANCE|EVEN[\s_-]*MONEY):\s*(yes|no|y|n|true|false)/i);
+      return m ? (/^(yes|y|true)$/i.test(m[1]) ? "yes" : "no") : null;
+    }
+    case "bet": {
+      const bet = numberAfter(text, /(?<![_A-Z])BET:\s*\$?\s*([\d,]+(?:\.\d+)?)/i);
+      if (bet == null) return null;
+      const sideBets = parseSideBets(text, SIDE_BET_KINDS).map((w) => `${w.kind} ${w.cents / 100}`);
+      return `bet ${bet}${sideBets.length ? ` + ${sideBets.join(", ")}` : ""}`;
+    }
+    case "crop": {
+      const trade = tradeOf(text);
+      if (!trade) return null;
+      const size = numberAfter(text, /SIZE:\s*([\d.,]+)/i);
+      return trade === "hold" || size == null ? trade : `${trade} ${size}`;
+    }
+    case "decision": {
+      const decision = (text.match(/DECISION:\s*\**\s*(\w+)/i)?.[1] ?? response.decision ?? "").toLowerCase();
+      return ACTIONS.includes(decision) ? decision : null;
+    }
+  }
+}
+
+/** The ensemble's reply in the format the prompt asked for, from the members that answered. */
+function combine(kind: ReturnType<typeof promptKind>, ballots: Ballot[]): AIResponse {
+  const answered = ballots.filter((b) => voteOf(kind, b.response) != null);
+  const texts = answered.map((b) => textOf(b.response));
+  const of = `${answered.length} of ${ballots.length} answered`;
+  switch (kind) {
+    case "insurance": {
+      const votes = answered.map((b) => voteOf(kind, b.response)!);
+      const top = majority(votes);
+      const reasoning = top ? `Majority vote (${of}): ${tally(votes)}.` : `No member answered (${of}).`;
+      return { decision: top?.winner ?? "no", reasoning, raw: `${top ? `INSURANCE: ${top.winner}\n` : ""}REASONING: ${reasoning}` };
+    }
+    case "bet": {
+      const bets = texts.map((t) => numberAfter(t, /(?<![_A-Z])BET:\s*\$?\s*([\d,]+(?:\.\d+)?)/i)!);
+      const bet = median(bets);
+      // A member that placed no side bet votes 0 for it, so side bets need half the members to take them
+      const sideBets = SIDE_BET_KINDS.map((kind) => {
+        const amounts = texts.map((t) => (parseSideBets(t, SIDE_BET_KINDS).find((w) => w.kind === kind)?.cents ?? 0) / 100);
+        return { kind, dollars: median(amounts) ?? 0 };
+      }).filter((s) => s.dollars > 0);
+      const reasoning = bet != null ? `Median of ${bets.length} bets (${of}): ${bets.join(", ")}.` : `No member answered (${of}).`;
+      const lines = bet != null ? [`BET: ${bet}`, `SIDE_BET: ${sideBets.map((s) => `${s.kind} ${s.dollars}`).join(", ") || "none"}`] : [];
+      return { decision: "bet", reasoning, raw: [...lines, `REASONING: ${reasoning}`].join("\n") };
+    }
+    case "crop": {
+      const trades = texts.map((t) => tradeOf(t)!);
+      const top = majority(trades);
+      const sizes = texts.filter((_, i) => trades[i] === top?.winner).map((t) => numberAfter(t, /SIZE:\s*([\d.,]+)/i) ?? 0);
+      const size = top && top.winner !== "hold" ? median(sizes) ?? 0 : 0;
+      const forecasts = texts.map((t) => numberAfter(t, /BUSHELS_PER_ACRE:\s*([\d.,]+)/i)).filter((n): n is number => n != null);
+      const bushels = median(forecasts);
+      const reasoning = top
+        ? `Majority vote (${of}): ${tally(trades)}; size is the median of the ${top.winner} votes.`
+        : `No member answered (${of}).`;
+      const [side, commodity] = top ? top.winner.split(/ (.+)/) : [];
+      const lines = top ? [`TRADE: ${side}`, ...(commodity ? [`COMMODITY: ${commodity}`] : []), `SIZE: ${size}`] : [];
+      if (top) lines.push(`REASONING: ${reasoning}`);
+      if (bushels != null) lines.push(`BUSHELS_PER_ACRE: ${bushels}`, `REASON_LONGTERM: Median of ${forecasts.length} member forecasts.`);
+      return { decision: side ?? "hold", reasoning, raw: lines.length ? lines.join("\n") : `REASONING: ${reasoning}` };
+    }
+    case "decision": {
+      const votes = answered.map((b) => voteOf(kind, b.response)!);
+      const top = majority(votes);
+      const reasoning = top ? `Majority vote (${of}): ${tally(votes)}.` : `No member answered (${of}).`;
+      return { decision: top?.winner ?? "stand", reasoning, raw: `${top ? `DECISION: ${top.winner}\n` : ""}REASONING: ${reasoning}` };
+    }
+  }
+}
+
+function totalUsage(ballots: Ballot[], latencyMs: number): AIUsage {
+  const usages = ballots.map((b) => b.response.usage);
+  const sum = (f: (u: AIUsage) => number) => usages.reduce((s, u) => s + (u ? f(u) : 0), 0);
+  return { promptTokens: sum((u) => u.promptTokens), completionTokens: sum((u) => u.completionTokens), latencyMs, costUsd: sum((u) => u.costUsd) };
+}
+
+/**
+ * An ensemble over built member providers (each already with its timeouts and circuit breaker).
+ * Members are asked concurrently, samples times each; askStream yields each vote as it arrives.
+ */
+export function createEnsembleProvider(entry: EnsembleEntry, members: AIProvider[]): AIProvider {
+  const seats: Seat[] = members.flatMap((provider) =>
+    Array.from({ length: entry.samples }, (_, k) => ({ label: entry.samples > 1 ? `${provider.name} #${k + 1}` : provider.name, provider }))
+  );
+
+  async function* vote(prompt: string, context?: AIAskContext): AsyncGenerator<string, AIResponse> {
+    const started = Date.now();
+    const kind = promptKind(prompt);
+    const pending = new Map(
+      seats.map((seat, i) => {
+        const asked = seat.provider.ask(prompt, context).catch((e) => failedResponse({ reason: "error", detail: e instanceof Error ? e.message : String(e) }, Date.now() - started));
+        return [i, asked.then((response) => ({ i, ballot: { label: seat.label, response } }))] as const;
+      })
+    );
+    const ballots: Ballot[] = [];
+    while (pending.size > 0) {
+      const { i, ballot } = await Promise.race(pending.values());
+      pending.delete(i);
+      ballots.push(ballot);
+      yield `${ballot.label}: ${voteOf(kind, ballot.response) ?? (ballot.response.failure ? `no reply (${ballot.response.failure.reason})` : "no answer")}\n`;
+    }
+    const latencyMs = Date.now() - started;
+    if (ballots.every((b) => b.response.failure)) {
+      return { ...failedResponse({ reason: "error", detail: "no ensemble member answered" }, latencyMs), usage: totalUsage(ballots, latencyMs) };
+    }
+    return { ...combine(kind, ballots), usage: totalUsage(ballots, latencyMs) };
+  }
+
+  return {
+    id: entry.id,
+    name: entry.name,
+    members: members.map((m) => m.id),
+    async ask(prompt: string, context?: AIAskContext) {
+      const gen = vote(prompt, context);
+      let next = await gen.next();
+      while (!next.done) next = await gen.next();
+      return next.value;
+    },
+    askStream: vote,
+  };
+}
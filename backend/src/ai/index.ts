@@ -1,38 +1,194 @@
 import type { AIProvider } from "./types.js";
 import { getOpenAIProviderById } from "./openai.js";
 import { getKnowledgeProvider } from "./knowledge-topic.js";
+import { findEnsembleEntry, findProviderEntry, getEnsembleEntries, getProviderEntries, type ModelDomain } from "./registry.js";
+import { getBaselineEntries, getBaselineProvider } from "./baselines.js";
+import { openCassette, replayProvider, withCassette } from "./cassette.js";
+import { defaultResilience, withResilience } from "./resilience.js";
+import { createEnsembleProvider } from "./ensemble.js";
+import {
+  createWebhookProvider,
+  findWebhookAgent,
+  getWebhookAgents,
+  removeWebhookAgent as removeAgent,
+  updateWebhookAgent as updateAgent,
+} from "./webhook.js";
+import { asContestant, contestantId, findPromptVariant, getPromptVariant, parseContestantId } from "./prompt-variants.js";
+import { config } from "../config.js";
 
-export type { AIProvider, AIResponse, AIModelId } from "./types.js";
+export type { AIProvider, AIResponse, AIModelId, AIAskContext } from "./types.js";
+export type { EnsembleEntry, ModelDomain, ProviderEntry } from "./registry.js";
+export { getProviderHealth, type ProviderHealth } from "./resilience.js";
+export { PROMPT_VARIANTS, baseProviderId, promptVariantOf, type PromptVariant } from "./prompt-variants.js";
+export {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  agentUrlProblem,
+  findWebhookAgent,
+  getWebhookAgents,
+  registerWebhookAgent,
+  rotateWebhookSecret,
+  verifyAgentSignature,
+  webhookAgentSchema,
+  type WebhookAgentInfo,
+} from "./webhook.js";
 
-const PROVIDER_IDS = ["openai-gpt-4o-mini", "openai-gpt-4o", "hedera-knowledge"] as const;
+const KNOWLEDGE_OPTION = { id: "hedera-knowledge", name: "Hedera Knowledge" };
 const providers: AIProvider[] = [];
+/** AI_CASSETTE: record or replay every registry and knowledge call (baselines are deterministic already). */
+const cassette = config.aiCassette ? openCassette(config.aiCassette, config.aiCassetteMode) : null;
 
-export function getAIProviders(): AIProvider[] {
-  for (const id of PROVIDER_IDS) {
+function baselineEntries(domain?: ModelDomain): { id: string; name: string }[] {
+  return config.baselineBots ? getBaselineEntries(domain) : [];
+}
+
+/** The knowledge agent times out on its own after 60s; a retry would post the prompt to HCS again. */
+const KNOWLEDGE_RESILIENCE = { timeoutMs: 65_000, retries: 0 };
+
+/**
+ * A webhook agent, a registry model (by id or model name) or the knowledge agent, with timeouts, retries and a circuit breaker.
+ * A recording tapes the resilient provider, so a call that failed is recorded as the failure it played. Replay never calls
+ * the model, so it has nothing to retry: it answers from the tape, and a prompt missing from it is an error, not a default.
+ * Replay stands in for models that cannot be built offline, so a recording plays back without keys.
+ */
+function networkProvider(id: string, settings?: { temperature?: number }): AIProvider | null {
+  const knowledge = id.trim().toLowerCase() === KNOWLEDGE_OPTION.id;
+  const p = knowledge ? getKnowledgeProvider() : createWebhookProvider(id) ?? getOpenAIProviderById(id, settings);
+  if (cassette?.mode === "replay") {
+    if (p) return withCassette(p, cassette);
+    if (knowledge) return withCassette(replayProvider(KNOWLEDGE_OPTION.id, KNOWLEDGE_OPTION.name, false), cassette);
+    const entry = findProviderEntry(id);
+    return entry ? withCassette(replayProvider(entry.id, entry.name, entry.structuredOutput), cassette) : null;
+  }
+  if (!p) return null;
+  const entry = findProviderEntry(id);
+  const agent = findWebhookAgent(p.id);
+  // A webhook agent has one attempt within its deadline
+  const overrides =
+    p.id === KNOWLEDGE_OPTION.id ? KNOWLEDGE_RESILIENCE : agent ? { timeoutMs: agent.timeoutMs, retries: 0 } : { timeoutMs: entry?.timeoutMs, retries: entry?.retries };
+  const resilient = withResilience(p, defaultResilience(overrides));
+  return cassette ? withCassette(resilient, cassette) : resilient;
+}
+
+/**
+ * A registered ensemble over its members that can be built (unbuildable ones are left out; none means null).
+ * A temperature override builds separate member clients; otherwise members are the shared providers.
+ */
+function ensembleProvider(id: string): AIProvider | null {
+  const entry = findEnsembleEntry(id);
+  if (!entry) return null;
+  const members = entry.members
+    .map((m) => (entry.temperature != null && findProviderEntry(m) ? networkProvider(m, { temperature: entry.temperature }) : getAIProvider(m)))
+    .filter((p): p is AIProvider => p != null);
+  if (members.length < entry.members.length) console.warn(`[AI] ensemble ${entry.id}: ${entry.members.length - members.length} member(s) unavailable`);
+  return members.length > 0 ? createEnsembleProvider(entry, members) : null;
+}
+
+/** Contestant ids for the registry's extra prompt variants (registry entry promptVariants). */
+function registryContestants(domain?: ModelDomain): { id: string; name: string }[] {
+  return getProviderEntries(domain).flatMap((e) =>
+    e.promptVariants.map((v) => findPromptVariant(v)!).map((v) => ({ id: contestantId(e.id, v), name: `${e.name} · ${v.label}` }))
+  );
+}
+
+/**
+ * Registry models (that have a usable client) and their prompt-variant contestants, the Hedera knowledge agent,
+ * the baseline bots, the ensembles, then the webhook agents; with a domain, only those that play it.
+ */
+export function getAIProviders(domain?: ModelDomain): AIProvider[] {
+  for (const id of [...getProviderEntries().map((e) => e.id), KNOWLEDGE_OPTION.id, ...baselineEntries().map((e) => e.id)]) {
     if (!providers.some((p) => p.id === id)) {
-      const p = id === "hedera-knowledge" ? getKnowledgeProvider() : getOpenAIProviderById(id);
+      const p = getBaselineProvider(id) ?? networkProvider(id);
       if (p) providers.push(p);
     }
   }
-  return providers;
+  for (const { id } of registryContestants()) getAIProvider(id);
+  for (const { id } of [...getEnsembleEntries(), ...getWebhookAgents()]) getAIProvider(id);
+  if (!domain) return providers;
+  const playing = new Set(getModelOptions(domain).map((o) => o.id.toLowerCase()));
+  return providers.filter((p) => playing.has(p.id.toLowerCase()));
 }
 
+/**
+ * A provider id, or a contestant id "<provider id>@<variant id>". The variant id must be exact (no latest-version
+ * shorthand): bankrolls, hands and markets are keyed by the id as given, so one contestant must have one id.
+ */
 export function getAIProvider(id: string): AIProvider | undefined {
   const key = (id ?? "").trim();
+  const { providerId, variant } = parseContestantId(key);
+  if (variant != null) {
+    const v = getPromptVariant(variant);
+    const base = v && !providerId.includes("@") ? getAIProvider(providerId) : undefined;
+    if (!v || !base) return undefined;
+    const canonical = contestantId(base.id, v).toLowerCase();
+    const existing = providers.find((p) => p.id.toLowerCase() === canonical);
+    if (existing) return existing;
+    const contestant = asContestant(base, v);
+    providers.push(contestant);
+    return contestant;
+  }
   const keyLower = key.toLowerCase();
   const found = providers.find((p) => p.id.toLowerCase() === keyLower);
   if (found) return found;
-  if (keyLower === "hedera-knowledge") {
-    const created = getKnowledgeProvider();
-    if (created) {
-      providers.push(created);
-      return created;
-    }
-  }
-  const created = getOpenAIProviderById(key);
+  const created = (config.baselineBots ? getBaselineProvider(key) : null) ?? ensembleProvider(key) ?? networkProvider(key);
   if (created) {
     providers.push(created);
     return created;
   }
   return undefined;
 }
+
+/** Models to list for a domain's /models route, whether or not their key is set (lookup happens at play time). */
+export function getModelOptions(domain: ModelDomain): { id: string; name: string }[] {
+  const options = [...getProviderEntries(domain).map((e) => ({ id: e.id, name: e.name })), ...registryContestants(domain)];
+  const baselines = baselineEntries(domain).map(({ id, name }) => ({ id, name }));
+  const extra = [...getEnsembleEntries(domain), ...getWebhookAgents(domain)].map(({ id, name }) => ({ id, name }));
+  return domain === "blackjack" ? [...options, KNOWLEDGE_OPTION, ...baselines, ...extra] : [...options, ...baselines, ...extra];
+}
+
+/**
+ * Providers the auto-play jobs may seat for a domain: registry models first, then the domain's
+ * baselines, so the jobs still run (bot vs bot) without any API key, then ensembles and webhook agents that opted in.
+ */
+export function getAutoPlayProviders(domain: ModelDomain): AIProvider[] {
+  const eligible = new Set([
+    ...getProviderEntries(domain).filter((e) => e.autoPlay).map((e) => e.id),
+    ...baselineEntries(domain).map((e) => e.id),
+    ...getEnsembleEntries(domain).filter((e) => e.autoPlay).map((e) => e.id),
+    ...getWebhookAgents(domain).filter((a) => a.autoPlay).map((a) => a.id),
+  ]);
+  return getAIProviders().filter((p) => eligible.has(p.id));
+}
+
+/** Whether an id already names a model (exactly), so a webhook agent cannot take it. */
+export function isModelIdTaken(id: string): boolean {
+  const key = id.trim().toLowerCase();
+  const ids = [
+    ...getProviderEntries().map((e) => e.id),
+    ...getEnsembleEntries().map((e) => e.id),
+    ...getBaselineEntries().map((e) => e.id),
+    ...getWebhookAgents().map((a) => a.id),
+    KNOWLEDGE_OPTION.id,
+  ];
+  return ids.some((i) => i.toLowerCase() === key);
+}
+
+/** Drop a provider and its contestants from the cache, so the next lookup builds it again. */
+function forgetProvider(id: string): void {
+  const key = id.toLowerCase();
+  for (let i = providers.length - 1; i >= 0; i--) {
+    const p = providers[i].id.toLowerCase();
+    if (p === key || p.startsWith(`${key}@`)) providers.splice(i, 1);
+  }
+}
+
+/** Update a webhook agent; its provider is rebuilt so a new deadline applies. */
+export function updateWebhookAgent(...args: Parameters<typeof updateAgent>): ReturnType<typeof updateAgent> {
+  forgetProvider(args[0]);
+  return updateAgent(...args);
+}
+
+export function removeWebhookAgent(id: string): boolean {
+  forgetProvider(id);
+  return removeAgent(id);
+}
@@ -6,14 +6,18 @@
 import { config } from "../config.js";
 import { askKnowledge } from "../hedera/knowledge-agent.js";
 import type { AIProvider, AIResponse, AIAskContext } from "./types.js";
+import { usageFor } from "./pricing.js";
+
+const DECISIONS = ["hit", "stand", "double", "split", "surrender"] as const;
 
 function parseStructuredResponse(content: string): AIResponse {
-  const decisionMatch = content.match(/DECISION:\s*(\w+)/i) ?? content.match(/(?:^|\n)\s*(hit|stand)\s*(?:\n|$)/i);
+  const decisionMatch =
+    content.match(/DECISION:\s*(\w+)/i) ?? content.match(/(?:^|\n)\s*(hit|stand|double|split|surrender)\s*(?:\n|$)/i);
   const reasoningMatch = content.match(/REASONING:\s*([\s\S]+?)(?=\n\n|$)/i);
   const decision = (decisionMatch?.[1] ?? content.split(/\s+/)[0] ?? "stand").toLowerCase();
   const reasoning = reasoningMatch?.[1]?.trim();
   return {
-    decision: decision.startsWith("hit") ? "hit" : "stand",
+    decision: DECISIONS.find((d) => decision.startsWith(d)) ?? "stand",
     reasoning,
     raw: content,
   };
@@ -37,8 +41,10 @@ function createKnowledgeProvider(): AIProvider | null {
               betCents: context.betCents,
             }
           : undefined;
+      const started = Date.now();
       const content = await askKnowledge(prompt, meta);
-      return parseStructuredResponse(content);
+      // The knowledge agent reports no token counts; only the round trip over HCS is measured
+      return { ...parseStructuredResponse(content), usage: usageFor(null, 0, 0, Date.now() - started) };
     },
   };
 }
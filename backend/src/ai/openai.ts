@@ -1,6 +1,8 @@
 import OpenAI from "openai";
 import { config } from "../config.js";
-import type { AIProvider, AIResponse, AIAskContext } from "./types.js";
+import type { AIProvider, AIResponse, AIAskContext, ResponseSchema } from "./types.js";
+import { apiKeyFor, findProviderEntry, getProviderEntries, type ProviderEntry } from "./registry.js";
+import { tablePrice, usageFor, type ModelPrice } from "./pricing.js";
 
 const apiKey = (config.openaiApiKey ?? process.env.OPENAI_API_KEY ?? "").trim();
 
@@ -21,6 +23,18 @@ function getClient(): OpenAI | null {
   return client;
 }
 
+/** Clients for registry entries, keyed by base URL and key. */
+const entryClients = new Map<string, OpenAI>();
+
+/** OpenAI needs a key; a self-hosted server (baseUrl set) may not, so a placeholder is sent. */
+function getEntryClient(entry: ProviderEntry): OpenAI | null {
+  const key = apiKeyFor(entry);
+  if (!entry.baseUrl) return key === apiKey ? getClient() : key ? new OpenAI({ apiKey: key }) : null;
+  const cacheKey = `${entry.baseUrl}|${key}`;
+  if (!entryClients.has(cacheKey)) entryClients.set(cacheKey, new OpenAI({ apiKey: key || "not-needed", baseURL: entry.baseUrl }));
+  return entryClients.get(cacheKey)!;
+}
+
 /** Expect AI to respond with "DECISION: X" and optional "REASONING: Y" */
 function parseStructuredResponse(content: string): AIResponse {
   const decisionMatch = content.match(/DECISION:\s*(\w+)/i) ?? content.match(/(?:^|\n)\s*(\w+)\s*$/);
@@ -31,33 +45,71 @@ function parseStructuredResponse(content: string): AIResponse {
   };
 }
 
-function createOpenAIProvider(id: string, name: string, model: string): AIProvider | null {
-  const c = getClient();
+/** Sent with structured asks, whose prompts still describe the text reply format. */
+const STRUCTURED_SYSTEM_PROMPT = "Answer with a JSON object matching the response schema. Put your reasoning in its reasoning fields.";
+
+function createOpenAIProvider(entry: ProviderEntry): AIProvider | null {
+  const c = getEntryClient(entry);
   if (!c) return null;
+  const { model, temperature, maxTokens } = entry;
+  // Retries and the circuit breaker live in ai/resilience.ts; the SDK only enforces the timeout
+  const requestOptions = { timeout: entry.timeoutMs ?? config.aiTimeoutMs, maxRetries: 0 };
+  const price: ModelPrice | null = entry.pricing ?? (entry.baseUrl ? null : tablePrice(model));
+  const usageOf = (usage: OpenAI.CompletionUsage | null | undefined, started: number) =>
+    usageFor(price, usage?.prompt_tokens ?? 0, usage?.completion_tokens ?? 0, Date.now() - started);
+  const askStructured = async (prompt: string, schema: ResponseSchema): Promise<AIResponse & { structured: unknown }> => {
+    const started = Date.now();
+    const completion = await c.chat.completions.create({
+      model,
+      messages: [
+        { role: "system", content: STRUCTURED_SYSTEM_PROMPT },
+        { role: "user", content: prompt },
+      ],
+      temperature,
+      max_tokens: maxTokens,
+      response_format: { type: "json_schema", json_schema: { name: schema.name, schema: schema.schema, strict: true } },
+    }, requestOptions);
+    const content = completion.choices[0]?.message?.content?.trim() ?? "";
+    let structured: unknown = null;
+    try {
+      structured = JSON.parse(content);
+    } catch {
+      /* not JSON: left null and recorded by the caller as schema_invalid */
+    }
+    const o = (structured ?? {}) as Record<string, unknown>;
+    const decision = String(o.decision ?? o.trade ?? "");
+    return { decision, reasoning: typeof o.reasoning === "string" ? o.reasoning : undefined, raw: content, structured, usage: usageOf(completion.usage, started) };
+  };
   return {
-    id,
-    name,
+    id: entry.id,
+    name: entry.name,
     async ask(prompt: string, _context?: AIAskContext): Promise<AIResponse> {
+      const started = Date.now();
       const completion = await c.chat.completions.create({
         model,
         messages: [{ role: "user", content: prompt }],
-        temperature: 0,
-        max_tokens: 500,
-      });
+        temperature,
+        max_tokens: maxTokens,
+      }, requestOptions);
       const content = completion.choices[0]?.message?.content?.trim() ?? "";
       const parsed = parseStructuredResponse(content);
-      return { ...parsed, raw: content };
+      return { ...parsed, raw: content, usage: usageOf(completion.usage, started) };
     },
     async *askStream(prompt: string, _context?: AIAskContext): AsyncGenerator<string, AIResponse> {
+      const started = Date.now();
       const stream = await c.chat.completions.create({
         model,
         messages: [{ role: "user", content: prompt }],
-        temperature: 0,
-        max_tokens: 500,
+        temperature,
+        max_tokens: maxTokens,
         stream: true,
-      });
+        stream_options: { include_usage: true },
+      }, requestOptions);
       let full = "";
+      let usage: OpenAI.CompletionUsage | undefined;
       for await (const chunk of stream) {
+        // The usage chunk comes last, with no choices
+        if (chunk.usage) usage = chunk.usage;
         const delta = chunk.choices[0]?.delta?.content;
         if (typeof delta === "string") {
           full += delta;
@@ -65,50 +117,27 @@ function createOpenAIProvider(id: string, name: string, model: string): AIProvid
         }
       }
       const parsed = parseStructuredResponse(full.trim());
-      return { ...parsed, raw: full.trim() };
+      return { ...parsed, raw: full.trim(), usage: usageOf(usage, started) };
     },
+    ...(entry.structuredOutput ? { askStructured } : {}),
   };
 }
 
-/** All OpenAI-based models; add more here to show in the UI */
-const OPENAI_MODELS = [
-  { id: "openai-gpt-4o-mini", name: "GPT-4o Mini", model: "gpt-4o-mini" },
-  { id: "openai-gpt-4o", name: "GPT-4o", model: "gpt-4o" },
-] as const;
-
-type ModelConfig = (typeof OPENAI_MODELS)[number];
-const modelById = new Map<string, ModelConfig>();
-const modelByApiName = new Map<string, ModelConfig>();
-for (const m of OPENAI_MODELS) {
-  modelById.set(m.id, m);
-  modelByApiName.set(m.model, m);
-}
-
 /** Built on first use so getClient() has run (key loaded). */
 function buildOpenAIProviders(): AIProvider[] {
-  return OPENAI_MODELS.map((m) => createOpenAIProvider(m.id, m.name, m.model)).filter(
-    (p): p is AIProvider => p != null
-  );
+  return getProviderEntries().map(createOpenAIProvider).filter((p): p is AIProvider => p != null);
 }
 export const openAIProviders: AIProvider[] = buildOpenAIProviders();
 
-/** Create a provider by id on demand. Resolves by exact id, API model name, or "gpt-4o" / "gpt-4o-mini" in the string. */
-export function getOpenAIProviderById(id: string): AIProvider | null {
-  const trimmed = (id ?? "").trim().toLowerCase();
-  let config = modelById.get(trimmed) ?? modelByApiName.get(trimmed);
-  if (!config) {
-    if (trimmed.includes("gpt-4o-mini") || (trimmed.includes("mini") && trimmed.includes("gpt-4o"))) {
-      config = OPENAI_MODELS[0];
-    } else if (trimmed.includes("gpt-4o")) {
-      config = OPENAI_MODELS[1];
-    }
-  }
-  return config ? createOpenAIProvider(config.id, config.name, config.model) : null;
+/**
+ * Create a provider by id on demand: a registry id, a model name, or an id containing a model name.
+ * Overrides change the request settings only (e.g. an ensemble sampling at a higher temperature).
+ */
+export function getOpenAIProviderById(id: string, overrides?: Partial<Pick<ProviderEntry, "temperature">>): AIProvider | null {
+  const entry = findProviderEntry(id);
+  return entry ? createOpenAIProvider({ ...entry, ...overrides }) : null;
 }
 
-export const openAIProvider = openAIProviders[0] ?? null;
-export const openAIProvider4o = openAIProviders[1] ?? null;
-
 /** Generic chat completion (system + user). Used by benchmark analyst. */
 export async function chatCompletion(
   messages: Array<{ role: "system" | "user" | "assistant"; content: string }>,
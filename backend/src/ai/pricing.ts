@@ -0,0 +1,32 @@
+/**
+ * Inference prices, USD per million tokens. Registry entries may set their own (ai/registry.ts);
+ * otherwise OpenAI models are priced from this table and self-hosted models (baseUrl set) cost nothing.
+ */
+
+import type { AIUsage } from "./types.js";
+
+export type ModelPrice = { inputPerMTok: number; outputPerMTok: number };
+
+const PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  "gpt-4o": { inputPerMTok: 2.5, outputPerMTok: 10 },
+  "gpt-4.1-nano": { inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  "gpt-4.1-mini": { inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  "gpt-4.1": { inputPerMTok: 2, outputPerMTok: 8 },
+  "o3-mini": { inputPerMTok: 1.1, outputPerMTok: 4.4 },
+  "o4-mini": { inputPerMTok: 1.1, outputPerMTok: 4.4 },
+};
+
+/** Table price for a model name; dated snapshots ("gpt-4o-2024-08-06") use the longest matching prefix. */
+export function tablePrice(model: string): ModelPrice | null {
+  const name = model.trim().toLowerCase();
+  const key = Object.keys(PRICES)
+    .filter((k) => name === k || name.startsWith(`${k}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? PRICES[key] : null;
+}
+
+export function usageFor(price: ModelPrice | null, promptTokens: number, completionTokens: number, latencyMs: number): AIUsage {
+  const costUsd = price ? (promptTokens * price.inputPerMTok + completionTokens * price.outputPerMTok) / 1_000_000 : 0;
+  return { promptTokens, completionTokens, latencyMs, costUsd };
+}
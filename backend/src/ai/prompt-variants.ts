@@ -0,0 +1,101 @@
+/**
+ * Named, versioned prompt variants. A contestant is a provider plus a variant, with the id
+ * "<provider id>@<variant id>" (e.g. "openai-gpt-4o-mini@cot.v1"), so the same model asked with different
+ * prompts keeps its own bankroll, hands, leaderboard row and markets. A plain provider id is the
+ * provider's default variant. Each domain keeps its templates next to its prompts and picks them
+ * with promptVariantOf.
+ *
+ * Changing a template's wording means adding a new version, so results under the old wording stay
+ * comparable with each other.
+ */
+
+import type { AIProvider } from "./types.js";
+
+export type PromptVariantName = "minimal" | "with-rules" | "cot" | "memory";
+
+export type PromptVariant = {
+  /** "<name>.v<version>", the suffix of contestant ids. */
+  id: string;
+  name: PromptVariantName;
+  version: number;
+  label: string;
+  description: string;
+};
+
+function variant(name: PromptVariantName, version: number, label: string, description: string): PromptVariant {
+  return { id: `${name}.v${version}`, name, version, label, description };
+}
+
+/** Every published variant; the latest version of a name is listed last. */
+export const PROMPT_VARIANTS: PromptVariant[] = [
+  variant("minimal", 1, "Minimal", "Game state and reply format only; no strategy or odds (crop: the standard trading prompt)."),
+  variant("with-rules", 1, "With rules", "Adds the full game rules and table mechanics to every prompt."),
+  variant("cot", 1, "Chain of thought", "The minimal prompt plus an instruction to reason step by step before the answer lines."),
+  variant("memory", 1, "Session memory", "The minimal prompt plus a summary of the contestant's own last hands or trades this session and how they turned out."),
+];
+
+const SEPARATOR = "@";
+
+/** The knowledge agent has always been asked with the rules; every other provider with the minimal prompts. */
+const KNOWLEDGE_ID = "hedera-knowledge";
+
+/** A variant by its exact id ("cot.v1"), as contestant ids carry it. */
+export function getPromptVariant(id: string): PromptVariant | undefined {
+  return PROMPT_VARIANTS.find((v) => v.id === id.trim().toLowerCase());
+}
+
+/** A variant by id or by name ("cot", the latest version), for configuration. */
+export function findPromptVariant(key: string): PromptVariant | undefined {
+  return getPromptVariant(key) ?? PROMPT_VARIANTS.filter((v) => v.name === key.trim().toLowerCase()).pop();
+}
+
+export function contestantId(providerId: string, variant: PromptVariant): string {
+  return `${providerId}${SEPARATOR}${variant.id}`;
+}
+
+/** Split a contestant id; variant is null for a plain provider id. */
+export function parseContestantId(id: string): { providerId: string; variant: string | null } {
+  const i = id.lastIndexOf(SEPARATOR);
+  return i > 0 ? { providerId: id.slice(0, i), variant: id.slice(i + 1) } : { providerId: id, variant: null };
+}
+
+/** Provider id behind a contestant id (the id itself for a plain provider). */
+export function baseProviderId(id: string): string {
+  return parseContestantId(id).providerId;
+}
+
+function defaultVariantFor(providerId: string): PromptVariant {
+  return findPromptVariant(providerId.toLowerCase() === KNOWLEDGE_ID ? "with-rules" : "minimal")!;
+}
+
+/** The chain-of-thought variants' addition: reasoning first, then the answer lines the prompt asks for. */
+export function withChainOfThought(prompt: string): string {
+  return `${prompt}
+
+Think it through before answering: start with a line THINKING: and reason step by step about the numbers that matter here (totals, odds, prices, what each option risks and gains). Then finish with the answer lines exactly in the format above.`;
+}
+
+/** Heads the session memory block; everything after it is memory (ai/cassette.ts leaves it out of replay keys). */
+export const SESSION_MEMORY_HEADING = "Your own results so far this session, for reference (the reply format above still applies):";
+
+/**
+ * The memory variants' addition: the contestant's own recent results, as lines built by its domain
+ * (a session total first, then the last few hands or trades, oldest first).
+ */
+export function withSessionMemory(prompt: string, memory: string[]): string {
+  const lines = memory.length > 0 ? memory.join("\n") : "None yet: this is your first decision of the session.";
+  return `${prompt}
+
+${SESSION_MEMORY_HEADING}
+${lines}`;
+}
+
+/** The variant a provider or contestant is asked with. */
+export function promptVariantOf(provider: AIProvider): PromptVariant {
+  return (provider.promptVariant && getPromptVariant(provider.promptVariant)) || defaultVariantFor(baseProviderId(provider.id));
+}
+
+/** The same provider asked with another variant. Methods are shared, so timeouts, circuit and cassette stay the provider's. */
+export function asContestant(provider: AIProvider, variant: PromptVariant): AIProvider {
+  return { ...provider, id: contestantId(provider.id, variant), name: `${provider.name} · ${variant.label}`, promptVariant: variant.id };
+}
@@ -0,0 +1,142 @@
+/**
+ * Registry of chat models. Entries come from AI_PROVIDERS_FILE (a JSON array) or AI_PROVIDERS (the same
+ * JSON inline); with neither set, the built-in OpenAI models are used. Any OpenAI-compatible server works
+ * (e.g. a local llama.cpp or vLLM instance): set baseUrl and, if the server checks keys, apiKeyEnv.
+ * Entries with "members" instead of "model" are ensembles (ai/ensemble.ts) that vote over other models.
+ */
+
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { z } from "zod";
+import { config } from "../config.js";
+import { findPromptVariant } from "./prompt-variants.js";
+
+export type ModelDomain = "blackjack" | "crop";
+
+const providerEntrySchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  /** Model name sent to the server, e.g. "gpt-4o-mini" or "llama-3.1-8b-instruct". */
+  model: z.string().trim().min(1),
+  /** OpenAI-compatible base URL, e.g. "http://localhost:8080/v1"; omit for OpenAI. */
+  baseUrl: z.string().url().optional(),
+  /** Env var holding the API key. Servers with a baseUrl may run without one. */
+  apiKeyEnv: z.string().trim().min(1).default("OPENAI_API_KEY"),
+  temperature: z.number().min(0).max(2).default(0),
+  maxTokens: z.number().int().positive().default(500),
+  /** Domains that list this model in /models. */
+  domains: z.array(z.enum(["blackjack", "crop"])).nonempty().default(["blackjack", "crop"]),
+  /** Candidate for the auto-play jobs (the first two eligible models play). */
+  autoPlay: z.boolean().default(true),
+  /** Ask for JSON replies matching each domain's schema (response_format json_schema); the server must support it. */
+  structuredOutput: z.boolean().default(false),
+  /** USD per million tokens; defaults to the price table for OpenAI models and 0 for self-hosted ones (ai/pricing.ts). */
+  pricing: z.object({ inputPerMTok: z.number().min(0), outputPerMTok: z.number().min(0) }).optional(),
+  /** Per-attempt timeout and retries for this model; default AI_TIMEOUT_MS / AI_RETRIES (ai/resilience.ts). */
+  timeoutMs: z.number().int().positive().optional(),
+  retries: z.number().int().min(0).max(10).optional(),
+  /** Extra contestants: the same model asked with these prompt variants (e.g. ["cot", "with-rules.v1"]). */
+  promptVariants: z.array(z.string().trim().min(1)).default([]),
+});
+
+export type ProviderEntry = z.infer<typeof providerEntrySchema>;
+
+const ensembleEntrySchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  /** Registry model or baseline ids whose answers are combined (not other ensembles). */
+  members: z.array(z.string().trim().min(1)).nonempty(),
+  /** Answers drawn from each member per ask; more than one is self-consistency sampling. */
+  samples: z.number().int().min(1).max(15).default(1),
+  /** Sampling temperature for registry members, instead of their own (use > 0 with samples > 1). */
+  temperature: z.number().min(0).max(2).optional(),
+  domains: z.array(z.enum(["blackjack", "crop"])).nonempty().default(["blackjack", "crop"]),
+  autoPlay: z.boolean().default(true),
+});
+
+export type EnsembleEntry = z.infer<typeof ensembleEntrySchema>;
+
+const BUILT_IN: z.input<typeof providerEntrySchema>[] = [
+  { id: "openai-gpt-4o-mini", name: "GPT-4o Mini", model: "gpt-4o-mini" },
+  { id: "openai-gpt-4o", name: "GPT-4o", model: "gpt-4o" },
+];
+
+function loadEntries(): { entries: ProviderEntry[]; ensembles: EnsembleEntry[] } {
+  let source = "built-in models";
+  let raw: unknown = BUILT_IN;
+  try {
+    if (config.aiProviders || config.aiProvidersFile) {
+      source = config.aiProvidersFile ? `AI_PROVIDERS_FILE (${config.aiProvidersFile})` : "AI_PROVIDERS";
+      raw = JSON.parse(config.aiProvidersFile ? readFileSync(resolve(config.aiProvidersFile), "utf-8") : config.aiProviders!);
+    }
+  } catch (e) {
+    throw new Error(`Could not read ${source}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const isEnsemble = (e: unknown) => typeof e === "object" && e != null && "members" in e;
+  const parsed = z
+    .array(z.unknown())
+    .transform((list) => ({ entries: list.filter((e) => !isEnsemble(e)), ensembles: list.filter(isEnsemble) }))
+    .pipe(z.object({ entries: z.array(providerEntrySchema), ensembles: z.array(ensembleEntrySchema) }))
+    .safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid ${source} at ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  }
+  const ids = new Set<string>();
+  for (const entry of [...parsed.data.entries, ...parsed.data.ensembles]) {
+    const key = entry.id.toLowerCase();
+    if (ids.has(key) || key === "hedera-knowledge") throw new Error(`Invalid ${source}: duplicate or reserved model id "${entry.id}"`);
+    if (key.includes("@")) throw new Error(`Invalid ${source}: model id "${entry.id}" may not contain "@" (it separates prompt variants)`);
+    const unknown = "promptVariants" in entry ? entry.promptVariants.find((v) => !findPromptVariant(v)) : undefined;
+    if (unknown) throw new Error(`Invalid ${source}: unknown prompt variant "${unknown}" for "${entry.id}"`);
+    ids.add(key);
+  }
+  for (const ensemble of parsed.data.ensembles) {
+    const nested = ensemble.members.find((m) => parsed.data.ensembles.some((e) => e.id.toLowerCase() === m.toLowerCase()));
+    if (nested) throw new Error(`Invalid ${source}: ensemble "${ensemble.id}" lists another ensemble ("${nested}") as a member`);
+    // Members are asked the ensemble's own prompt; use "<ensemble id>@<variant>" to vary it
+    const contestant = ensemble.members.find((m) => m.includes("@"));
+    if (contestant) throw new Error(`Invalid ${source}: ensemble "${ensemble.id}" member "${contestant}" must be a plain model id`);
+  }
+  return parsed.data;
+}
+
+const { entries, ensembles } = loadEntries();
+
+/** Registered models, in config order. */
+export function getProviderEntries(domain?: ModelDomain): ProviderEntry[] {
+  return domain ? entries.filter((e) => e.domains.includes(domain)) : entries;
+}
+
+/**
+ * Resolve an id to a registered model: exact id, then exact model name, then the longest model name
+ * contained in the id (so "gpt-4o-mini-2024-07-18" still finds gpt-4o-mini).
+ */
+export function findProviderEntry(id: string): ProviderEntry | undefined {
+  const key = (id ?? "").trim().toLowerCase();
+  if (!key) return undefined;
+  return (
+    entries.find((e) => e.id.toLowerCase() === key) ??
+    entries.find((e) => e.model.toLowerCase() === key) ??
+    entries
+      .filter((e) => key.includes(e.model.toLowerCase()))
+      .sort((a, b) => b.model.length - a.model.length)[0]
+  );
+}
+
+/** Registered ensembles, in config order. */
+export function getEnsembleEntries(domain?: ModelDomain): EnsembleEntry[] {
+  return domain ? ensembles.filter((e) => e.domains.includes(domain)) : ensembles;
+}
+
+export function findEnsembleEntry(id: string): EnsembleEntry | undefined {
+  const key = (id ?? "").trim().toLowerCase();
+  return ensembles.find((e) => e.id.toLowerCase() === key);
+}
+
+/** Read the entry's API key; OPENAI_API_KEY also falls back to the parsed config. */
+export function apiKeyFor(entry: ProviderEntry): string {
+  const fromEnv = process.env[entry.apiKeyEnv]?.trim();
+  if (fromEnv) return fromEnv;
+  return entry.apiKeyEnv === "OPENAI_API_KEY" ? (config.openaiApiKey ?? "").trim() : "";
+}
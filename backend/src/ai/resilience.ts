@@ -0,0 +1,200 @@
+/**
+ * Resilience for network providers: a timeout per call, bounded retries with exponential backoff and a
+ * circuit breaker per provider. A call that still fails is not thrown to the game loop; it resolves to a
+ * reply marked with `failure`, and the domains play their default (stand, minimum bet, no insurance,
+ * hold) so the hand or step still settles. Counters per model feed /health and the leaderboard.
+ */
+
+import { config } from "../config.js";
+import type { AIAskContext, AIFailure, AIProvider, AIResponse, ResponseSchema } from "./types.js";
+import { usageFor } from "./pricing.js";
+
+export type ResilienceOptions = {
+  /** Per attempt; a stream times out when no chunk arrives within it. */
+  timeoutMs: number;
+  /** Attempts after the first. */
+  retries: number;
+  /** First retry delay, doubled on each further retry. */
+  backoffMs: number;
+  /** Consecutive failed calls that open the circuit. */
+  breakerFailures: number;
+  /** How long an open circuit fails calls at once before one trial call is let through. */
+  breakerCooldownMs: number;
+};
+
+export function defaultResilience(overrides?: Partial<ResilienceOptions>): ResilienceOptions {
+  return {
+    timeoutMs: config.aiTimeoutMs,
+    retries: config.aiRetries,
+    backoffMs: config.aiBackoffMs,
+    breakerFailures: config.aiBreakerFailures,
+    breakerCooldownMs: config.aiBreakerCooldownMs,
+    ...Object.fromEntries(Object.entries(overrides ?? {}).filter(([, v]) => v != null)),
+  };
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type ProviderHealth = {
+  modelId: string;
+  /** Calls made by the game loops (retries not counted). */
+  calls: number;
+  /** Calls that ended without a reply, so the default was played. */
+  failures: number;
+  timeouts: number;
+  /** Calls failed at once by an open circuit. */
+  shortCircuited: number;
+  retries: number;
+  /** failures / calls; null before the first call. */
+  failureRate: number | null;
+  circuit: CircuitState;
+  lastError: string | null;
+};
+
+type Breaker = Omit<ProviderHealth, "failureRate" | "circuit"> & { consecutiveFailures: number; openUntil: number; breakerFailures: number };
+
+/** modelId -> counters and breaker state (server session) */
+const breakers = new Map<string, Breaker>();
+
+function breakerFor(modelId: string, breakerFailures: number): Breaker {
+  let b = breakers.get(modelId);
+  if (!b) {
+    b = { modelId, calls: 0, failures: 0, timeouts: 0, shortCircuited: 0, retries: 0, lastError: null, consecutiveFailures: 0, openUntil: 0, breakerFailures };
+    breakers.set(modelId, b);
+  }
+  b.breakerFailures = breakerFailures;
+  return b;
+}
+
+function circuitOf(b: Breaker): CircuitState {
+  if (b.consecutiveFailures < b.breakerFailures) return "closed";
+  return Date.now() < b.openUntil ? "open" : "half_open";
+}
+
+/** Per-model failure counters and circuit state, most failing first. */
+export function getProviderHealth(): ProviderHealth[] {
+  return Array.from(breakers.values(), (b) => {
+    const { consecutiveFailures: _c, openUntil: _o, breakerFailures: _f, ...counts } = b;
+    return { ...counts, failureRate: b.calls > 0 ? b.failures / b.calls : null, circuit: circuitOf(b) };
+  }).sort((a, b) => (b.failureRate ?? 0) - (a.failureRate ?? 0));
+}
+
+class TimeoutError extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(`no reply within ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function failureOf(e: unknown): AIFailure {
+  const detail = e instanceof Error ? e.message : String(e);
+  return { reason: e instanceof TimeoutError ? "timeout" : "error", detail };
+}
+
+/** The reply played when a call fails: no text, so every domain falls back to its default. */
+export function failedResponse(failure: AIFailure, latencyMs: number): AIResponse {
+  return {
+    decision: failure.reason === "circuit_open" ? "error" : failure.reason,
+    reasoning: `No reply (${failure.reason}: ${failure.detail}); the default was played.`,
+    raw: "",
+    failure,
+    usage: usageFor(null, 0, 0, latencyMs),
+  };
+}
+
+/**
+ * Wrap a provider so its calls never hang or throw: each attempt is timed out, failures are retried
+ * with backoff, and after breakerFailures failed calls in a row the circuit opens for the cooldown.
+ * A stream that already yielded chunks is not retried (its reasoning was shown); it ends in a failure.
+ */
+export function withResilience(provider: AIProvider, options: ResilienceOptions = defaultResilience()): AIProvider {
+  const b = breakerFor(provider.id, options.breakerFailures);
+
+  /** Start a call: counts it, or returns the failure when the circuit is open. A half-open circuit lets this one call try. */
+  const begin = (): AIFailure | null => {
+    b.calls++;
+    const circuit = circuitOf(b);
+    if (circuit === "half_open") b.openUntil = Date.now() + options.breakerCooldownMs;
+    if (circuit !== "open") return null;
+    b.failures++;
+    b.shortCircuited++;
+    return { reason: "circuit_open", detail: `circuit open after ${b.consecutiveFailures} failed calls` };
+  };
+  const succeeded = () => {
+    b.consecutiveFailures = 0;
+  };
+  const failed = (failure: AIFailure, started: number): AIResponse => {
+    b.failures++;
+    if (failure.reason === "timeout") b.timeouts++;
+    b.lastError = failure.detail;
+    b.consecutiveFailures++;
+    if (b.consecutiveFailures >= options.breakerFailures) b.openUntil = Date.now() + options.breakerCooldownMs;
+    console.warn(`[AI] ${provider.id}: ${failure.reason} (${failure.detail}); playing the default`);
+    return failedResponse(failure, Date.now() - started);
+  };
+
+  async function call<R extends AIResponse>(attempt: () => Promise<R>): Promise<R | AIResponse> {
+    const started = Date.now();
+    const open = begin();
+    if (open) return failedResponse(open, 0);
+    for (let i = 0; ; i++) {
+      try {
+        const response = await withTimeout(attempt(), options.timeoutMs);
+        succeeded();
+        return response;
+      } catch (e) {
+        if (i >= options.retries) return failed(failureOf(e), started);
+        b.retries++;
+        await sleep(options.backoffMs * 2 ** i);
+      }
+    }
+  }
+
+  const wrapped: AIProvider = {
+    id: provider.id,
+    name: provider.name,
+    ask: (prompt: string, context?: AIAskContext) => call(() => provider.ask(prompt, context)),
+  };
+  const inner = provider;
+  if (inner.askStructured) {
+    const structured = inner.askStructured.bind(inner);
+    wrapped.askStructured = async (prompt: string, schema: ResponseSchema, context?: AIAskContext) => {
+      const response = await call(() => structured(prompt, schema, context));
+      return { structured: null, ...response };
+    };
+  }
+  if (inner.askStream) {
+    const stream = inner.askStream.bind(inner);
+    wrapped.askStream = async function* (prompt: string, context?: AIAskContext): AsyncGenerator<string, AIResponse> {
+      const started = Date.now();
+      const open = begin();
+      if (open) return failedResponse(open, 0);
+      for (let i = 0; ; i++) {
+        const gen = stream(prompt, context);
+        let yielded = false;
+        try {
+          for (;;) {
+            const next = await withTimeout(gen.next(), options.timeoutMs);
+            if (next.done) {
+              succeeded();
+              return next.value;
+            }
+            yielded = true;
+            yield next.value;
+          }
+        } catch (e) {
+          gen.return?.(failedResponse(failureOf(e), 0)).catch(() => {});
+          if (yielded || i >= options.retries) return failed(failureOf(e), started);
+          b.retries++;
+          await sleep(options.backoffMs * 2 ** i);
+        }
+      }
+    };
+  }
+  return wrapped;
+}
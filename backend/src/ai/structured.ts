@@ -0,0 +1,184 @@
+/**
+ * Structured replies and instruction-following. Providers with structured output answer with a JSON
+ * object that is validated against the domain's zod schema; all others are parsed from text as before.
+ * Either way, every fallback (no usable answer, so a default is played) and every clamp (an answer
+ * outside the limits) is recorded as a compliance event, so a model that babbles and ends up standing
+ * can be told apart from one that chose to stand.
+ */
+
+import { z } from "zod";
+import type { AIAskContext, AIProvider, AIResponse, ResponseSchema } from "./types.js";
+import { usageFor } from "./pricing.js";
+
+const RESPONSES = {
+  blackjack_decision: z.object({
+    decision: z.enum(["hit", "stand", "double", "split", "surrender"]),
+    reasoning: z.string(),
+  }),
+  blackjack_bet: z.object({
+    bet: z.number().nonnegative(),
+    sideBets: z.array(z.object({ kind: z.enum(["perfect_pairs", "21+3"]), amount: z.number().nonnegative() })),
+    reasoning: z.string(),
+  }),
+  blackjack_insurance: z.object({
+    insurance: z.boolean(),
+    reasoning: z.string(),
+  }),
+  crop_trade: z.object({
+    trade: z.enum(["buy", "sell", "short", "cover", "hold"]),
+    /** Optional so replies recorded before multi-commodity trading still validate. */
+    commodity: z.string().nullable().optional(),
+    size: z.number().nonnegative(),
+    reasoning: z.string(),
+    bushelsPerAcre: z.number().positive().nullable(),
+    reasonLongTerm: z.string(),
+    /** Resting orders (domains/crop/orders.ts); optional so replies recorded before them still validate. */
+    orders: z
+      .array(z.object({ type: z.string(), commodity: z.string().nullable(), size: z.number(), price: z.number(), timeInForce: z.string().nullable() }))
+      .optional(),
+    cancel: z.array(z.string()).optional(),
+  }),
+};
+
+export type ResponseKind = keyof typeof RESPONSES;
+export type StructuredReply<K extends ResponseKind> = z.infer<(typeof RESPONSES)[K]>;
+
+/** Strict JSON schema object: every property required, nothing else allowed. */
+function object(properties: Record<string, unknown>): Record<string, unknown> {
+  return { type: "object", properties, required: Object.keys(properties), additionalProperties: false };
+}
+
+const text = { type: "string" };
+
+/** The same shapes as RESPONSES, in the JSON schema form chat APIs accept. */
+const JSON_SCHEMAS: Record<ResponseKind, Record<string, unknown>> = {
+  blackjack_decision: object({
+    decision: { type: "string", enum: ["hit", "stand", "double", "split", "surrender"], description: "One of the actions the prompt offers" },
+    reasoning: text,
+  }),
+  blackjack_bet: object({
+    bet: { type: "number", description: "Main bet in dollars" },
+    sideBets: {
+      type: "array",
+      description: "Side bets to place; empty for none",
+      items: object({ kind: { type: "string", enum: ["perfect_pairs", "21+3"] }, amount: { type: "number", description: "Dollars" } }),
+    },
+    reasoning: text,
+  }),
+  blackjack_insurance: object({
+    insurance: { type: "boolean", description: "true to take insurance (or even money)" },
+    reasoning: text,
+  }),
+  crop_trade: object({
+    trade: { type: "string", enum: ["buy", "sell", "short", "cover", "hold"], description: "short and cover only when the prompt offers them (margin and futures accounts)" },
+    commodity: { type: ["string", "null"], description: "Id of the commodity to buy or sell (e.g. corn, soybeans); null when only one is traded" },
+    size: { type: "number", description: "Dollars to spend for buy, units (e.g. bushels) for sell, short and cover; contracts for every trade in a futures account; 0 for hold" },
+    reasoning: text,
+    bushelsPerAcre: { type: ["number", "null"], description: "Long-term US corn yield forecast" },
+    reasonLongTerm: text,
+    orders: {
+      type: "array",
+      description: "New resting orders; empty for none",
+      items: object({
+        type: { type: "string", enum: ["limit_buy", "limit_sell", "stop"] },
+        commodity: { type: ["string", "null"], description: "Commodity id; null when only one is traded" },
+        size: { type: "number", description: "As for the matching trade: dollars for limit_buy (contracts in futures), units or contracts otherwise" },
+        price: { type: "number", description: "Limit or stop price in dollars per unit" },
+        timeInForce: { type: ["string", "null"], enum: ["gtc", "day", null] },
+      }),
+    },
+    cancel: { type: "array", items: text, description: "Numbers of open orders to cancel, or \"all\"; empty for none" },
+  }),
+};
+
+export function responseSchemaFor(kind: ResponseKind): ResponseSchema {
+  return { name: kind, schema: JSON_SCHEMAS[kind] };
+}
+
+export type ComplianceIssue =
+  /** A structured reply that did not match the schema (the text was parsed instead). */
+  | "schema_invalid"
+  /** No recognisable answer for a field; a default was played. */
+  | "unparsed"
+  /** An answer outside the limits, moved inside them. */
+  | "clamped"
+  /** An action or side bet the prompt did not offer. */
+  | "not_offered"
+  /** The provider timed out or failed (ai/resilience.ts); the default was played. */
+  | "no_reply";
+
+export type ComplianceEvent = { field: string; issue: ComplianceIssue; detail?: string };
+
+/** Instruction-following for one hand or trading step: an ask is compliant when its answer raised no event. */
+export type Compliance = { asks: number; compliant: number; events: ComplianceEvent[] };
+
+export function newCompliance(): Compliance {
+  return { asks: 0, compliant: 0, events: [] };
+}
+
+/** Count one ask and the events its answer raised. */
+export function recordAsk(log: Compliance | undefined, events: ComplianceEvent[]): void {
+  if (!log) return;
+  log.asks++;
+  if (events.length === 0) log.compliant++;
+  log.events.push(...events);
+}
+
+/** Full text of a reply for the regex parsers. */
+export function textOf(res: AIResponse): string {
+  return res.raw ?? [res.decision, res.reasoning].filter(Boolean).join(" ");
+}
+
+export type AskResult<K extends ResponseKind> = {
+  response: AIResponse;
+  text: string;
+  /** The validated structured reply; null for text providers or when validation failed. */
+  reply: StructuredReply<K> | null;
+  events: ComplianceEvent[];
+};
+
+/** The one event for a call that produced no reply; callers play their default without adding parse events. */
+export function noReplyEvents(response: AIResponse): ComplianceEvent[] {
+  return response.failure ? [{ field: "response", issue: "no_reply", detail: `${response.failure.reason}: ${response.failure.detail}` }] : [];
+}
+
+/**
+ * Ask for one domain answer: structured when the provider supports it, otherwise plain text.
+ * A structured reply that fails validation is recorded and left for the caller's text parser.
+ * Replies always carry usage; latency is measured here when the provider reports none.
+ */
+export async function askFor<K extends ResponseKind>(provider: AIProvider, kind: K, prompt: string, context?: AIAskContext): Promise<AskResult<K>> {
+  const started = Date.now();
+  if (!provider.askStructured) {
+    const response = await provider.ask(prompt, context);
+    response.usage ??= usageFor(null, 0, 0, Date.now() - started);
+    return { response, text: textOf(response), reply: null, events: noReplyEvents(response) };
+  }
+  const response = await provider.askStructured(prompt, responseSchemaFor(kind), context);
+  response.usage ??= usageFor(null, 0, 0, Date.now() - started);
+  if (response.failure) return { response, text: "", reply: null, events: noReplyEvents(response) };
+  const parsed = (RESPONSES[kind] as z.ZodType<StructuredReply<K>>).safeParse(response.structured);
+  if (parsed.success) return { response, text: textOf(response), reply: parsed.data, events: [] };
+  const first = parsed.error.issues[0];
+  const detail = first ? `${first.path.join(".") || kind}: ${first.message}` : kind;
+  return { response, text: textOf(response), reply: null, events: [{ field: "response", issue: "schema_invalid", detail }] };
+}
+
+export type ComplianceStats = {
+  modelId: string;
+  asks: number;
+  compliant: number;
+  /** compliant / asks: the instruction-following rate; null before the first ask. */
+  rate: number | null;
+  /** Event counts by issue (records restored from HCS carry counts only). */
+  issues: Record<ComplianceIssue, number>;
+};
+
+/** Instruction-following rate over a model's recorded hands or steps. */
+export function summarizeCompliance(modelId: string, logs: { asks: number; compliant: number; events?: ComplianceEvent[] }[]): ComplianceStats {
+  const asks = logs.reduce((s, c) => s + c.asks, 0);
+  const compliant = logs.reduce((s, c) => s + c.compliant, 0);
+  const issues: Record<ComplianceIssue, number> = { schema_invalid: 0, unparsed: 0, clamped: 0, not_offered: 0, no_reply: 0 };
+  for (const e of logs.flatMap((c) => c.events ?? [])) issues[e.issue]++;
+  return { modelId, asks, compliant, rate: asks > 0 ? compliant / asks : null, issues };
+}
@@ -5,26 +5,61 @@
 
 export type AIModelId = string;
 
+/** Inference accounting for one call. */
+export type AIUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  /** Wall-clock time from request to the last token. */
+  latencyMs: number;
+  /** From the model's price table (ai/pricing.ts); 0 for unpriced and self-hosted models. */
+  costUsd: number;
+};
+
+/** Why a call produced no reply (ai/resilience.ts); the caller plays its default. */
+export type AIFailure = { reason: "timeout" | "error" | "circuit_open"; detail: string };
+
 export interface AIResponse {
   decision: string;
   reasoning?: string;
   /** Raw message content when parsing needs full text (e.g. BET: N). */
   raw?: string;
+  usage?: AIUsage;
+  /** Set when the provider failed and this is a stand-in with no answer. */
+  failure?: AIFailure;
 }
 
-/** Optional context for HCS/knowledge providers (multi-message blackjack hands). */
+/** Game state behind a prompt, for providers that want it structured (knowledge agent, webhook agents). */
 export type AIAskContext = {
   handId?: string;
   step?: number;
   playerCards?: string[];
   dealerUpcard?: string;
   betCents?: number;
+  /** Crop trading step: the date and price quoted and the position the prompt describes. */
+  date?: string;
+  pricePerBushel?: number;
+  cashCents?: number;
+  bushels?: number;
+  /** Every traded commodity's price ($/unit) and units held, by commodity id (pricePerBushel and bushels are the first one's). */
+  prices?: Record<string, number>;
+  positions?: Record<string, number>;
+  /** Crop account mode: "cash", or "margin" / "futures" where positions may be short (negative) and short and cover are offered. */
+  tradingMode?: string;
 };
 
+/** JSON schema a structured reply must match (see ai/structured.ts). */
+export type ResponseSchema = { name: string; schema: Record<string, unknown> };
+
 export interface AIProvider {
   id: AIModelId;
   name: string;
+  /** Prompt variant a contestant is asked with (ai/prompt-variants.ts); unset for the provider's default. */
+  promptVariant?: string;
+  /** Member provider ids when this is an ensemble (ai/ensemble.ts). */
+  members?: string[];
   ask(prompt: string, context?: AIAskContext): Promise<AIResponse>;
   /** Stream content chunks (e.g. reasoning) as they arrive. Caller parses final DECISION when done. */
   askStream?(prompt: string, context?: AIAskContext): AsyncGenerator<string, AIResponse>;
+  /** Structured output: reply as a JSON object for the schema. structured is the parsed object (null if not JSON); the caller validates it. */
+  askStructured?(prompt: string, schema: ResponseSchema, context?: AIAskContext): Promise<AIResponse & { structured: unknown }>;
 }
@@ -0,0 +1,41 @@
+/**
+ * Inference totals for a hand or trading step: calls, tokens, wall-clock latency and cost,
+ * summed from each reply's usage (ai/types.ts AIUsage).
+ */
+
+import type { AIUsage } from "./types.js";
+
+export type UsageTotals = AIUsage & { calls: number };
+
+export function newUsage(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0, costUsd: 0 };
+}
+
+/** Add one call; replies without usage (e.g. test providers) count as a free, instant call. */
+export function addUsage(totals: UsageTotals | undefined, usage: AIUsage | undefined): void {
+  if (!totals) return;
+  totals.calls++;
+  totals.promptTokens += usage?.promptTokens ?? 0;
+  totals.completionTokens += usage?.completionTokens ?? 0;
+  totals.latencyMs += usage?.latencyMs ?? 0;
+  totals.costUsd += usage?.costUsd ?? 0;
+}
+
+/** Sum stored totals (hand history or snapshots). */
+export function sumUsage(list: (UsageTotals | undefined)[]): UsageTotals {
+  const total = newUsage();
+  for (const u of list) {
+    if (!u) continue;
+    total.calls += u.calls;
+    total.promptTokens += u.promptTokens;
+    total.completionTokens += u.completionTokens;
+    total.latencyMs += u.latencyMs;
+    total.costUsd += u.costUsd;
+  }
+  return total;
+}
+
+/** P&L earned per dollar spent on inference; null when nothing was spent. */
+export function pnlPerInferenceDollar(pnlCents: number, costUsd: number): number | null {
+  return costUsd > 0 ? pnlCents / 100 / costUsd : null;
+}
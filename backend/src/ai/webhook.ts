@@ -0,0 +1,245 @@
+/**
+ * Bring-your-own-agent webhooks: an external team registers a URL and plays the benchmarks without an
+ * LLM on our key or HCS. Each ask is POSTed to the URL as JSON with the prompt, the structured game state
+ * (AIAskContext) and the JSON schema of the reply; the agent answers with a JSON object for that schema
+ * within its deadline. Replies are validated like any structured model's, so a wrong shape is recorded
+ * as schema_invalid and the default is played.
+ *
+ * Every request in either direction is signed with the agent's shared secret (issued at registration):
+ * X-Agent-Timestamp is the Unix time in ms and X-Agent-Signature is "sha256=" + hex HMAC-SHA256 of
+ * "<timestamp>.<raw body>". Agents verify our calls with it; we verify their updates and deletes.
+ *
+ * Registrations live for the server session; an agent re-registers after a restart. Agent URLs must not
+ * point at loopback, private or link-local addresses (checked at registration and before every call, so a
+ * name cannot be re-pointed at one later) unless AGENT_ALLOW_PRIVATE_URLS is set for local development.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { z } from "zod";
+import { config } from "../config.js";
+import type { AIAskContext, AIProvider, AIResponse, ResponseSchema } from "./types.js";
+import type { ModelDomain } from "./registry.js";
+import { usageFor } from "./pricing.js";
+import { promptKind } from "./baselines.js";
+import { responseSchemaFor, type ResponseKind } from "./structured.js";
+
+export const SIGNATURE_HEADER = "x-agent-signature";
+export const TIMESTAMP_HEADER = "x-agent-timestamp";
+/** Signed requests older or newer than this are rejected, so a captured request cannot be replayed later. */
+const MAX_CLOCK_SKEW_MS = 5 * 60_000;
+
+export const webhookAgentSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1)
+    .max(64)
+    .regex(/^[a-z0-9][a-z0-9._-]*$/i, "use letters, digits, '.', '_' and '-'"),
+  name: z.string().trim().min(1).max(100),
+  url: z
+    .string()
+    .trim()
+    .url()
+    .refine((u) => /^https?:\/\//i.test(u), "must be an http(s) URL"),
+  domains: z.array(z.enum(["blackjack", "crop"])).nonempty().default(["blackjack", "crop"]),
+  /** Off by default: auto-play calls its models around the clock. */
+  autoPlay: z.boolean().default(false),
+  /** Deadline for each reply. */
+  timeoutMs: z.number().int().min(100).max(120_000).optional(),
+});
+
+/** Loopback, private, shared (CGNAT), link-local (cloud metadata), multicast and reserved ranges. */
+const INTERNAL = new BlockList();
+for (const [net, prefix] of [["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3]] as const) {
+  INTERNAL.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) INTERNAL.addSubnet(net, prefix, "ipv6");
+
+function isInternalAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isInternalAddress(mapped[1]);
+  const family = isIP(address);
+  return family !== 0 && INTERNAL.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** Why an agent URL is refused (its host is, or resolves to, an internal address), or null when it may be called. */
+export async function agentUrlProblem(url: string): Promise<string | null> {
+  if (config.agentAllowPrivateUrls) return null;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || isInternalAddress(host)) return `${host} is an internal address`;
+  if (isIP(host)) return null;
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    return `${host} does not resolve`;
+  }
+  const internal = addresses.find((a) => isInternalAddress(a.address));
+  return internal ? `${host} resolves to an internal address (${internal.address})` : null;
+}
+
+/** What the API shows of an agent (never the secret). */
+export type WebhookAgentInfo = z.infer<typeof webhookAgentSchema> & { timeoutMs: number; registeredAt: string };
+
+type WebhookAgent = WebhookAgentInfo & { secret: string };
+
+/** id (lowercase) -> agent (server session) */
+const agents = new Map<string, WebhookAgent>();
+
+function info({ secret: _s, ...agent }: WebhookAgent): WebhookAgentInfo {
+  return agent;
+}
+
+function newSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** Check a signed request against the agent's secret; false when unsigned, stale or forged. */
+export function verifyAgentSignature(id: string, timestamp: string | undefined, signature: string | undefined, body: string): boolean {
+  const agent = agents.get(id.toLowerCase());
+  if (!agent || !timestamp || !signature) return false;
+  if (!(Math.abs(Date.now() - Number(timestamp)) <= MAX_CLOCK_SKEW_MS)) return false;
+  const expected = Buffer.from(signPayload(agent.secret, timestamp, body));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/** Register an agent; the caller has checked the id is free. Returns the secret, shown only here. */
+export function registerWebhookAgent(input: z.infer<typeof webhookAgentSchema>): { agent: WebhookAgentInfo; secret: string } {
+  const agent: WebhookAgent = {
+    ...input,
+    timeoutMs: input.timeoutMs ?? config.agentTimeoutMs,
+    registeredAt: new Date().toISOString(),
+    secret: newSecret(),
+  };
+  agents.set(agent.id.toLowerCase(), agent);
+  return { agent: info(agent), secret: agent.secret };
+}
+
+/** Change an agent's URL, name, domains, auto-play or deadline (not its id). */
+export function updateWebhookAgent(id: string, changes: Partial<Omit<z.infer<typeof webhookAgentSchema>, "id">>): WebhookAgentInfo | null {
+  const agent = agents.get(id.toLowerCase());
+  if (!agent) return null;
+  Object.assign(agent, Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)));
+  return info(agent);
+}
+
+export function rotateWebhookSecret(id: string): string | null {
+  const agent = agents.get(id.toLowerCase());
+  if (!agent) return null;
+  agent.secret = newSecret();
+  return agent.secret;
+}
+
+export function removeWebhookAgent(id: string): boolean {
+  return agents.delete(id.toLowerCase());
+}
+
+export function findWebhookAgent(id: string): WebhookAgentInfo | undefined {
+  const agent = agents.get((id ?? "").trim().toLowerCase());
+  return agent && info(agent);
+}
+
+/** Registered agents, oldest first. */
+export function getWebhookAgents(domain?: ModelDomain): WebhookAgentInfo[] {
+  return [...agents.values()].filter((a) => !domain || a.domains.includes(domain)).map(info);
+}
+
+const KIND_OF_PROMPT = { decision: "blackjack_decision", bet: "blackjack_bet", insurance: "blackjack_insurance", crop: "crop_trade" } as const;
+
+/** A JSON reply in the text format, for plain ask callers (e.g. ensembles) that parse lines. */
+function replyText(kind: ResponseKind, o: Record<string, unknown>): string {
+  const reasoning = typeof o.reasoning === "string" && o.reasoning ? `\nREASONING: ${o.reasoning}` : "";
+  switch (kind) {
+    case "blackjack_decision":
+      return `DECISION: ${o.decision ?? ""}${reasoning}`;
+    case "blackjack_bet": {
+      const sideBets = Array.isArray(o.sideBets) ? o.sideBets.map((b: { kind?: string; amount?: number }) => `${b.kind} ${b.amount}`) : [];
+      return `BET: ${o.bet ?? ""}\nSIDE_BET: ${sideBets.join(", ") || "none"}${reasoning}`;
+    }
+    case "blackjack_insurance":
+      return `INSURANCE: ${o.insurance === true ? "yes" : o.insurance === false ? "no" : ""}${reasoning}`;
+    case "crop_trade":
+      return [
+        `TRADE: ${o.trade ?? ""}`,
+        ...(typeof o.commodity === "string" && o.commodity ? [`COMMODITY: ${o.commodity}`] : []),
+        `SIZE: ${o.size ?? ""}${reasoning}`,
+        `BUSHELS_PER_ACRE: ${o.bushelsPerAcre ?? ""}`,
+        `REASON_LONGTERM: ${o.reasonLongTerm ?? ""}`,
+      ].join("\n");
+  }
+}
+
+/**
+ * A provider that asks the agent's URL. It looks the agent up on every call, so a new URL or secret applies
+ * at once; a non-2xx status or a network error throws (ai/resilience.ts turns it into the default).
+ */
+export function createWebhookProvider(id: string): AIProvider | null {
+  const registered = agents.get(id.toLowerCase());
+  if (!registered) return null;
+
+  const post = async (kind: string, prompt: string, schema: ResponseSchema, context?: AIAskContext) => {
+    const agent = agents.get(registered.id.toLowerCase());
+    if (!agent) throw new Error(`webhook agent ${registered.id} was removed`);
+    const refused = await agentUrlProblem(agent.url);
+    if (refused) throw new Error(`agent URL refused: ${refused}`);
+    const started = Date.now();
+    const body = JSON.stringify({
+      agentId: agent.id,
+      kind,
+      prompt,
+      state: context ?? {},
+      schema: schema.schema,
+      deadline: new Date(started + agent.timeoutMs).toISOString(),
+    });
+    const timestamp = String(started);
+    const res = await fetch(agent.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-agent-id": agent.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signPayload(agent.secret, timestamp, body),
+      },
+      body,
+      // The deadline is enforced by ai/resilience.ts (reported as a timeout); this only frees the socket after it
+      signal: AbortSignal.timeout(agent.timeoutMs + 1000),
+    });
+    const raw = (await res.text()).trim();
+    if (!res.ok) throw new Error(`HTTP ${res.status}${raw ? `: ${raw.slice(0, 200)}` : ""}`);
+    let structured: unknown = null;
+    try {
+      structured = JSON.parse(raw);
+    } catch {
+      /* not JSON: left null and recorded by the caller as schema_invalid */
+    }
+    return { raw, structured, usage: usageFor(null, 0, 0, Date.now() - started) };
+  };
+
+  const askStructured = async (prompt: string, schema: ResponseSchema, context?: AIAskContext): Promise<AIResponse & { structured: unknown }> => {
+    const { raw, structured, usage } = await post(schema.name, prompt, schema, context);
+    const o = (structured ?? {}) as Record<string, unknown>;
+    const decision = String(o.decision ?? o.trade ?? "");
+    return { decision, reasoning: typeof o.reasoning === "string" ? o.reasoning : undefined, raw, structured, usage };
+  };
+
+  return {
+    id: registered.id,
+    name: registered.name,
+    async ask(prompt: string, context?: AIAskContext): Promise<AIResponse> {
+      const kind = KIND_OF_PROMPT[promptKind(prompt)];
+      const { structured, usage, raw } = await post(kind, prompt, responseSchemaFor(kind), context);
+      if (!structured || typeof structured !== "object") return { decision: "", raw, usage };
+      const o = structured as Record<string, unknown>;
+      const decision = String(o.decision ?? o.trade ?? (typeof o.insurance === "boolean" ? (o.insurance ? "yes" : "no") : "bet"));
+      return { decision, reasoning: typeof o.reasoning === "string" ? o.reasoning : undefined, raw: replyText(kind, o), usage };
+    },
+    askStructured,
+  };
+}
@@ -0,0 +1,101 @@
+import { Router, type Request } from "express";
+import { config } from "../config.js";
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  agentUrlProblem,
+  findWebhookAgent,
+  getWebhookAgents,
+  isModelIdTaken,
+  registerWebhookAgent,
+  removeWebhookAgent,
+  rotateWebhookSecret,
+  updateWebhookAgent,
+  verifyAgentSignature,
+  webhookAgentSchema,
+} from "../ai/index.js";
+
+export const agentsRouter = Router();
+
+/** Request body as received (kept by the JSON parser in index.ts), for signature checks. */
+function rawBodyOf(req: Request): string {
+  return (req as Request & { rawBody?: string }).rawBody ?? "";
+}
+
+/** A request signed with the agent's secret, as the agent's own calls are (see ai/webhook.ts). */
+function signedByAgent(req: Request, id: string): boolean {
+  return verifyAgentSignature(id, req.get(TIMESTAMP_HEADER), req.get(SIGNATURE_HEADER), rawBodyOf(req));
+}
+
+function firstIssue(error: { issues: { path: (string | number)[]; message: string }[] }): string {
+  const issue = error.issues[0];
+  return issue ? `${issue.path.join(".") || "body"}: ${issue.message}` : "Invalid body";
+}
+
+/**
+ * POST /api/agents — register a webhook agent. Body: { id, name, url, domains?, autoPlay?, timeoutMs? }.
+ * Returns the agent and its shared secret (shown once). Needs "Authorization: Bearer <AGENT_REGISTRATION_TOKEN>" when that is set.
+ * The url may not point at a loopback, private or link-local address.
+ */
+agentsRouter.post("/", async (req, res) => {
+  try {
+    if (config.agentRegistrationToken && req.get("authorization") !== `Bearer ${config.agentRegistrationToken}`) {
+      return res.status(401).json({ error: "Registration token required" });
+    }
+    const parsed = webhookAgentSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: firstIssue(parsed.error) });
+    if (isModelIdTaken(parsed.data.id)) return res.status(409).json({ error: `Model id already in use: ${parsed.data.id}` });
+    const refused = await agentUrlProblem(parsed.data.url);
+    if (refused) return res.status(400).json({ error: `url: ${refused}` });
+    const { agent, secret } = registerWebhookAgent(parsed.data);
+    res.status(201).json({ agent, secret, signature: { timestampHeader: TIMESTAMP_HEADER, signatureHeader: SIGNATURE_HEADER, scheme: "sha256=hex(HMAC-SHA256(secret, `${timestamp}.${body}`))" } });
+  } catch (e) {
+    console.error("POST /agents error:", e);
+    res.status(500).json({ error: e instanceof Error ? e.message : "Failed" });
+  }
+});
+
+/** GET /api/agents — registered webhook agents (no secrets). */
+agentsRouter.get("/", (_req, res) => {
+  res.json({ agents: getWebhookAgents() });
+});
+
+agentsRouter.get("/:id", (req, res) => {
+  const agent = findWebhookAgent(req.params.id);
+  if (!agent) return res.status(404).json({ error: `Unknown agent: ${req.params.id}` });
+  res.json(agent);
+});
+
+/** PATCH /api/agents/:id — signed. Body: any of { name, url, domains, autoPlay, timeoutMs }. */
+agentsRouter.patch("/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!findWebhookAgent(id)) return res.status(404).json({ error: `Unknown agent: ${id}` });
+    if (!signedByAgent(req, id)) return res.status(401).json({ error: "Invalid or missing signature" });
+    const parsed = webhookAgentSchema.omit({ id: true }).partial().strict().safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: firstIssue(parsed.error) });
+    const refused = parsed.data.url ? await agentUrlProblem(parsed.data.url) : null;
+    if (refused) return res.status(400).json({ error: `url: ${refused}` });
+    res.json(updateWebhookAgent(id, parsed.data));
+  } catch (e) {
+    console.error("PATCH /agents/:id error:", e);
+    res.status(500).json({ error: e instanceof Error ? e.message : "Failed" });
+  }
+});
+
+/** POST /api/agents/:id/rotate-secret — signed with the current secret; returns the new one. */
+agentsRouter.post("/:id/rotate-secret", (req, res) => {
+  const { id } = req.params;
+  if (!findWebhookAgent(id)) return res.status(404).json({ error: `Unknown agent: ${id}` });
+  if (!signedByAgent(req, id)) return res.status(401).json({ error: "Invalid or missing signature" });
+  res.json({ secret: rotateWebhookSecret(id) });
+});
+
+/** DELETE /api/agents/:id — signed. Its hands, bankroll and leaderboard history stay. */
+agentsRouter.delete("/:id", (req, res) => {
+  const { id } = req.params;
+  if (!findWebhookAgent(id)) return res.status(404).json({ error: `Unknown agent: ${id}` });
+  if (!signedByAgent(req, id)) return res.status(401).json({ error: "Invalid or missing signature" });
+  removeWebhookAgent(id);
+  res.status(204).end();
+});
@@ -1,7 +1,16 @@
 import { Router } from "express";
 import { config } from "../config.js";
-import { playHand, getBlackjackDailyState, playHandsStream, playHandsStreamVs, getAIBetCents, type StreamEvent, type StreamEventVs } from "../domains/blackjack/service.js";
-import { getAIProviders } from "../ai/index.js";
+import { playHand, getBlackjackDailyState, playHandsStream, playHandsStreamVs, playTableStream, getAIBetCents, getComplianceStats, getStrategyStats, MAX_SEATS, type StreamEvent, type StreamEventVs, type StreamEventTable } from "../domains/blackjack/service.js";
+import type { ShoeOptions } from "../domains/blackjack/shoe.js";
+import { parseRulesCode, type TableRules } from "../domains/blackjack/rules.js";
+import { getRevealedSeed, verifyDeal } from "../domains/blackjack/fairness.js";
+import { getCountingStats } from "../domains/blackjack/counting.js";
+import { getSideBetStats } from "../domains/blackjack/sidebets.js";
+import { getDuplicateReport, listDuplicateSessions, playDuplicateStream, type DuplicateEvent } from "../domains/blackjack/duplicate.js";
+import { createTournament, getTournament, listTournaments, subscribeTournament, type TournamentEvent } from "../domains/blackjack/tournament.js";
+import { getAIProviders, getModelOptions } from "../ai/index.js";
+import { newCompliance } from "../ai/structured.js";
+import { newUsage } from "../ai/usage.js";
 import { getAutoPlayStatus, claimPendingHand, setAutoPlayLastHandAt } from "../jobs/autoPlayBlackjack.js";
 import { fetchBlackjackHandHistory } from "../hedera/hand-history.js";
 import { getBlackjackHands } from "../hedera/blackjack-hand-store.js";
@@ -38,15 +47,9 @@ blackjackRouter.post("/send-to-knowledge", async (req, res) => {
   }
 });
 
-/** Always return both models for the dropdown; actual lookup uses getAIProvider(id) when playing */
-const MODEL_OPTIONS = [
-  { id: "openai-gpt-4o-mini", name: "GPT-4o Mini" },
-  { id: "openai-gpt-4o", name: "GPT-4o" },
-  { id: "hedera-knowledge", name: "Hedera Knowledge" },
-];
-
+/** Every registered model for the dropdown (from the provider registry); actual lookup uses getAIProvider(id) when playing */
 blackjackRouter.get("/models", (_req, res) => {
-  res.json({ models: MODEL_OPTIONS });
+  res.json({ models: getModelOptions("blackjack") });
 });
 
 blackjackRouter.get("/auto-play-status", (_req, res) => {
@@ -79,6 +82,67 @@ blackjackRouter.get("/hand-history", async (req, res) => {
   }
 });
 
+/** GET /api/blackjack/seeds/:seedHash — a retired shoe's revealed seed (404 while the shoe is still in play). */
+blackjackRouter.get("/seeds/:seedHash", (req, res) => {
+  const revealed = getRevealedSeed(req.params.seedHash.toLowerCase());
+  if (!revealed) return res.status(404).json({ error: "Seed not revealed (shoe still in play or unknown hash)" });
+  res.json(revealed);
+});
+
+/**
+ * POST /api/blackjack/verify — recompute a hand's cards from its shoe seed.
+ * Body: { seedHash, from, to, cards? } (seed looked up once revealed) or { seed, nonce, decks, from, to, seedHash?, cards? }.
+ */
+blackjackRouter.post("/verify", (req, res) => {
+  const body = req.body ?? {};
+  const seedHash = typeof body.seedHash === "string" ? body.seedHash.toLowerCase() : undefined;
+  const revealed = seedHash ? getRevealedSeed(seedHash) : undefined;
+  const seed = typeof body.seed === "string" && body.seed ? body.seed : revealed?.seed;
+  if (!seed) return res.status(400).json({ error: "seed required (or seedHash of a revealed shoe)" });
+  const nonce = Math.round(Number(body.nonce ?? revealed?.nonce ?? NaN));
+  const asked = Math.round(Number(body.decks ?? revealed?.decks ?? NaN));
+  if (!Number.isFinite(nonce) || !Number.isFinite(asked) || asked < 1) {
+    return res.status(400).json({ error: "nonce and decks required" });
+  }
+  // Same bounds as a dealt shoe (shoe.ts), so a request cannot ask for a shoe of any size
+  const decks = Math.min(8, asked);
+  const from = Math.max(0, Math.round(Number(body.from ?? 0)));
+  const to = Math.min(decks * 52, Math.round(Number(body.to ?? from)));
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from > to) {
+    return res.status(400).json({ error: `from and to must satisfy 0 <= from <= to <= ${decks * 52}` });
+  }
+  const cards = Array.isArray(body.cards) ? body.cards.slice(0, decks * 52).map(String) : undefined;
+  res.json(verifyDeal({ seed, nonce, decks, from, to, seedHash, cards }));
+});
+
+/** GET /api/blackjack/strategy-stats — basic-strategy accuracy and EV lost per hand by model. Query: date (YYYY-MM-DD, or "all" / omit). */
+blackjackRouter.get("/strategy-stats", (req, res) => {
+  const dateParam = String(req.query.date ?? "").trim().toLowerCase();
+  const dateFilter = dateParam === "all" || dateParam === "" ? null : dateParam.slice(0, 10);
+  res.json({ date: dateFilter ?? "all", models: getStrategyStats(dateFilter) });
+});
+
+/** GET /api/blackjack/compliance-stats — instruction-following rate by model: share of asks answered without a fallback (unparseable reply) or clamp (out-of-range answer), with counts by issue. Query: date (YYYY-MM-DD, or "all" / omit). */
+blackjackRouter.get("/compliance-stats", (req, res) => {
+  const dateParam = String(req.query.date ?? "").trim().toLowerCase();
+  const dateFilter = dateParam === "all" || dateParam === "" ? null : dateParam.slice(0, 10);
+  res.json({ date: dateFilter ?? "all", models: getComplianceStats(dateFilter) });
+});
+
+/** GET /api/blackjack/counting-stats — counting-mode hands: correlation of opening bet with true count by model, plus average bet by true count for charts. Query: date (YYYY-MM-DD, or "all" / omit). */
+blackjackRouter.get("/counting-stats", (req, res) => {
+  const dateParam = String(req.query.date ?? "").trim().toLowerCase();
+  const dateFilter = dateParam === "all" || dateParam === "" ? null : dateParam.slice(0, 10);
+  res.json({ date: dateFilter ?? "all", ...getCountingStats(dateFilter) });
+});
+
+/** GET /api/blackjack/side-bet-stats — side-bet discipline by model at tables that offered them: take rate, staked and P&L. Query: date (YYYY-MM-DD, or "all" / omit). */
+blackjackRouter.get("/side-bet-stats", (req, res) => {
+  const dateParam = String(req.query.date ?? "").trim().toLowerCase();
+  const dateFilter = dateParam === "all" || dateParam === "" ? null : dateParam.slice(0, 10);
+  res.json({ date: dateFilter ?? "all", models: getSideBetStats(dateFilter) });
+});
+
 blackjackRouter.get("/daily/:modelId", async (req, res) => {
   try {
     const modelId = req.params.modelId;
@@ -98,10 +162,12 @@ blackjackRouter.post("/play", async (req, res) => {
       return res.status(400).json({ error: "modelId required" });
     }
     let betCents = Math.round(Number(req.body?.betCents ?? 0));
+    const compliance = newCompliance();
+    const usage = newUsage();
     if (betCents <= 0) {
-      betCents = await getAIBetCents(modelId);
+      betCents = await getAIBetCents(modelId, compliance, usage);
     }
-    const result = await playHand(modelId, betCents);
+    const result = await playHand(modelId, betCents, undefined, compliance, usage);
     console.log("Play result:", { decision: result.decision, outcome: result.outcome, pnlCents: result.pnlCents, balanceCentsAfter: result.balanceCentsAfter });
     res.json(result);
   } catch (e: unknown) {
@@ -112,18 +178,74 @@ blackjackRouter.post("/play", async (req, res) => {
   }
 });
 
-/** SSE: single AI — body { modelId, hands }. VS — header X-Blackjack-Mode: vs and body { modelIdA, modelIdB, hands }. Same URL so no 404. */
+/** Optional shoe size from the request: decks (1–8) and penetration (fraction before the cut card). */
+function shoeOptionsFrom(src: Record<string, unknown>): Partial<ShoeOptions> {
+  const shoe: Partial<ShoeOptions> = {};
+  const decks = Number(src.decks);
+  const penetration = Number(src.penetration);
+  if (Number.isFinite(decks) && decks > 0) shoe.decks = decks;
+  if (Number.isFinite(penetration) && penetration > 0) shoe.penetration = penetration;
+  return shoe;
+}
+
+/** Optional table rules from the request: a rule code string ("H17,6:5,NDAS") or a partial TableRules object. */
+function tableRulesFrom(raw: unknown): Partial<TableRules> | undefined {
+  if (typeof raw === "string" && raw.trim()) return parseRulesCode(raw);
+  if (raw && typeof raw === "object") return raw as Partial<TableRules>;
+  return undefined;
+}
+
+/**
+ * SSE: single AI — body { modelId, hands, decks?, penetration?, rules?, counting? }. VS — header X-Blackjack-Mode: vs and body { modelIdA, modelIdB, hands, decks?, penetration?, rules? }.
+ * Table — header X-Blackjack-Mode: table and body { modelIds?, hands, maxBetCents?, decks?, penetration?, rules? } (1–7 seats in order; omit modelIds to seat every registered model).
+ * counting: true (any mode) lists the cards seen since the last shuffle in the bet prompt and records the true count. Same URL so no 404.
+ */
 const PLAY_STREAM_TIMEOUT_MS = 5 * 60 * 1000; // 5 min so long AI runs don't get cut by server timeout
 
 blackjackRouter.post("/play-stream", async (req, res) => {
   const body = req.body ?? {};
   const q = req.query as Record<string, string | undefined>;
-  const isVs = (req.get("X-Blackjack-Mode") ?? "").toLowerCase() === "vs";
+  const mode = (req.get("X-Blackjack-Mode") ?? "").toLowerCase();
+  const isVs = mode === "vs";
+
+  if (mode === "table") {
+    const modelIds = Array.isArray(body.modelIds)
+      ? (body.modelIds as unknown[]).map((id) => String(id).trim()).filter(Boolean)
+      : getAIProviders("blackjack").slice(0, MAX_SEATS).map((p) => p.id);
+    const hands = Math.min(100, Math.max(1, Math.round(Number(body.hands ?? 1))));
+    const maxBetCents = Math.round(Number(body.maxBetCents ?? 0));
+    const shoe = shoeOptionsFrom(body);
+    const rules = tableRulesFrom(body.rules);
+    if (modelIds.length < 1 || modelIds.length > MAX_SEATS) {
+      return res.status(400).json({ error: `modelIds must list 1 to ${MAX_SEATS} models` });
+    }
+    if (new Set(modelIds).size !== modelIds.length) {
+      return res.status(400).json({ error: "Each model can take only one seat" });
+    }
+    req.socket?.setTimeout(PLAY_STREAM_TIMEOUT_MS);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders?.();
+    const sendTable = (ev: StreamEventTable) => {
+      res.write(`data: ${JSON.stringify(ev)}\n\n`);
+    };
+    try {
+      await playTableStream(modelIds, maxBetCents > 0 ? maxBetCents : config.blackjackMaxBetCents, hands, sendTable, { shoe, rules, counting: body.counting === true });
+    } catch (e) {
+      sendTable({ type: "error", message: e instanceof Error ? e.message : String(e) });
+    } finally {
+      res.end();
+    }
+    return;
+  }
 
   if (isVs) {
     const modelIdA = String(body.modelIdA ?? q.modelIdA ?? "").trim();
     const modelIdB = String(body.modelIdB ?? q.modelIdB ?? "").trim();
     const hands = Math.min(100, Math.max(1, Math.round(Number(body.hands ?? q.hands ?? 1))));
+    const shoe = shoeOptionsFrom({ ...q, ...body });
+    const rules = tableRulesFrom(body.rules ?? q.rules);
     if (!modelIdA || !modelIdB) {
       return res.status(400).json({ error: "modelIdA and modelIdB required" });
     }
@@ -154,7 +276,7 @@ blackjackRouter.post("/play-stream", async (req, res) => {
     };
     const claimed = claimPendingHand(modelIdA, modelIdB);
     try {
-      await playHandsStreamVs(modelIdA, modelIdB, effectiveMaxBet, hands, sendVs);
+      await playHandsStreamVs(modelIdA, modelIdB, effectiveMaxBet, hands, sendVs, { shoe, rules, counting: body.counting === true });
       if (claimed) setAutoPlayLastHandAt();
     } catch (e) {
       if (!streamClosed) sendVs({ type: "error", message: e instanceof Error ? e.message : String(e) });
@@ -172,6 +294,8 @@ blackjackRouter.post("/play-stream", async (req, res) => {
   const hands = Math.min(100, Math.max(1, Math.round(Number(body.hands ?? 1))));
   const maxBetCents = Math.round(Number(body.maxBetCents ?? 0));
   const forcedHand = String(body.forcedHand ?? "").trim().toLowerCase();
+  const shoe = shoeOptionsFrom(body);
+  const rules = tableRulesFrom(body.rules);
   if (!modelId) {
     return res.status(400).json({ error: "modelId required" });
   }
@@ -192,10 +316,125 @@ blackjackRouter.post("/play-stream", async (req, res) => {
     res.write(`data: ${JSON.stringify(ev)}\n\n`);
   }
   try {
-    await playHandsStream(modelId, effectiveMaxBet, hands, send, forcedDeal21 ? { forcedDeal21: true } : undefined);
+    await playHandsStream(modelId, effectiveMaxBet, hands, send, { forcedDeal21, shoe, rules, counting: body.counting === true });
+  } catch (e) {
+    send({ type: "error", message: e instanceof Error ? e.message : String(e) });
+  } finally {
+    res.end();
+  }
+});
+
+/** GET /api/blackjack/duplicate — recent duplicate sessions with standings (newest first). */
+blackjackRouter.get("/duplicate", (_req, res) => {
+  res.json({ sessions: listDuplicateSessions() });
+});
+
+/** GET /api/blackjack/duplicate/:sessionId — full comparison report (per-deal results + standings). */
+blackjackRouter.get("/duplicate/:sessionId", (req, res) => {
+  const report = getDuplicateReport(req.params.sessionId);
+  if (!report) return res.status(404).json({ error: "Unknown duplicate session" });
+  res.json(report);
+});
+
+/** SSE: duplicate blackjack — body { modelIds, deals, seed?, decks?, betCents?, rules? }. Every model plays the same deals; ends with a report event. */
+blackjackRouter.post("/duplicate-stream", async (req, res) => {
+  const body = req.body ?? {};
+  const modelIds = Array.isArray(body.modelIds) ? (body.modelIds as unknown[]).map((id) => String(id).trim()).filter(Boolean) : [];
+  const deals = Math.min(100, Math.max(1, Math.round(Number(body.deals ?? 1))));
+  const seed = typeof body.seed === "string" && body.seed.trim() ? body.seed.trim() : undefined;
+  const decks = Number(body.decks);
+  const betCents = Number(body.betCents);
+  if (new Set(modelIds).size < 2) {
+    return res.status(400).json({ error: "modelIds must list at least two different models" });
+  }
+  req.socket?.setTimeout(PLAY_STREAM_TIMEOUT_MS);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders?.();
+  function send(ev: DuplicateEvent) {
+    res.write(`data: ${JSON.stringify(ev)}\n\n`);
+  }
+  try {
+    await playDuplicateStream(
+      {
+        modelIds,
+        deals,
+        seed,
+        decks: Number.isFinite(decks) && decks > 0 ? decks : undefined,
+        betCents: Number.isFinite(betCents) && betCents > 0 ? betCents : undefined,
+        rules: tableRulesFrom(body.rules),
+      },
+      send
+    );
   } catch (e) {
     send({ type: "error", message: e instanceof Error ? e.message : String(e) });
   } finally {
     res.end();
   }
 });
+
+/**
+ * POST /api/blackjack/tournaments — body { modelIds?, name?, handsPerRound?, bankrollCents?, tableSize?, buyInCents?, payouts?, rules?, bettingWindowMs? }.
+ * Creates an elimination tournament that deals once its betting window closes; omit modelIds to enter every model that plays blackjack.
+ */
+blackjackRouter.post("/tournaments", (req, res) => {
+  const body = req.body ?? {};
+  const num = (v: unknown) => (Number.isFinite(Number(v)) && Number(v) > 0 ? Number(v) : undefined);
+  try {
+    const tournament = createTournament({
+      name: typeof body.name === "string" ? body.name : undefined,
+      modelIds: Array.isArray(body.modelIds) ? (body.modelIds as unknown[]).map((id) => String(id).trim()).filter(Boolean) : undefined,
+      handsPerRound: num(body.handsPerRound),
+      bankrollCents: num(body.bankrollCents),
+      tableSize: num(body.tableSize),
+      buyInCents: body.buyInCents != null && Number.isFinite(Number(body.buyInCents)) ? Number(body.buyInCents) : undefined,
+      payouts: Array.isArray(body.payouts) ? (body.payouts as unknown[]).map(Number) : undefined,
+      rules: tableRulesFrom(body.rules),
+      bettingWindowMs: body.bettingWindowMs != null && Number.isFinite(Number(body.bettingWindowMs)) ? Number(body.bettingWindowMs) : undefined,
+    });
+    res.status(201).json(tournament);
+  } catch (e) {
+    res.status(400).json({ error: e instanceof Error ? e.message : String(e) });
+  }
+});
+
+/** GET /api/blackjack/tournaments — recent tournaments (newest first), without brackets. */
+blackjackRouter.get("/tournaments", (_req, res) => {
+  res.json({ tournaments: listTournaments() });
+});
+
+/** GET /api/blackjack/tournaments/:id — bracket: rounds, tables, chip counts, placings and prizes. */
+blackjackRouter.get("/tournaments/:id", (req, res) => {
+  const tournament = getTournament(req.params.id);
+  if (!tournament) return res.status(404).json({ error: "Unknown tournament" });
+  res.json(tournament);
+});
+
+/** SSE: GET /api/blackjack/tournaments/:id/stream — a bracket snapshot, then the live tables (events tagged with round and table) until the tournament ends. */
+blackjackRouter.get("/tournaments/:id/stream", (req, res) => {
+  const tournament = getTournament(req.params.id);
+  if (!tournament) return res.status(404).json({ error: "Unknown tournament" });
+  // A tournament can outlast any play-stream timeout; the stream ends with the tournament or the client
+  req.socket?.setTimeout(0);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders?.();
+  function send(ev: TournamentEvent) {
+    res.write(`data: ${JSON.stringify(ev)}\n\n`);
+  }
+  send({ type: "bracket", tournament });
+  if (tournament.status === "finished" || tournament.status === "failed") {
+    send({ type: "done" });
+    return res.end();
+  }
+  const unsubscribe = subscribeTournament(tournament.id, (ev) => {
+    send(ev);
+    if (ev.type === "done") {
+      unsubscribe();
+      res.end();
+    }
+  });
+  req.on("close", unsubscribe);
+});
@@ -1,44 +1,63 @@
 import { Router } from "express";
 import { config } from "../config.js";
-import { fetchCornPrices, fetchLatestCornPrice } from "../sources/corn.js";
-import { runCropTest, runCropTestVs } from "../domains/crop/service.js";
+import { fetchCornPrices } from "../sources/corn.js";
+import { COMMODITIES, fetchCommodityPrices, fetchLatestCommodityPrices, findCommodity } from "../sources/commodities.js";
+import { BAR_INTERVALS, ingestBars, isBarInterval, listStoredSeries, parseBarsCsv, type RawBar } from "../sources/price-store.js";
+import { cropPortfolioOf, getCropCommodities, getCropComplianceStats, runCropTest, runCropTestVs, type CropPortfolioSnapshot } from "../domains/crop/service.js";
+import { cropPortfolioValueCents } from "../domains/crop/portfolio.js";
+import { addCosts, totalCostsCents, NO_COSTS, type CropCosts } from "../domains/crop/execution.js";
+import { createCropBacktest, getCropBacktest, listCropBacktests } from "../domains/crop/backtest.js";
 import { getCropAutoPlayStatus } from "../jobs/autoPlayCrop.js";
 
-type TradeRecompute = { costBasis: number; realizedPnlCents: number; buyCount: number; sellCount: number };
+/** realizedPnlCents is after execution costs; costs itemises them (add their total back for P/L at quoted prices). */
+type TradeRecompute = { costBasis: number; realizedPnlCents: number; costs: CropCosts; buyCount: number; sellCount: number };
 
-/** Recompute cost basis and realized P/L from trade history when HCS/stored value is 0. */
-function recomputeFromHistory(history: { pricePerBushel: number; trade?: string; size?: number }[]): TradeRecompute {
-  let costBasis = 0;
-  let bushels = 0;
-  let cash = config.cropBankrollCents;
+/**
+ * Recompute cost basis and realized P/L from trade history when HCS/stored value is 0: each resting order fill at
+ * its own price, then the rest of each snapshot's change in positions at its prices (longs and shorts; a forced
+ * liquidation counts with that step's trade), less the execution costs each snapshot paid. Positions are tracked
+ * per commodity; costBasis is the first traded commodity's (for its avg cost per unit).
+ */
+function recomputeFromHistory(history: CropPortfolioSnapshot[]): TradeRecompute {
+  const primary = getCropCommodities()[0].id;
+  const costBasis: Record<string, number> = {};
+  let held: Record<string, number> = {};
   let realizedPnlCents = 0;
+  let costs = NO_COSTS;
   let buyCount = 0;
   let sellCount = 0;
+  const move = (id: string, delta: number, price: number) => {
+    const before = held[id] ?? 0;
+    const basis = costBasis[id] ?? 0;
+    // Units that close part of the position (signed cost basis) before any remainder opens the other side
+    const closed = before !== 0 && Math.sign(delta) !== Math.sign(before) ? Math.min(Math.abs(delta), Math.abs(before)) : 0;
+    const costBasisOfClosed = closed > 0 ? (basis * closed) / Math.abs(before) : 0;
+    realizedPnlCents += Math.sign(before) * closed * price * 100 - costBasisOfClosed;
+    costBasis[id] = basis - costBasisOfClosed + Math.sign(delta) * (Math.abs(delta) - closed) * price * 100;
+    held = { ...held, [id]: before + delta };
+    if (delta > 0) buyCount++;
+    else sellCount++;
+  };
   for (const s of history) {
-    const priceCents = Math.round(s.pricePerBushel * 100);
-    if (s.trade === "buy" && (s.size ?? 0) > 0) {
-      const spendCents = Math.min(cash, Math.round((s.size as number) * 100));
-      const buyBushels = priceCents > 0 ? Math.floor(spendCents / priceCents) : 0;
-      if (buyBushels > 0) {
-        costBasis += buyBushels * s.pricePerBushel * 100;
-        cash -= buyBushels * priceCents;
-        bushels += buyBushels;
-        buyCount++;
-      }
-    } else if (s.trade === "sell" && (s.size ?? 0) > 0) {
-      const sellBushels = Math.min(bushels, Math.floor(s.size as number));
-      if (bushels > 0 && sellBushels > 0) {
-        const costBasisOfSold = (costBasis * sellBushels) / bushels;
-        const proceedsCents = sellBushels * s.pricePerBushel * 100;
-        realizedPnlCents += proceedsCents - costBasisOfSold;
-        costBasis = (costBasis * (bushels - sellBushels)) / bushels;
-        cash += proceedsCents;
-        bushels -= sellBushels;
-        sellCount++;
-      }
+    for (const fill of s.orderFills ?? []) if (fill.units !== 0) move(fill.commodity, fill.units, fill.price);
+    const { positions } = cropPortfolioOf(s);
+    for (const id of new Set([...Object.keys(held), ...Object.keys(positions)])) {
+      const delta = (positions[id] ?? 0) - (held[id] ?? 0);
+      if (delta !== 0) move(id, delta, s.prices?.[id] ?? (id === primary ? s.pricePerBushel : 0));
+    }
+    held = positions;
+    if (s.costs) {
+      costs = addCosts(costs, s.costs);
+      realizedPnlCents -= totalCostsCents(s.costs);
     }
   }
-  return { costBasis, realizedPnlCents, buyCount, sellCount };
+  return { costBasis: costBasis[primary] ?? 0, realizedPnlCents, costs, buyCount, sellCount };
+}
+
+/** The account at the latest prices (a position without one keeps its snapshot price; futures count the move since the snapshot's settlement). */
+function liveValueCents(s: CropPortfolioSnapshot, latest: Record<string, number>): number {
+  const primary = getCropCommodities()[0].id;
+  return cropPortfolioValueCents(cropPortfolioOf(s), { [primary]: s.pricePerBushel, ...s.prices, ...latest });
 }
 import {
   placeCropNextTestBet,
@@ -48,21 +67,17 @@ import {
   getCropNextTestOddsHistory,
   getCropLongTermOddsHistory,
 } from "../domains/crop/market.js";
-import { getAIProvider } from "../ai/index.js";
+import { getAIProvider, getModelOptions } from "../ai/index.js";
 import { deduct as deductUserBalance, credit as creditUserBalance } from "../user-balance.js";
 
 export const cropRouter = Router();
 
-const CROP_MODELS = [
-  { id: "openai-gpt-4o-mini", name: "GPT-4o Mini" },
-  { id: "openai-gpt-4o", name: "GPT-4o" },
-];
-
+/** Registered models offered for crops (provider registry entries whose domains include "crop"). */
 cropRouter.get("/models", (_req, res) => {
-  res.json({ models: CROP_MODELS });
+  res.json({ models: getModelOptions("crop") });
 });
 
-/** GET /api/crop/auto-play-status — next run time, last result, models. Includes live portfolio value at current corn price. */
+/** GET /api/crop/auto-play-status — next run time, last result, models. Includes live portfolio value at current prices. */
 cropRouter.get("/auto-play-status", async (_req, res) => {
   const status = getCropAutoPlayStatus();
   const r = status.lastResult;
@@ -70,17 +85,18 @@ cropRouter.get("/auto-play-status", async (_req, res) => {
   if (r?.historyA?.length || r?.historyB?.length) {
     const recA = recomputeFromHistory(r.historyA);
     const recB = recomputeFromHistory(r.historyB);
-    (status as Record<string, unknown>).tradeSummaryA = { buyCount: recA.buyCount, sellCount: recA.sellCount, realizedPnlCents: Math.round(recA.realizedPnlCents) };
-    (status as Record<string, unknown>).tradeSummaryB = { buyCount: recB.buyCount, sellCount: recB.sellCount, realizedPnlCents: Math.round(recB.realizedPnlCents) };
+    (status as Record<string, unknown>).tradeSummaryA = { buyCount: recA.buyCount, sellCount: recA.sellCount, realizedPnlCents: Math.round(recA.realizedPnlCents), costs: recA.costs };
+    (status as Record<string, unknown>).tradeSummaryB = { buyCount: recB.buyCount, sellCount: recB.sellCount, realizedPnlCents: Math.round(recB.realizedPnlCents), costs: recB.costs };
 
-    const price = await fetchLatestCornPrice();
+    const latest = await fetchLatestCommodityPrices(getCropCommodities());
+    const price = latest[getCropCommodities()[0].id];
     if (price != null && price > 0) {
       const lastA = r.historyA[r.historyA.length - 1];
       const lastB = r.historyB[r.historyB.length - 1];
       status.currentPricePerBushel = price;
-      const priceCentsExact = price * 100;
-      status.liveValueCentsA = lastA ? Math.round(lastA.cashCents + lastA.bushels * priceCentsExact) : r.finalValueCentsA;
-      status.liveValueCentsB = lastB ? Math.round(lastB.cashCents + lastB.bushels * priceCentsExact) : r.finalValueCentsB;
+      status.currentPrices = latest;
+      status.liveValueCentsA = lastA ? liveValueCents(lastA, latest) : r.finalValueCentsA;
+      status.liveValueCentsB = lastB ? liveValueCents(lastB, latest) : r.finalValueCentsB;
 
       // Total P/L = live value - start (always correct; includes realized + unrealized)
       status.pnlCentsA = Math.round((status.liveValueCentsA ?? r.finalValueCentsA) - startCents);
@@ -103,6 +119,11 @@ cropRouter.get("/auto-play-status", async (_req, res) => {
   res.json(status);
 });
 
+/** GET /api/crop/compliance-stats — instruction-following rate by model over its recent trading steps (server session): share of answers with no missing line or clamped size. */
+cropRouter.get("/compliance-stats", (_req, res) => {
+  res.json({ models: getCropComplianceStats() });
+});
+
 /** GET /api/crop/corn-prices — last ~30 days of US corn futures (for charts or display). */
 cropRouter.get("/corn-prices", async (_req, res) => {
   try {
@@ -114,6 +135,88 @@ cropRouter.get("/corn-prices", async (_req, res) => {
   }
 });
 
+/** GET /api/crop/commodities — the commodity registry (symbol, unit, quote convention) and which ones runs trade (CROP_COMMODITIES). */
+cropRouter.get("/commodities", (_req, res) => {
+  const traded = getCropCommodities().map((c) => c.id);
+  res.json({ commodities: COMMODITIES.map((c) => ({ ...c, traded: traded.includes(c.id) })), traded });
+});
+
+/** GET /api/crop/prices?commodity=soybeans — last ~60 days of a commodity's futures in $/unit (corn-prices is corn's, in the older shape). */
+cropRouter.get("/prices", async (req, res) => {
+  const id = String(req.query.commodity ?? "").trim();
+  const commodity = findCommodity(id);
+  if (!commodity) return res.status(400).json({ error: `Unknown commodity: ${id || "(none)"}; one of ${COMMODITIES.map((c) => c.id).join(", ")}` });
+  try {
+    const prices = await fetchCommodityPrices(commodity);
+    res.json({ commodity: commodity.id, unit: commodity.unit, prices });
+  } catch (e) {
+    console.error("GET /crop/prices:", e);
+    res.status(500).json({ error: e instanceof Error ? e.message : "Failed to fetch prices" });
+  }
+});
+
+/** GET /api/crop/price-store — stored historical series (commodity, interval, bar count, first and last date) for backtests. */
+cropRouter.get("/price-store", (_req, res) => {
+  try {
+    res.json({ series: listStoredSeries() });
+  } catch (e) {
+    console.error("GET /crop/price-store:", e);
+    res.status(500).json({ error: e instanceof Error ? e.message : "Failed" });
+  }
+});
+
+/**
+ * POST /api/crop/price-store/:commodity — body { interval: "1h"|"1d"|"1wk", bars?: [{ date, open?, high?, low?, close }], csv?, inDollars? }.
+ * Adds historical bars (JSON or CSV with a header row) to the store; prices in the exchange's quote unless inDollars.
+ */
+cropRouter.post("/price-store/:commodity", (req, res) => {
+  const commodity = findCommodity(req.params.commodity);
+  if (!commodity) return res.status(400).json({ error: `Unknown commodity: ${req.params.commodity}; one of ${COMMODITIES.map((c) => c.id).join(", ")}` });
+  const body = req.body ?? {};
+  if (!isBarInterval(body.interval)) return res.status(400).json({ error: `interval must be one of ${BAR_INTERVALS.join(", ")}` });
+  try {
+    const bars = typeof body.csv === "string" ? parseBarsCsv(body.csv) : Array.isArray(body.bars) ? (body.bars as RawBar[]) : null;
+    if (!bars || bars.length === 0) return res.status(400).json({ error: "bars (array) or csv (string) with at least one bar required" });
+    res.status(201).json(ingestBars(commodity, body.interval, bars, body.inDollars === true));
+  } catch (e) {
+    res.status(400).json({ error: e instanceof Error ? e.message : String(e) });
+  }
+});
+
+/**
+ * POST /api/crop/backtests — body { modelIds, commodity? | commodities?, from?, to?, interval? }. Walk-forward backtest on
+ * stored bars (default corn, 1d, the whole stored series); starts in the background, poll GET /backtests/:id.
+ */
+cropRouter.post("/backtests", (req, res) => {
+  const body = req.body ?? {};
+  const list = (v: unknown) => (Array.isArray(v) ? (v as unknown[]).map((x) => String(x).trim()).filter(Boolean) : undefined);
+  const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  try {
+    const backtest = createCropBacktest({
+      modelIds: list(body.modelIds) ?? [],
+      commodities: list(body.commodities) ?? (text(body.commodity) ? [text(body.commodity)!] : undefined),
+      from: text(body.from),
+      to: text(body.to),
+      interval: text(body.interval),
+    });
+    res.status(201).json(backtest);
+  } catch (e) {
+    res.status(400).json({ error: e instanceof Error ? e.message : String(e) });
+  }
+});
+
+/** GET /api/crop/backtests — recent backtests (newest first) with their rankings, without equity curves and trade logs. */
+cropRouter.get("/backtests", (_req, res) => {
+  res.json({ backtests: listCropBacktests() });
+});
+
+/** GET /api/crop/backtests/:id — progress, then per model: equity curve, trade log, return, max drawdown, compliance and usage. */
+cropRouter.get("/backtests/:id", (req, res) => {
+  const backtest = getCropBacktest(req.params.id);
+  if (!backtest) return res.status(404).json({ error: "Unknown backtest" });
+  res.json(backtest);
+});
+
 /** POST /api/crop/run-test — body { modelId }. Runs ~30s test with real corn data, returns portfolio history. */
 cropRouter.post("/run-test", async (req, res) => {
   try {
@@ -9,7 +9,11 @@ import {
   getOddsHistory,
   getNext3OddsHistory,
   settleBetsForPeriod,
+  placeTournamentBet,
+  listTournamentBets,
+  getTournamentOdds,
 } from "../domains/market/service.js";
+import { PROMPT_VARIANTS } from "../ai/index.js";
 import { deduct as deductUserBalance, credit as creditUserBalance } from "../user-balance.js";
 
 export const marketRouter = Router();
@@ -79,7 +83,46 @@ marketRouter.post("/bet-next3", async (req, res) => {
   }
 });
 
-/** Leaderboard: daily P/L per model. Query: domain=blackjack&period=YYYY-MM-DD. Settles pending bets only when period is in the past (day is over). */
+/** Bet on a blackjack tournament's winner (parimutuel). Body: { tournamentId, modelId, amountCents }. Closes when the final table starts. */
+marketRouter.post("/bet-tournament", async (req, res) => {
+  try {
+    const tournamentId = String(req.body?.tournamentId ?? "").trim();
+    const modelId = String(req.body?.modelId ?? "").trim();
+    const amountCents = Math.round(Number(req.body?.amountCents ?? 0));
+    if (!tournamentId || !modelId || amountCents <= 0) {
+      return res.status(400).json({ error: "tournamentId, modelId, and positive amountCents required" });
+    }
+    if (!deductUserBalance(amountCents)) {
+      return res.status(400).json({ error: "Insufficient balance" });
+    }
+    try {
+      const bet = await placeTournamentBet(tournamentId, modelId, amountCents);
+      res.status(201).json(bet);
+    } catch (e) {
+      creditUserBalance(amountCents);
+      return res.status(400).json({ error: String(e instanceof Error ? e.message : e) });
+    }
+  } catch (e) {
+    console.error("POST /market/bet-tournament error:", e);
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
+/** Winner bets and pool odds for a tournament (bets settle when it ends). Query: tournamentId=... */
+marketRouter.get("/tournament-bets", async (req, res) => {
+  try {
+    const tournamentId = String(req.query.tournamentId ?? "").trim();
+    if (!tournamentId) return res.status(400).json({ error: "tournamentId required" });
+    const bets = await listTournamentBets(tournamentId);
+    const odds = await getTournamentOdds(tournamentId);
+    res.json({ tournamentId, bets, odds });
+  } catch (e) {
+    console.error("GET /market/tournament-bets error:", e);
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
+/** Leaderboard: daily P/L per model with inference cost, P/L per inference dollar and failure rate. Query: domain=blackjack|crop&period=YYYY-MM-DD. Settles pending bets only when period is in the past (day is over). */
 marketRouter.get("/leaderboard", async (req, res) => {
   try {
     const domain = String(req.query.domain ?? "blackjack");
@@ -94,6 +137,11 @@ marketRouter.get("/leaderboard", async (req, res) => {
   }
 });
 
+/** Prompt variants. Any model plays as a separate contestant "<modelId>@<variant id>", e.g. "openai-gpt-4o@cot.v1". */
+marketRouter.get("/prompt-variants", (_req, res) => {
+  res.json({ variants: PROMPT_VARIANTS });
+});
+
 /** Leaderboard history: cumulative P/L per hand for chart. Query: domain=blackjack&period=YYYY-MM-DD. */
 marketRouter.get("/leaderboard-history", async (req, res) => {
   try {
@@ -17,11 +17,60 @@ const env = z.object({
   PORT: z.coerce.number().default(4000),
   DATABASE_URL: z.string().optional(),
   OPENAI_API_KEY: z.string().optional(),
+  /** Path to a JSON array of chat models (see ai/registry.ts). Relative paths resolve from the working directory. */
+  AI_PROVIDERS_FILE: z.string().optional().transform((s) => (s?.trim() || undefined)),
+  /** The same JSON array inline; used when AI_PROVIDERS_FILE is not set. Empty = built-in OpenAI models. */
+  AI_PROVIDERS: z.string().optional().transform((s) => (s?.trim() || undefined)),
+  /** JSONL cassette of AI calls (ai/cassette.ts): record appends every reply, replay answers from the file offline. */
+  AI_CASSETTE: z.string().optional().transform((s) => (s?.trim() || undefined)),
+  AI_CASSETTE_MODE: z.enum(["record", "replay"]).default("replay"),
+  /** Provider calls (ai/resilience.ts): per-attempt timeout, retries with doubling backoff, and the circuit breaker. */
+  AI_TIMEOUT_MS: z.coerce.number().int().positive().default(30_000),
+  AI_RETRIES: z.coerce.number().int().min(0).default(2),
+  AI_BACKOFF_MS: z.coerce.number().int().min(0).default(1000),
+  /** Consecutive failed calls that open a model's circuit, and how long it stays open. */
+  AI_BREAKER_FAILURES: z.coerce.number().int().positive().default(5),
+  AI_BREAKER_COOLDOWN_MS: z.coerce.number().int().min(0).default(60_000),
+  /** Memory prompt variant: how many of a contestant's last hands or trades its prompts summarise. */
+  AI_MEMORY_WINDOW: z.coerce.number().int().min(1).max(50).default(10),
+  /** Webhook agents (ai/webhook.ts): when set, POST /api/agents needs "Authorization: Bearer <token>". */
+  AGENT_REGISTRATION_TOKEN: z.string().optional().transform((s) => (s?.trim() || undefined)),
+  /** Default deadline for a webhook agent's reply. */
+  AGENT_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
+  /** Let webhook agents use loopback and private-network URLs (local development only). */
+  AGENT_ALLOW_PRIVATE_URLS: z.string().optional().transform((s) => /^(true|1|on|yes)$/i.test(s?.trim() ?? "")),
+  /** Built-in baseline bots (ai/baselines.ts) alongside the registry models; "false" hides them. */
+  BASELINE_BOTS: z.string().optional().transform((s) => !/^(false|0|off|no)$/i.test(s?.trim() ?? "")),
   BLACKJACK_DAILY_CENTS: z.coerce.number().default(10_000_000), // 100k
   BLACKJACK_MIN_BET_CENTS: z.coerce.number().default(100),   // $1
   BLACKJACK_MAX_BET_CENTS: z.coerce.number().default(100_000), // $1000
+  /** Decks per blackjack shoe (1-8). */
+  BLACKJACK_SHOE_DECKS: z.coerce.number().default(6),
+  /** Fraction of the shoe dealt before the cut card forces a reshuffle. */
+  BLACKJACK_SHOE_PENETRATION: z.coerce.number().default(0.75),
+  /** Table rule code, e.g. "S17,3:2,DAS,peek,ins,LS" (see domains/blackjack/rules.ts). Empty = defaults. */
+  BLACKJACK_RULES: z.string().optional().transform((s) => (s?.trim() || undefined)),
+  /** How long a new tournament takes winner bets before its first deal (0 = starts at once; bets then close as soon as the final table deals). */
+  BLACKJACK_TOURNAMENT_BETTING_MS: z.coerce.number().int().min(0).default(60_000),
   SPORTS_DAILY_CENTS: z.coerce.number().default(10_000_000),   // 100k
   CROP_BANKROLL_CENTS: z.coerce.number().default(10_000_000), // 100k
+  /** Commodities the crop benchmark trades, comma-separated ids from sources/commodities.ts; the first is the headline one. */
+  CROP_COMMODITIES: z.string().optional().transform((s) => (s ?? "corn").split(",").map((id) => id.trim().toLowerCase()).filter(Boolean)),
+  /** Crop account (domains/crop/portfolio.ts): cash (long only, no borrowing), margin (shorts and credit) or futures (whole contracts, marked to market). */
+  CROP_TRADING_MODE: z.enum(["cash", "margin", "futures"]).default("cash"),
+  /** Margin rates as fractions of gross exposure; unset = the mode's default (margin 0.5 / 0.3, futures 0.08 / 0.06). */
+  CROP_INITIAL_MARGIN: z.coerce.number().positive().max(1).optional(),
+  CROP_MAINTENANCE_MARGIN: z.coerce.number().min(0).max(1).optional(),
+  /** Crop execution costs (domains/crop/execution.ts), all 0 = fills at the quote for free. Commission in dollars per contract and in percent of notional. */
+  CROP_COMMISSION_PER_CONTRACT: z.coerce.number().min(0).default(0),
+  CROP_COMMISSION_PCT: z.coerce.number().min(0).max(100).default(0),
+  /** Full bid/ask spread in basis points of the price, and a multiple of recent per-step volatility it is widened to (0 = fixed). */
+  CROP_SPREAD_BPS: z.coerce.number().min(0).default(0),
+  CROP_SPREAD_VOL_MULTIPLE: z.coerce.number().min(0).default(0),
+  /** Price impact in basis points per contract traded (linear in size). */
+  CROP_SLIPPAGE_BPS_PER_CONTRACT: z.coerce.number().min(0).default(0),
+  /** Offline price store for crop backtests (sources/price-store.ts): one JSON file of bars per commodity and interval. */
+  PRICE_STORE_DIR: z.string().optional().transform((s) => s?.trim() || "data/prices"),
   /** Delay in ms between each auto-play hand (0 = off). e.g. 300000 = 5 min so users can bet and we save credits */
   AUTO_PLAY_DELAY_MS: z.coerce.number().default(300000),
   /** Delay in ms between each crop auto-play run (0 = off). e.g. 300000 = 5 min */
@@ -58,12 +107,42 @@ export const config = {
   /** SQLite file path when useSqlite is true */
   sqlitePath: "data/benchmark.db",
   openaiApiKey: env.OPENAI_API_KEY,
+  aiProvidersFile: env.AI_PROVIDERS_FILE,
+  aiProviders: env.AI_PROVIDERS,
+  baselineBots: env.BASELINE_BOTS,
+  aiCassette: env.AI_CASSETTE,
+  aiCassetteMode: env.AI_CASSETTE_MODE,
+  aiTimeoutMs: env.AI_TIMEOUT_MS,
+  aiRetries: env.AI_RETRIES,
+  aiBackoffMs: env.AI_BACKOFF_MS,
+  aiBreakerFailures: env.AI_BREAKER_FAILURES,
+  aiBreakerCooldownMs: env.AI_BREAKER_COOLDOWN_MS,
+  aiMemoryWindow: env.AI_MEMORY_WINDOW,
+  agentRegistrationToken: env.AGENT_REGISTRATION_TOKEN,
+  agentTimeoutMs: env.AGENT_TIMEOUT_MS,
+  agentAllowPrivateUrls: env.AGENT_ALLOW_PRIVATE_URLS,
   /** Daily bankroll per AI in cents (100_000_00 = $100,000) */
   blackjackDailyCents: env.BLACKJACK_DAILY_CENTS,
   blackjackMinBetCents: env.BLACKJACK_MIN_BET_CENTS,
   blackjackMaxBetCents: env.BLACKJACK_MAX_BET_CENTS,
+  blackjackShoeDecks: env.BLACKJACK_SHOE_DECKS,
+  blackjackShoePenetration: env.BLACKJACK_SHOE_PENETRATION,
+  blackjackRules: env.BLACKJACK_RULES,
+  tournamentBettingMs: env.BLACKJACK_TOURNAMENT_BETTING_MS,
   sportsDailyCents: env.SPORTS_DAILY_CENTS,
   cropBankrollCents: env.CROP_BANKROLL_CENTS,
+  cropCommodities: env.CROP_COMMODITIES,
+  cropTradingMode: env.CROP_TRADING_MODE,
+  cropInitialMargin: env.CROP_INITIAL_MARGIN,
+  cropMaintenanceMargin: env.CROP_MAINTENANCE_MARGIN,
+  cropExecution: {
+    commissionPerContract: env.CROP_COMMISSION_PER_CONTRACT,
+    commissionPct: env.CROP_COMMISSION_PCT,
+    spreadBps: env.CROP_SPREAD_BPS,
+    spreadVolMultiple: env.CROP_SPREAD_VOL_MULTIPLE,
+    slippageBpsPerContract: env.CROP_SLIPPAGE_BPS_PER_CONTRACT,
+  },
+  priceStoreDir: env.PRICE_STORE_DIR,
   autoPlayDelayMs: env.AUTO_PLAY_DELAY_MS,
   autoPlayBetCents: env.AUTO_PLAY_BET_CENTS,
   cropAutoPlayDelayMs: env.CROP_AUTO_PLAY_DELAY_MS,
@@ -10,6 +10,7 @@ const aiModels: Record<string, { id: string; name: string; provider: string }> =
 const dailyBankrolls: Map<string, { balance_cents: number }> = new Map();
 let blackjackHands: { model_id: string; date: string; pnl_cents: number }[] = [];
 const performanceBets: { id: string; domain: string; model_id: string; period: string; direction: string; amount_cents: number; outcome: string; payout_cents: number; created_at: string }[] = [];
+const tournamentBets: { id: string; tournament_id: string; model_id: string; amount_cents: number; outcome: string; payout_cents: number; created_at: string }[] = [];
 const next3Bets: { id: string; model_a_id: string; model_b_id: string; direction: string; amount_cents: number; outcome: string; payout_cents: number; hands_a_at_bet: number; pnl_a_at_bet: number; hands_b_at_bet: number; pnl_b_at_bet: number; date: string; created_at: string }[] = [];
 
 function key(modelId: string, domain: string, date: string) {
@@ -211,6 +212,39 @@ export function memoryQuery<T = Record<string, unknown>>(
     return { rows: [], rowCount: 0 };
   }
 
+  // INSERT INTO tournament_bets (id, tournament_id, model_id, amount_cents, outcome, created_at)
+  if (text.includes("INSERT INTO tournament_bets")) {
+    tournamentBets.push({
+      id: p(1) as string,
+      tournament_id: p(2) as string,
+      model_id: p(3) as string,
+      amount_cents: p(4) as number,
+      outcome: "pending",
+      payout_cents: 0,
+      created_at: params[4] != null ? String(params[4]) : new Date().toISOString(),
+    });
+    return { rows: [{ id: p(1) } as T], rowCount: 1 };
+  }
+
+  // SELECT FROM tournament_bets [WHERE tournament_id = $1] [ORDER BY created_at]
+  if (text.includes("FROM tournament_bets") && text.includes("SELECT")) {
+    let list = tournamentBets;
+    if (text.includes("tournament_id = $1")) list = tournamentBets.filter((b) => b.tournament_id === p(1));
+    if (text.includes("outcome = 'pending'")) list = list.filter((b) => b.outcome === "pending");
+    if (text.includes("ORDER BY created_at")) list = [...list].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const rows = list.map((b) => ({ ...b })) as T[];
+    return { rows, rowCount: rows.length };
+  }
+
+  // UPDATE tournament_bets SET outcome = $2, payout_cents = $3 WHERE id = $1 AND outcome = 'pending' RETURNING id
+  if (text.includes("UPDATE tournament_bets") && text.includes("outcome")) {
+    const b = tournamentBets.find((x) => x.id === p(1) && x.outcome === "pending");
+    if (!b) return { rows: [], rowCount: 0 };
+    b.outcome = p(2) as string;
+    b.payout_cents = params[2] != null ? Number(params[2]) : 0;
+    return { rows: [{ id: b.id } as T], rowCount: 1 };
+  }
+
   return { rows: [], rowCount: 0 };
 }
 
@@ -33,10 +33,18 @@ CREATE TABLE IF NOT EXISTS blackjack_hands (
   bet_cents     INTEGER NOT NULL,
   player_cards  TEXT NOT NULL,
   dealer_upcard TEXT NOT NULL,
-  decision      TEXT NOT NULL CHECK (decision IN ('hit', 'stand', 'double', 'split')),
+  decision      TEXT NOT NULL CHECK (decision IN ('hit', 'stand', 'double', 'split', 'surrender')),
   reasoning     TEXT,
   outcome       TEXT CHECK (outcome IN ('win', 'loss', 'push')),
   pnl_cents     INTEGER,
+  sub_hands     TEXT,
+  rules         TEXT,
+  deal          TEXT,
+  strategy      TEXT,
+  hilo          TEXT,
+  side_bets     TEXT,
+  compliance    TEXT,
+  inference     TEXT,
   created_at    TEXT DEFAULT (datetime('now'))
 );
 CREATE INDEX IF NOT EXISTS idx_blackjack_hands_model_date ON blackjack_hands(model_id, date);
@@ -90,3 +98,14 @@ CREATE TABLE IF NOT EXISTS performance_bets (
   outcome      TEXT CHECK (outcome IN ('win', 'loss', 'pending')),
   created_at   TEXT DEFAULT (datetime('now'))
 );
+
+-- Market layer: parimutuel bets on a blackjack tournament winner (tournaments are held in memory)
+CREATE TABLE IF NOT EXISTS tournament_bets (
+  id            TEXT PRIMARY KEY,
+  tournament_id TEXT NOT NULL,
+  model_id      TEXT NOT NULL REFERENCES ai_models(id),
+  amount_cents  INTEGER NOT NULL,
+  outcome       TEXT CHECK (outcome IN ('win', 'loss', 'push', 'pending')),
+  payout_cents  INTEGER,
+  created_at    TEXT DEFAULT (datetime('now'))
+);
@@ -37,13 +37,41 @@ CREATE TABLE IF NOT EXISTS blackjack_hands (
   bet_cents     BIGINT NOT NULL,
   player_cards  JSONB NOT NULL,
   dealer_upcard TEXT NOT NULL,
-  decision      TEXT NOT NULL CHECK (decision IN ('hit', 'stand', 'double', 'split')),
+  decision      TEXT NOT NULL CHECK (decision IN ('hit', 'stand', 'double', 'split', 'surrender')),
   reasoning     TEXT,
   outcome       TEXT CHECK (outcome IN ('win', 'loss', 'push')),
   pnl_cents     BIGINT,
+  sub_hands     JSONB,
+  rules         TEXT,
+  deal          JSONB,
+  strategy      JSONB,
+  hilo          JSONB,
+  side_bets     JSONB,
+  compliance    JSONB,
+  inference     JSONB,
   created_at    TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Existing databases: per-hand detail for split rounds, and late surrender as a decision
+ALTER TABLE blackjack_hands ADD COLUMN IF NOT EXISTS sub_hands JSONB;
+ALTER TABLE blackjack_hands DROP CONSTRAINT IF EXISTS blackjack_hands_decision_check;
+ALTER TABLE blackjack_hands ADD CONSTRAINT blackjack_hands_decision_check
+  CHECK (decision IN ('hit', 'stand', 'double', 'split', 'surrender'));
+-- Table rule code the hand was dealt under (e.g. v1:S17,3:2,DAS,peek,ins,LS)
+ALTER TABLE blackjack_hands ADD COLUMN IF NOT EXISTS rules TEXT;
+-- Seeded shoe position of the hand's cards: { seedHash, nonce, from, to }
+ALTER TABLE blackjack_hands ADD COLUMN IF NOT EXISTS deal JSONB;
+-- Basic-strategy grade of the hand's decisions: { decisions, correct, evLossCents }
+ALTER TABLE blackjack_hands ADD COLUMN IF NOT EXISTS strategy JSONB;
+-- Counting mode: Hi-Lo count before the deal and the opening bet: { running, trueCount, betCents }
+ALTER TABLE blackjack_hands ADD COLUMN IF NOT EXISTS hilo JSONB;
+-- Side bets settled on the initial deal: [{ kind, cents, result, pnlCents }]
+ALTER TABLE blackjack_hands ADD COLUMN IF NOT EXISTS side_bets JSONB;
+-- Instruction-following: { asks, compliant, events: [{ field, issue, detail }] }
+ALTER TABLE blackjack_hands ADD COLUMN IF NOT EXISTS compliance JSONB;
+-- Inference spent on the hand: { calls, promptTokens, completionTokens, latencyMs, costUsd }
+ALTER TABLE blackjack_hands ADD COLUMN IF NOT EXISTS inference JSONB;
+
 CREATE INDEX IF NOT EXISTS idx_blackjack_hands_model_date ON blackjack_hands(model_id, date);
 
 -- Sports: each bet placed (one per match per model per day)
@@ -101,3 +129,14 @@ CREATE TABLE IF NOT EXISTS performance_bets (
   outcome      TEXT CHECK (outcome IN ('win', 'loss', 'pending')),
   created_at   TIMESTAMPTZ DEFAULT NOW()
 );
+
+-- Market layer: parimutuel bets on a blackjack tournament winner (tournaments are held in memory)
+CREATE TABLE IF NOT EXISTS tournament_bets (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id TEXT NOT NULL,
+  model_id      TEXT NOT NULL REFERENCES ai_models(id),
+  amount_cents  BIGINT NOT NULL,
+  outcome       TEXT CHECK (outcome IN ('win', 'loss', 'push', 'pending')),
+  payout_cents  BIGINT,
+  created_at    TIMESTAMPTZ DEFAULT NOW()
+);
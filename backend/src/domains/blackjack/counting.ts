@@ -0,0 +1,106 @@
+/**
+ * Card-counting track. In counting mode bets are taken before the deal and the bet prompt lists the
+ * cards seen since the last shuffle; each hand records the Hi-Lo true count at bet time, and a model's counting skill is how well its
+ * opening bets follow that count (Pearson correlation and bet ramp). Distinct from basic strategy.
+ */
+
+import { cardValue, type Card } from "./engine.js";
+import type { Shoe } from "./shoe.js";
+import { getBlackjackHandModelIds, getBlackjackHands } from "../../hedera/blackjack-hand-store.js";
+
+/** Hi-Lo count at bet time. */
+export type CountRecord = { running: number; trueCount: number };
+
+/** A counting-mode hand's count plus its opening bet (before doubles, splits and insurance). */
+export type HandCount = CountRecord & { betCents: number };
+
+/** What a counting-mode bet prompt shows: cards seen before this deal and what is left. */
+export type ShoeView = { seen: Card[]; remaining: number; decks: number };
+
+/** Snapshot of a shoe between rounds, for the bet prompt and the count. */
+export function shoeView(shoe: Shoe): ShoeView {
+  return { seen: shoe.seen(), remaining: shoe.remaining(), decks: shoe.decks };
+}
+
+/** Hi-Lo tag: 2–6 = +1, 7–9 = 0, tens and aces = -1. */
+export function hiLoValue(card: Card): number {
+  const v = cardValue(card);
+  return v <= 6 ? 1 : v >= 10 ? -1 : 0;
+}
+
+/** Running count over the seen cards; true count divides by decks remaining (at least a quarter deck). */
+export function countOf(view: ShoeView): CountRecord {
+  const running = view.seen.reduce((s, c) => s + hiLoValue(c), 0);
+  const decksLeft = Math.max(0.25, view.remaining / 52);
+  return { running, trueCount: Math.round((running / decksLeft) * 100) / 100 };
+}
+
+/** Pearson correlation; null with fewer than 3 points or no variance. */
+function correlation(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 3) return null;
+  const mx = xs.reduce((s, x) => s + x, 0) / n;
+  const my = ys.reduce((s, y) => s + y, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : null;
+}
+
+function average(xs: number[]): number | null {
+  return xs.length > 0 ? xs.reduce((s, x) => s + x, 0) / xs.length : null;
+}
+
+export type CountingStats = {
+  modelId: string;
+  /** Counting-mode hands. */
+  hands: number;
+  /** Correlation of opening bet with true count (-1..1); the counting-skill statistic. */
+  betCountCorrelation: number | null;
+  /** Average bet at true count +2 or more divided by average bet at true count 0 or less. */
+  betRamp: number | null;
+  pnlCents: number;
+};
+
+/** Chart series: average opening bet per true count (rounded, clamped to ±5). */
+export type CountingSeries = { modelId: string; points: { trueCount: number; avgBetCents: number; hands: number }[] };
+
+/** Per-model counting skill from counting-mode hands in the hand store. */
+export function getCountingStats(dateFilter: string | null): { stats: CountingStats[]; series: CountingSeries[] } {
+  const stats: CountingStats[] = [];
+  const series: CountingSeries[] = [];
+  for (const modelId of getBlackjackHandModelIds()) {
+    const counted = getBlackjackHands(modelId, dateFilter).filter((h) => h.count);
+    if (counted.length === 0) continue;
+    const tcs = counted.map((h) => h.count!.trueCount);
+    const bets = counted.map((h) => h.count!.betCents);
+    const high = average(bets.filter((_, i) => tcs[i] >= 2));
+    const low = average(bets.filter((_, i) => tcs[i] <= 0));
+    stats.push({
+      modelId,
+      hands: counted.length,
+      betCountCorrelation: correlation(tcs, bets),
+      betRamp: high != null && low != null && low > 0 ? high / low : null,
+      pnlCents: counted.reduce((s, h) => s + (h.pnlCents ?? 0), 0),
+    });
+
+    const buckets = new Map<number, number[]>();
+    tcs.forEach((tc, i) => {
+      const bucket = Math.max(-5, Math.min(5, Math.round(tc)));
+      buckets.set(bucket, [...(buckets.get(bucket) ?? []), bets[i]]);
+    });
+    series.push({
+      modelId,
+      points: [...buckets.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([trueCount, b]) => ({ trueCount, avgBetCents: Math.round(average(b)!), hands: b.length })),
+    });
+  }
+  stats.sort((a, b) => (b.betCountCorrelation ?? -2) - (a.betCountCorrelation ?? -2));
+  return { stats, series };
+}
@@ -0,0 +1,273 @@
+/**
+ * Duplicate blackjack: like duplicate bridge, every model plays the same seeded sequence of deals
+ * independently and results are compared deal by deal. Deal i is dealt from shoeOrder(seed, i, decks),
+ * so each model sees the same cards in the same order; only its own decisions change what comes next.
+ *
+ * Bets are flat so the comparison measures decisions, not bet sizing. Duplicate hands do not touch
+ * daily bankrolls or the market; the seed is committed to HCS before play and revealed after.
+ */
+
+import { randomUUID } from "crypto";
+import { config } from "../../config.js";
+import { getAIProvider, type AIProvider } from "../../ai/index.js";
+import { submitAiResult } from "../../hedera/hcs.js";
+import { handValue, isBlackjack, dealerShouldHit, type Card } from "./engine.js";
+import { getRevealedSeed, hashSeed, newServerSeed, publishCommit, publishReveal, shoeOrder } from "./fairness.js";
+import { resolveTableRules, rulesCode, type TableRules } from "./rules.js";
+import { summarizeGrades, type StrategySummary } from "./strategy.js";
+import {
+  dealerMustPlay,
+  dealerPeeks,
+  offerInsurance,
+  playPlayerTurn,
+  settleRound,
+  type TurnEvent,
+} from "./service.js";
+
+/** One model's result on one deal. */
+export type DuplicateResult = {
+  modelId: string;
+  playerCards: Card[];
+  dealerCards: Card[];
+  decision: string;
+  outcome: "win" | "loss" | "push";
+  pnlCents: number;
+  strategy: StrategySummary;
+  /** 1 per model beaten on this deal, 0.5 per tie (duplicate-bridge matchpoints). */
+  matchpoints: number;
+};
+
+export type DuplicateDeal = { deal: number; results: DuplicateResult[] };
+
+export type DuplicateStanding = {
+  modelId: string;
+  pnlCents: number;
+  matchpoints: number;
+  /** Matchpoints as a share of the maximum available (0–1). */
+  matchpointPct: number;
+  decisions: number;
+  correct: number;
+  evLostCents: number;
+};
+
+export type DuplicateReport = {
+  sessionId: string;
+  createdAt: string;
+  modelIds: string[];
+  decks: number;
+  betCents: number;
+  rules: TableRules;
+  seedHash: string;
+  /** Revealed once the session has finished. */
+  seed: string | null;
+  /** Replayed from an earlier shoe's revealed seed, so nothing new was committed. */
+  replay: boolean;
+  deals: DuplicateDeal[];
+  standings: DuplicateStanding[];
+};
+
+export type DuplicateEvent =
+  | { type: "duplicate_start"; sessionId: string; modelIds: string[]; totalDeals: number; seedHash: string; replay: boolean; rules: TableRules; betCents: number }
+  | { type: "deal_start"; deal: number; totalDeals: number }
+  | { type: "deal"; modelId: string; playerCards: Card[]; playerTotal: number; dealerUpcard: Card }
+  | (TurnEvent & { modelId: string })
+  | { type: "dealer_final"; modelId: string; dealerCards: Card[]; dealerTotal: number }
+  | { type: "result"; deal: number; result: DuplicateResult }
+  | { type: "deal_summary"; deal: number; results: DuplicateResult[] }
+  | { type: "report"; report: DuplicateReport }
+  | { type: "error"; message: string }
+  | { type: "done" };
+
+export type DuplicateOptions = {
+  modelIds: string[];
+  deals: number;
+  /** Replay a previous session by passing its revealed seed; a fresh seed is committed otherwise. */
+  seed?: string;
+  decks?: number;
+  betCents?: number;
+  rules?: Partial<TableRules>;
+};
+
+/** sessionId -> report (most recent sessions, server session) */
+const sessions = new Map<string, DuplicateReport>();
+const MAX_SESSIONS = 50;
+
+export function getDuplicateReport(sessionId: string): DuplicateReport | undefined {
+  return sessions.get(sessionId);
+}
+
+/** Recent sessions, newest first (reports without per-deal detail). */
+export function listDuplicateSessions(): Omit<DuplicateReport, "deals">[] {
+  return Array.from(sessions.values())
+    .reverse()
+    .map(({ deals: _deals, ...rest }) => rest);
+}
+
+function saveSession(report: DuplicateReport): void {
+  sessions.set(report.sessionId, report);
+  while (sessions.size > MAX_SESSIONS) sessions.delete(sessions.keys().next().value!);
+}
+
+/** Score one deal: each model earns 1 per model it out-earned and 0.5 per tie. */
+function scoreDeal(results: DuplicateResult[]): void {
+  for (const r of results) {
+    r.matchpoints = results.reduce((s, o) => (o === r ? s : s + (r.pnlCents > o.pnlCents ? 1 : r.pnlCents === o.pnlCents ? 0.5 : 0)), 0);
+  }
+}
+
+function standingsOf(modelIds: string[], deals: DuplicateDeal[]): DuplicateStanding[] {
+  const maxPerDeal = Math.max(1, modelIds.length - 1);
+  return modelIds
+    .map((modelId) => {
+      const mine = deals.flatMap((d) => d.results.filter((r) => r.modelId === modelId));
+      const matchpoints = mine.reduce((s, r) => s + r.matchpoints, 0);
+      return {
+        modelId,
+        pnlCents: mine.reduce((s, r) => s + r.pnlCents, 0),
+        matchpoints,
+        matchpointPct: mine.length > 0 ? matchpoints / (mine.length * maxPerDeal) : 0,
+        decisions: mine.reduce((s, r) => s + r.strategy.decisions, 0),
+        correct: mine.reduce((s, r) => s + r.strategy.correct, 0),
+        evLostCents: mine.reduce((s, r) => s + r.strategy.evLossCents, 0),
+      };
+    })
+    .sort((a, b) => b.matchpoints - a.matchpoints || b.pnlCents - a.pnlCents);
+}
+
+/** Play one deal for one model from the deal's fixed card sequence. */
+async function playDeal(opts: {
+  provider: AIProvider;
+  modelId: string;
+  cards: Card[];
+  rules: TableRules;
+  betCents: number;
+  onEvent: (ev: DuplicateEvent) => void;
+}): Promise<DuplicateResult> {
+  const { provider, modelId, rules, betCents, onEvent } = opts;
+  let next = 0;
+  const source = { draw: () => opts.cards[next++] };
+  const tag = (ev: TurnEvent) => onEvent({ ...ev, modelId });
+
+  const playerCards: Card[] = [source.draw(), source.draw()];
+  const dealerUpcard = source.draw();
+  const dealerDown = source.draw();
+  onEvent({ type: "deal", modelId, playerCards: [...playerCards], playerTotal: handValue(playerCards), dealerUpcard });
+
+  // Flat stake: the bankroll check only limits doubles/splits to one extra bet per hand
+  const spareCents = betCents * 8;
+  const insurance = await offerInsurance({ provider, rules, playerCards, dealerUpcard, betCents, spareCents, onEvent: tag });
+  const dealerBlackjack = dealerPeeks(rules, dealerUpcard) && isBlackjack([dealerUpcard, dealerDown]);
+  const turn = await playPlayerTurn({
+    provider,
+    handId: randomUUID(),
+    shoe: source,
+    rules,
+    skip: dealerBlackjack || insurance?.kind === "even_money",
+    playerCards,
+    dealerUpcard,
+    betCents,
+    spareCents: spareCents - (insurance?.cents ?? 0),
+    addWager: async () => {},
+    onEvent: tag,
+  });
+
+  const dealerCards: Card[] = [dealerUpcard, dealerDown];
+  while (dealerMustPlay(turn.hands) && dealerShouldHit(dealerCards, rules)) dealerCards.push(source.draw());
+  onEvent({ type: "dealer_final", modelId, dealerCards: [...dealerCards], dealerTotal: handValue(dealerCards) });
+
+  const round = settleRound(turn.hands, dealerCards, rules, insurance);
+  return {
+    modelId,
+    playerCards: round.hands[0].playerCards,
+    dealerCards,
+    decision: turn.decision,
+    outcome: round.outcome,
+    pnlCents: round.pnlCents,
+    strategy: summarizeGrades(turn.grades),
+    matchpoints: 0,
+  };
+}
+
+/**
+ * Run a duplicate session: every model plays deal 1, then deal 2, … from the same seeded cards.
+ * Emits events for live UI and ends with the comparison report.
+ */
+export async function playDuplicateStream(options: DuplicateOptions, onEvent: (ev: DuplicateEvent) => void): Promise<DuplicateReport | null> {
+  const modelIds = [...new Set(options.modelIds)];
+  const providers = modelIds.map((id) => getAIProvider(id));
+  const missing = modelIds.find((_, i) => !providers[i]);
+  if (missing) {
+    onEvent({ type: "error", message: `Unknown AI model: ${missing}` });
+    return null;
+  }
+  if (modelIds.length < 2) {
+    onEvent({ type: "error", message: "Choose at least two models" });
+    return null;
+  }
+  // A replay only takes a seed that was committed (and has since been revealed), never one chosen by the caller
+  const committed = options.seed ? getRevealedSeed(hashSeed(options.seed)) : undefined;
+  if (options.seed && !committed) {
+    onEvent({ type: "error", message: "seed does not match a committed shoe; replays take the revealed seed of an earlier session" });
+    return null;
+  }
+  if (committed && options.decks != null && Math.round(options.decks) !== committed.decks) {
+    onEvent({ type: "error", message: `seed was committed for a ${committed.decks}-deck shoe; a replay deals the same shoe` });
+    return null;
+  }
+
+  const sessionId = randomUUID();
+  const tableId = `duplicate:${sessionId}`;
+  const totalDeals = Math.max(1, Math.min(options.deals, 100));
+  const decks = committed ? committed.decks : Math.max(1, Math.min(8, Math.round(options.decks ?? config.blackjackShoeDecks)));
+  const betCents = Math.max(config.blackjackMinBetCents, Math.min(config.blackjackMaxBetCents, Math.round(options.betCents ?? config.autoPlayBetCents)));
+  const rules = resolveTableRules(options.rules);
+  const replay = !!committed;
+  const seed = options.seed ?? newServerSeed();
+  const seedHash = hashSeed(seed);
+  // Deal i uses nonce i; the commitment carries nonce 1 (the first deal)
+  if (!replay) await publishCommit(tableId, { seedHash, nonce: 1, decks });
+
+  onEvent({ type: "duplicate_start", sessionId, modelIds, totalDeals, seedHash, replay, rules, betCents });
+  const deals: DuplicateDeal[] = [];
+  for (let deal = 1; deal <= totalDeals; deal++) {
+    onEvent({ type: "deal_start", deal, totalDeals });
+    const cards = shoeOrder(seed, deal, decks);
+    const results: DuplicateResult[] = [];
+    for (let i = 0; i < modelIds.length; i++) {
+      const result = await playDeal({ provider: providers[i]!, modelId: modelIds[i], cards, rules, betCents, onEvent });
+      results.push(result);
+    }
+    scoreDeal(results);
+    for (const result of results) onEvent({ type: "result", deal, result });
+    deals.push({ deal, results });
+    onEvent({ type: "deal_summary", deal, results });
+  }
+
+  if (!replay) await publishReveal(tableId, { seed, seedHash, nonce: 1, decks });
+  const report: DuplicateReport = {
+    sessionId,
+    createdAt: new Date().toISOString(),
+    modelIds,
+    decks,
+    betCents,
+    rules,
+    seedHash,
+    seed,
+    replay,
+    deals,
+    standings: standingsOf(modelIds, deals),
+  };
+  saveSession(report);
+  submitAiResult({
+    domain: "blackjack_duplicate",
+    sessionId,
+    seedHash,
+    ...(replay && { replay: true as const }),
+    deals: totalDeals,
+    rules: rulesCode(rules),
+    standings: report.standings.map((s) => ({ modelId: s.modelId, pnlCents: s.pnlCents, matchpoints: s.matchpoints })),
+  }).catch(() => {});
+  onEvent({ type: "report", report });
+  onEvent({ type: "done" });
+  return report;
+}
@@ -1,22 +1,32 @@
 /**
- * Blackjack engine: deck, hand value, dealer behavior.
+ * Blackjack engine: cards, hand value, dealer behavior. Shoes live in shoe.ts, table rules in rules.ts.
  * We do not send strategy or odds to the AI — only minimal game state.
  */
 
+import { blackjackPayoutCents, type TableRules } from "./rules.js";
+
 export const RANKS = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"] as const;
 export const SUITS = ["H", "D", "C", "S"] as const;
 export type Card = `${(typeof RANKS)[number]}${(typeof SUITS)[number]}`;
 
+/** Unshuffled cards for the given number of 52-card decks. */
+export function createCards(decks: number): Card[] {
+  const cards: Card[] = [];
+  for (let d = 0; d < decks; d++) {
+    for (const r of RANKS) for (const s of SUITS) cards.push(`${r}${s}` as Card);
+  }
+  return cards;
+}
+
 export function createDeck(): Card[] {
-  const deck: Card[] = [];
-  for (const r of RANKS) for (const s of SUITS) deck.push(`${r}${s}` as Card);
-  return shuffle(deck);
+  return shuffle(createCards(1));
 }
 
-function shuffle<T>(a: T[]): T[] {
+/** Fisher–Yates shuffle. Pass a seeded random (fairness.ts) to make the order reproducible. */
+export function shuffle<T>(a: T[], random: () => number = Math.random): T[] {
   const out = [...a];
   for (let i = out.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [out[i], out[j]] = [out[j], out[i]];
   }
   return out;
@@ -39,6 +49,12 @@ export function handValue(cards: Card[]): number {
   return total;
 }
 
+/** True when an ace is being counted as 11. */
+export function isSoft(cards: Card[]): boolean {
+  const hard = cards.reduce((s, c) => s + (c.startsWith("A") ? 1 : cardValue(c)), 0);
+  return cards.some((c) => c.startsWith("A")) && hard + 10 <= 21;
+}
+
 export function isBust(cards: Card[]): boolean {
   return handValue(cards) > 21;
 }
@@ -47,10 +63,72 @@ export function isBlackjack(cards: Card[]): boolean {
   return cards.length === 2 && handValue(cards) === 21;
 }
 
-/** Dealer plays: hit until 17+ */
-export function dealerPlays(deck: Card[], hand: Card[]): Card[] {
+/** Player actions. Surrender is late surrender: only on the first two cards of an unsplit hand. */
+export type PlayerAction = "hit" | "stand" | "double" | "split" | "surrender";
+
+/** Most hands a player may hold after re-splitting. */
+export const MAX_SPLIT_HANDS = 4;
+
+/** One player hand. A round starts with one; each split adds another. */
+export type PlayerHand = {
+  cards: Card[];
+  betCents: number;
+  /** Created by splitting a pair (a 21 here is not a blackjack). */
+  fromSplit: boolean;
+  /** Split aces receive exactly one card each and cannot act further. */
+  splitAces: boolean;
+  doubled: boolean;
+  surrendered: boolean;
+  actions: PlayerAction[];
+};
+
+export function newPlayerHand(cards: Card[], betCents: number): PlayerHand {
+  return { cards, betCents, fromSplit: false, splitAces: false, doubled: false, surrendered: false, actions: [] };
+}
+
+/** Two cards of equal value (any two 10-value cards count as a pair). */
+export function isPair(cards: Card[]): boolean {
+  return cards.length === 2 && cardValue(cards[0]) === cardValue(cards[1]);
+}
+
+/** A two-card 21 on an unsplit hand. */
+export function isNatural(hand: PlayerHand): boolean {
+  return !hand.fromSplit && isBlackjack(hand.cards);
+}
+
+/** Actions open to this hand under the table rules. Double and split need enough bankroll to match the hand's bet. */
+export function availableActions(
+  hand: PlayerHand,
+  handCount: number,
+  canMatchBet: boolean,
+  rules: TableRules
+): PlayerAction[] {
+  const actions: PlayerAction[] = ["hit", "stand"];
+  if (hand.cards.length !== 2) return actions;
+  if (canMatchBet && (!hand.fromSplit || rules.doubleAfterSplit)) actions.push("double");
+  if (canMatchBet && isPair(hand.cards) && handCount < MAX_SPLIT_HANDS && !hand.splitAces) actions.push("split");
+  if (!hand.fromSplit && rules.surrender === "late") actions.push("surrender");
+  return actions;
+}
+
+/** Map a free-text decision onto an allowed action. An unavailable double becomes a hit; anything else unknown stands. */
+export function normalizeDecision(decision: string, allowed: PlayerAction[]): PlayerAction {
+  const d = (decision ?? "").trim().toLowerCase();
+  const picked = (["surrender", "split", "double", "hit", "stand"] as const).find((a) => d.startsWith(a)) ?? "stand";
+  if (allowed.includes(picked)) return picked;
+  return picked === "double" && allowed.includes("hit") ? "hit" : "stand";
+}
+
+/** Dealer hits below 17, and on soft 17 at an H17 table. */
+export function dealerShouldHit(cards: Card[], rules: TableRules): boolean {
+  const total = handValue(cards);
+  return total < 17 || (total === 17 && rules.dealerHitsSoft17 && isSoft(cards));
+}
+
+/** Dealer plays out the hand under the table rules. */
+export function dealerPlays(draw: () => Card, hand: Card[], rules: TableRules): Card[] {
   const h = [...hand];
-  while (handValue(h) < 17) h.push(deck.pop()!);
+  while (dealerShouldHit(h, rules)) h.push(draw());
   return h;
 }
 
@@ -68,6 +146,27 @@ export function resolveHand(
   return "push";
 }
 
+/**
+ * Settle one finished player hand against the dealer's final cards. Surrender loses half the bet,
+ * a natural pays the table's blackjack payout and a dealer blackjack beats any other 21.
+ */
+export function settlePlayerHand(
+  hand: PlayerHand,
+  dealerCards: Card[],
+  rules: TableRules
+): { outcome: "win" | "loss" | "push"; pnlCents: number } {
+  if (hand.surrendered) return { outcome: "loss", pnlCents: -Math.ceil(hand.betCents / 2) };
+  if (isBust(hand.cards)) return { outcome: "loss", pnlCents: -hand.betCents };
+  const natural = isNatural(hand);
+  const dealerNatural = isBlackjack(dealerCards);
+  if (natural && dealerNatural) return { outcome: "push", pnlCents: 0 };
+  if (natural) return { outcome: "win", pnlCents: blackjackPayoutCents(rules, hand.betCents) };
+  if (dealerNatural) return { outcome: "loss", pnlCents: -hand.betCents };
+  const outcome = resolveHand(hand.cards, dealerCards);
+  const pnlCents = outcome === "win" ? hand.betCents : outcome === "loss" ? -hand.betCents : 0;
+  return { outcome, pnlCents };
+}
+
 export function formatCardForPrompt(card: Card): string {
   const r = card.slice(0, -1);
   const s = card.slice(-1);
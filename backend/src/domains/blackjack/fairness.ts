@@ -0,0 +1,103 @@
+/**
+ * Provably fair shoes (commit–reveal). Each shuffle is driven by a secret server seed:
+ * SHA-256(seed) is committed to HEDERA_TOPIC_ID before the first card of the shoe is dealt,
+ * and the seed is revealed once the shoe is retired. Anyone can then recompute the shoe
+ * order from seed + nonce and check the cards of every hand dealt from it.
+ */
+
+import { createHash, createHmac, randomBytes } from "crypto";
+import { submitAiResult } from "../../hedera/hcs.js";
+import { createCards, shuffle, type Card } from "./engine.js";
+
+/** Public commitment for one shuffle: the seed hash plus what is needed to rebuild the shoe. */
+export type ShoeCommitment = { seedHash: string; nonce: number; decks: number };
+
+/** A retired shoe's seed, safe to publish. */
+export type RevealedSeed = ShoeCommitment & { seed: string };
+
+/** Where a hand's cards sit in its shoe: positions [from, to) in deal order. */
+export type DealRecord = { seedHash: string; nonce: number; from: number; to: number };
+
+export function newServerSeed(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function hashSeed(seed: string): string {
+  return createHash("sha256").update(seed).digest("hex");
+}
+
+/** Deterministic floats in [0, 1): 32-bit words from HMAC-SHA256(seed, "nonce:counter"). */
+export function seededRandom(seed: string, nonce: number): () => number {
+  let counter = 0;
+  let words: number[] = [];
+  return () => {
+    if (words.length === 0) {
+      const digest = createHmac("sha256", seed).update(`${nonce}:${counter++}`).digest();
+      words = Array.from({ length: digest.length / 4 }, (_, i) => digest.readUInt32BE(i * 4));
+    }
+    return words.shift()! / 0x1_0000_0000;
+  };
+}
+
+/** The full shoe, in deal order, for a seed and nonce. */
+export function shoeOrder(seed: string, nonce: number, decks: number): Card[] {
+  return shuffle(createCards(decks), seededRandom(seed, nonce));
+}
+
+/** seedHash -> revealed seed, for the verify API (server session) */
+const revealedSeeds = new Map<string, RevealedSeed>();
+
+export function getRevealedSeed(seedHash: string): RevealedSeed | undefined {
+  return revealedSeeds.get(seedHash);
+}
+
+/** Keep a revealed seed (from play or HCS hydration); ignored unless it matches its hash. */
+export function recordRevealedSeed(revealed: RevealedSeed): void {
+  if (hashSeed(revealed.seed) === revealed.seedHash) revealedSeeds.set(revealed.seedHash, revealed);
+}
+
+/** Publish a retired shoe's seed to HCS and keep it for the verify API. */
+export async function publishReveal(tableId: string, revealed: RevealedSeed): Promise<void> {
+  recordRevealedSeed(revealed);
+  await submitAiResult({ domain: "blackjack_shoe", phase: "reveal", tableId, ...revealed });
+}
+
+/** Publish a new shoe's commitment to HCS; call before its first card is dealt. */
+export async function publishCommit(tableId: string, committed: ShoeCommitment): Promise<void> {
+  await submitAiResult({ domain: "blackjack_shoe", phase: "commit", tableId, ...committed });
+}
+
+export type DealVerification = {
+  ok: boolean;
+  /** SHA-256(seed) equals the committed hash (true when no hash was given). */
+  seedHashMatches: boolean;
+  /** Cards at positions [from, to) recomputed from the seed. */
+  cards: Card[];
+  /** Claimed cards that are not among the recomputed ones. */
+  missing: string[];
+};
+
+/**
+ * Recompute a hand's cards from seed + nonce and compare them with what was recorded.
+ * Cards are matched as a multiset, since records list player and dealer cards separately.
+ */
+export function verifyDeal(input: {
+  seed: string;
+  nonce: number;
+  decks: number;
+  from: number;
+  to: number;
+  seedHash?: string;
+  cards?: string[];
+}): DealVerification {
+  const seedHashMatches = !input.seedHash || hashSeed(input.seed) === input.seedHash.toLowerCase();
+  const cards = shoeOrder(input.seed, input.nonce, input.decks).slice(input.from, input.to);
+  const pool = [...cards] as string[];
+  const missing: string[] = [];
+  for (const card of input.cards ?? []) {
+    const i = pool.indexOf(card);
+    if (i < 0) missing.push(card);
+    else pool.splice(i, 1);
+  }
+  return { ok: seedHashMatches && missing.length === 0, seedHashMatches, cards, missing };
+}
@@ -1,5 +1,66 @@
-import type { Card } from "./engine.js";
+import type { Card, PlayerAction } from "./engine.js";
 import { formatCardForPrompt, handValue } from "./engine.js";
+import { DEFAULT_TABLE_RULES, describeRules, type TableRules } from "./rules.js";
+import type { ShoeView } from "./counting.js";
+import { describeSideBets } from "./sidebets.js";
+import { withChainOfThought } from "../../ai/prompt-variants.js";
+import type { BlackjackHandEntry } from "../../hedera/blackjack-hand-store.js";
+
+/** Decision prompt extras: which actions are open, the table rules and, after a split, which hand is being played. */
+export type BlackjackPromptOptions = {
+  actions?: PlayerAction[];
+  handNumber?: number;
+  handCount?: number;
+  rules?: TableRules;
+};
+
+const ACTION_HELP: Record<PlayerAction, string> = {
+  hit: "hit = take another card",
+  stand: "stand = keep your hand",
+  double: "double = double your bet and take exactly one more card",
+  split: "split = split your pair into two hands, each with your original bet",
+  surrender: "surrender = give up this hand and lose half your bet",
+};
+
+function promptActions(options?: BlackjackPromptOptions): PlayerAction[] {
+  return options?.actions?.length ? options.actions : ["hit", "stand"];
+}
+
+function decisionFormat(actions: PlayerAction[]): string {
+  return actions.map((a) => `DECISION: ${a}`).join("\nor\n");
+}
+
+/** Short one-line rule summary for the minimal prompts. */
+function tableLine(rules?: TableRules): string {
+  const r = rules ?? DEFAULT_TABLE_RULES;
+  return `Table: dealer ${r.dealerHitsSoft17 ? "hits" : "stands on"} soft 17, blackjack pays ${r.blackjackPayout}.`;
+}
+
+function rulesBlock(rules?: TableRules): string {
+  return describeRules(rules ?? DEFAULT_TABLE_RULES).map((line) => `- ${line}`).join("\n");
+}
+
+/** Counting mode: the cards dealt from this shoe before the current deal (the count itself is left to the model). */
+function seenBlock(view?: ShoeView): string {
+  if (!view) return "";
+  const seen = view.seen.length > 0 ? view.seen.join(" ") : "none";
+  return `\n\nCards seen since the last shuffle, before this deal (${view.seen.length}): ${seen}
+Cards left in the ${view.decks}-deck shoe before this deal: ${view.remaining}.`;
+}
+
+/** Side bets on offer and how to place them; empty when the table offers none. */
+function sideBetBlock(rules?: TableRules): string {
+  if (!rules?.sideBets.length) return "";
+  return `\n\nOptional side bets, each from $1 up to your main bet. A side bet's stake is lost unless its combination comes up:
+${describeSideBets(rules.sideBets).map((line) => `- ${line}`).join("\n")}
+To place side bets add a line such as SIDE_BET: ${rules.sideBets.map((kind) => `${kind} 5`).join(", ")} (dollars), or SIDE_BET: none.`;
+}
+
+function splitHandLine(options?: BlackjackPromptOptions): string {
+  return options?.handCount && options.handCount > 1
+    ? `You split your pair and are playing hand ${options.handNumber ?? 1} of ${options.handCount}. `
+    : "";
+}
 
 /** Prompt for AI to choose bet amount (dollars). If playerCards and dealerUpcard are provided, bet is decided after seeing the initial deal. */
 export function buildBetPrompt(
@@ -7,7 +68,9 @@ export function buildBetPrompt(
   minBetCents: number,
   maxBetCents: number,
   playerCards?: Card[],
-  dealerUpcard?: Card
+  dealerUpcard?: Card,
+  rules?: TableRules,
+  seen?: ShoeView
 ): string {
   const balanceDollars = (balanceCents / 100).toFixed(0);
   const minDollars = (minBetCents / 100).toFixed(0);
@@ -17,7 +80,7 @@ export function buildBetPrompt(
     const playerStr = playerCards.map(formatCardForPrompt).join(", ");
     const playerTotal = handValue(playerCards);
     const dealerStr = formatCardForPrompt(dealerUpcard);
-    return `You are playing blackjack. You have been dealt: ${playerStr} (total ${playerTotal}). Dealer shows: ${dealerStr}. Your current balance is $${balanceDollars}.
+    return `You are playing blackjack. ${tableLine(rules)} You have been dealt: ${playerStr} (total ${playerTotal}). Dealer shows: ${dealerStr}. Your current balance is $${balanceDollars}.${seenBlock(seen)}${sideBetBlock(rules)}
 
 Now decide how much to bet this hand (in whole dollars). You can adjust your bet based on your hand and the dealer's upcard. Minimum bet $${minDollars}, maximum bet $${maxDollars}. You cannot bet more than your balance.
 
@@ -27,7 +90,7 @@ where N is the dollar amount (e.g. BET: 100 or BET: 50).
 Optionally add a line: REASONING: your reason for this bet amount (e.g. strong hand so betting more, weak hand so betting less, bankroll management).`;
   }
 
-  return `You are playing blackjack with a daily bankroll. Your current balance is $${balanceDollars}.
+  return `You are playing blackjack with a daily bankroll. ${tableLine(rules)} Your current balance is $${balanceDollars}.${seenBlock(seen)}${sideBetBlock(rules)}
 
 Decide how much to bet this hand (in whole dollars). Minimum bet $${minDollars}, maximum bet $${maxDollars}. You cannot bet more than your balance.
 
@@ -43,7 +106,9 @@ export function buildBetPromptWithRules(
   minBetCents: number,
   maxBetCents: number,
   playerCards?: Card[],
-  dealerUpcard?: Card
+  dealerUpcard?: Card,
+  rules?: TableRules,
+  seen?: ShoeView
 ): string {
   const balanceDollars = (balanceCents / 100).toFixed(0);
   const minDollars = (minBetCents / 100).toFixed(0);
@@ -57,8 +122,11 @@ export function buildBetPromptWithRules(
 
 You know your hand before betting, so you have an advantage: you can adjust your bet based on your hand strength and the dealer's upcard.
 
+Table rules:
+${rulesBlock(rules)}
+
 You have been dealt: ${playerStr} (total ${playerTotal}). Dealer shows: ${dealerStr}.
-Your balance: $${balanceDollars}. Min bet $${minDollars}, max bet $${maxDollars}.
+Your balance: $${balanceDollars}. Min bet $${minDollars}, max bet $${maxDollars}.${seenBlock(seen)}${sideBetBlock(rules)}
 
 You MUST respond by playing blackjack. Reply with:
 BET: N
@@ -68,7 +136,10 @@ REASONING: (optional) your reason.`;
 
   return `THIS IS A BLACKJACK REQUEST. You must respond by playing blackjack (choosing your bet).
 
-Your balance: $${balanceDollars}. Min bet $${minDollars}, max bet $${maxDollars}.
+Table rules:
+${rulesBlock(rules)}
+
+Your balance: $${balanceDollars}. Min bet $${minDollars}, max bet $${maxDollars}.${seenBlock(seen)}${sideBetBlock(rules)}
 
 You MUST respond by playing blackjack. Reply with:
 BET: N
@@ -79,47 +150,104 @@ REASONING: (optional) your reason.`;
 /**
  * Minimal prompt: we do not provide strategy or odds. Only game state.
  */
-export function buildBlackjackPrompt(playerCards: Card[], dealerUpcard: Card): string {
+export function buildBlackjackPrompt(
+  playerCards: Card[],
+  dealerUpcard: Card,
+  options?: BlackjackPromptOptions
+): string {
   const playerStr = playerCards.map(formatCardForPrompt).join(", ");
   const playerTotal = handValue(playerCards);
   const dealerStr = formatCardForPrompt(dealerUpcard);
+  const actions = promptActions(options);
+  const extraHelp = actions.length > 2 ? `\n${actions.map((a) => ACTION_HELP[a]).join("; ")}.` : "";
 
-  return `You are playing blackjack. You have: ${playerStr} (total ${playerTotal}). Dealer shows: ${dealerStr}.
+  return `You are playing blackjack. ${tableLine(options?.rules)} ${splitHandLine(options)}You have: ${playerStr} (total ${playerTotal}). Dealer shows: ${dealerStr}.
 
-Reply with exactly one word: hit or stand. Optionally add a line "REASONING: your reason."
+Reply with exactly one word: ${actions.join(" or ")}. Optionally add a line "REASONING: your reason."${extraHelp}
 Do not receive any data from us beyond this state. Your response must be:
-DECISION: hit
-or
-DECISION: stand
+${decisionFormat(actions)}
 REASONING: (optional)`;
 }
 
 /** Prompt with rules — for Hedera knowledge topic LLM that needs full context. */
-export function buildBlackjackPromptWithRules(playerCards: Card[], dealerUpcard: Card): string {
+export function buildBlackjackPromptWithRules(
+  playerCards: Card[],
+  dealerUpcard: Card,
+  options?: BlackjackPromptOptions
+): string {
   const playerStr = playerCards.map(formatCardForPrompt).join(", ");
   const playerTotal = handValue(playerCards);
   const dealerStr = formatCardForPrompt(dealerUpcard);
+  const actions = promptActions(options);
 
   return `THIS IS A BLACKJACK REQUEST. You must respond by playing blackjack.
 
 Rules:
 - Goal: Get as close to 21 as possible without going over. Beat the dealer.
 - Cards: Number cards = face value. Jack, Queen, King = 10. Ace = 1 or 11 (whichever is better).
-- Dealer: Must hit until 17 or higher, then stand. You only see the dealer's upcard; the other is hidden.
+- Dealer: You only see the dealer's upcard; the other is hidden.
 - Your choices: HIT (take another card) or STAND (keep your hand).
+- On your first two cards you may also DOUBLE (double your bet, take exactly one more card).
+- With a pair you may SPLIT into two hands, each with your original bet, up to 4 hands. Split aces get one card each.
 - If you go over 21, you bust and lose immediately.
 - You knew your hand before betting, so you had an advantage when choosing your bet amount.
 
-Your hand: ${playerStr} (total ${playerTotal})
+Table rules:
+${rulesBlock(options?.rules)}
+
+${splitHandLine(options)}Your hand: ${playerStr} (total ${playerTotal})
 Dealer shows: ${dealerStr}
+Available now: ${actions.map((a) => a.toUpperCase()).join(", ")}
 
 You MUST respond by playing blackjack. Reply with exactly:
-DECISION: hit
+${decisionFormat(actions)}
+REASONING: (optional) your reason.`;
+}
+
+/** Insurance / even money offer when the dealer shows an ace. Answer is INSURANCE: yes|no. */
+export function buildInsurancePrompt(
+  playerCards: Card[],
+  dealerUpcard: Card,
+  betCents: number,
+  insuranceCents: number,
+  evenMoney: boolean
+): string {
+  const playerStr = playerCards.map(formatCardForPrompt).join(", ");
+  const dealerStr = formatCardForPrompt(dealerUpcard);
+  const offer = evenMoney
+    ? `You have blackjack. Take even money: be paid $${(betCents / 100).toFixed(2)} (1:1) now instead of risking a push against a dealer blackjack.`
+    : `Insurance costs $${(insuranceCents / 100).toFixed(2)} (half your bet) and pays 2:1 if the dealer has blackjack.`;
+
+  return `You are playing blackjack. You have: ${playerStr} (total ${handValue(playerCards)}). Dealer shows: ${dealerStr}.
+
+${offer}
+
+Reply with exactly:
+INSURANCE: yes
 or
-DECISION: stand
+INSURANCE: no
 REASONING: (optional) your reason.`;
 }
 
+/** Tournament standing appended to a bet prompt: only table rank at the end of the round counts. */
+export function buildTournamentNote(opts: {
+  round: number;
+  final: boolean;
+  hand: number;
+  hands: number;
+  advance: number;
+  seat: number;
+  chips: number[];
+}): string {
+  const stacks = opts.chips.map((c, i) => `seat ${i + 1}${i + 1 === opts.seat ? " (you)" : ""} $${(c / 100).toFixed(0)}`).join(", ");
+  const goal = opts.final
+    ? "This is the final table: the seat with the most chips after the last hand wins the tournament."
+    : `After the last hand the top ${opts.advance} seat(s) by chips advance; the rest are eliminated.`;
+  return `TOURNAMENT: elimination round ${opts.round}, hand ${opts.hand} of ${opts.hands}. ${goal}
+Chip stacks: ${stacks}.
+Only your rank at this table matters, not your profit: bet bigger when you need to catch up, protect a lead when you have one.`;
+}
+
 /** Build prompt for hit result step (after player drew a card). Same instruction emphasis. */
 export function buildBlackjackHitResultPrompt(
   playerCards: Card[],
@@ -146,3 +274,44 @@ or
 DECISION: stand
 REASONING: (optional) your reason.`;
 }
+
+function signedDollars(cents: number): string {
+  return `${cents < 0 ? "-" : "+"}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+/**
+ * Memory variant: a session total and the last `window` hands, oldest first. Cards are short codes
+ * (10H, KC) so the lines cannot be mistaken for the current hand.
+ */
+export function buildHandMemory(hands: BlackjackHandEntry[], window: number): string[] {
+  if (hands.length === 0) return [];
+  const pnl = hands.reduce((s, h) => s + (h.pnlCents ?? 0), 0);
+  const lines = hands.slice(-window).map((h) => {
+    const bet = h.betCents != null ? `bet $${(h.betCents / 100).toFixed(0)}` : "bet ?";
+    const split = h.subHands && h.subHands.length > 1 ? ` (split into ${h.subHands.length} hands)` : "";
+    const dealer = h.dealerTotal != null ? `; dealer made ${h.dealerTotal}` : "";
+    const result = h.outcome ? `${h.outcome} ${signedDollars(h.pnlCents ?? 0)}` : "unsettled";
+    return `- ${bet}: you ${h.playerCards.join(" ")} vs dealer ${h.dealerUpcard ?? "?"}, ${h.decision ?? "no decision"}${split}${dealer} -> ${result}`;
+  });
+  return [`Session so far: ${hands.length} hands, P/L ${signedDollars(pnl)}. Last ${lines.length}:`, ...lines];
+}
+
+/** The prompts one variant asks with (ai/prompt-variants.ts). */
+export type BlackjackPrompts = {
+  bet: typeof buildBetPrompt;
+  decision: typeof buildBlackjackPrompt;
+  insurance: typeof buildInsurancePrompt;
+};
+
+/** Templates by variant id; a new version of a variant gets its own entry. */
+export const BLACKJACK_PROMPTS: Record<string, BlackjackPrompts> = {
+  "minimal.v1": { bet: buildBetPrompt, decision: buildBlackjackPrompt, insurance: buildInsurancePrompt },
+  "with-rules.v1": { bet: buildBetPromptWithRules, decision: buildBlackjackPromptWithRules, insurance: buildInsurancePrompt },
+  // The session memory is appended by the caller, which knows whose hands to summarise
+  "memory.v1": { bet: buildBetPrompt, decision: buildBlackjackPrompt, insurance: buildInsurancePrompt },
+  "cot.v1": {
+    bet: (...args) => withChainOfThought(buildBetPrompt(...args)),
+    decision: (...args) => withChainOfThought(buildBlackjackPrompt(...args)),
+    insurance: (...args) => withChainOfThought(buildInsurancePrompt(...args)),
+  },
+};
@@ -0,0 +1,118 @@
+/**
+ * Table rules. Every hand is played under an explicit, versioned rule set so results from
+ * different runs are only compared when they were dealt under the same rules.
+ */
+
+import { config } from "../../config.js";
+
+/** Bump when the meaning of a rule changes (not when defaults change). */
+export const TABLE_RULES_VERSION = 1;
+
+export type BlackjackPayout = "3:2" | "6:5";
+
+export type SideBetKind = "perfect_pairs" | "21+3";
+
+export const SIDE_BET_KINDS: SideBetKind[] = ["perfect_pairs", "21+3"];
+
+export type TableRules = {
+  version: number;
+  /** H17 when true (dealer hits soft 17), S17 when false. */
+  dealerHitsSoft17: boolean;
+  /** Payout for a natural blackjack. */
+  blackjackPayout: BlackjackPayout;
+  /** Double down allowed on hands created by a split. */
+  doubleAfterSplit: boolean;
+  /** Dealer checks the hole card under an ace or ten; a dealer blackjack then ends the round before the player acts. */
+  dealerPeek: boolean;
+  /** Insurance (even money with a blackjack) offered when the dealer shows an ace. */
+  insurance: boolean;
+  /** Late surrender on the first two cards of an unsplit hand, or none. */
+  surrender: "late" | "none";
+  /** Optional side bets offered with the main bet (sidebets.ts); none by default. */
+  sideBets: SideBetKind[];
+};
+
+export const DEFAULT_TABLE_RULES: TableRules = {
+  version: TABLE_RULES_VERSION,
+  dealerHitsSoft17: false,
+  blackjackPayout: "3:2",
+  doubleAfterSplit: true,
+  dealerPeek: true,
+  insurance: true,
+  surrender: "late",
+  sideBets: [],
+};
+
+/**
+ * Compact rule code for HCS payloads, hand rows and env: e.g. "v1:S17,3:2,DAS,peek,ins,LS".
+ * Flags: S17|H17, 3:2|6:5, DAS|NDAS, peek|nopeek, ins|noins, LS|NS, then PP and/or 21+3 when those side bets are offered.
+ */
+export function rulesCode(rules: TableRules): string {
+  return `v${rules.version}:${[
+    rules.dealerHitsSoft17 ? "H17" : "S17",
+    rules.blackjackPayout,
+    rules.doubleAfterSplit ? "DAS" : "NDAS",
+    rules.dealerPeek ? "peek" : "nopeek",
+    rules.insurance ? "ins" : "noins",
+    rules.surrender === "late" ? "LS" : "NS",
+    ...rules.sideBets.map((kind) => (kind === "perfect_pairs" ? "PP" : kind)),
+  ].join(",")}`;
+}
+
+/** Parse a rule code (version prefix optional); unknown flags are ignored and missing ones use the defaults. */
+export function parseRulesCode(code: string): TableRules {
+  const rules: TableRules = { ...DEFAULT_TABLE_RULES, sideBets: [] };
+  const match = code.trim().match(/^v(\d+):(.*)$/i);
+  if (match) rules.version = Number(match[1]);
+  const flags = (match ? match[2] : code).split(/[,\s]+/).map((f) => f.trim().toLowerCase()).filter(Boolean);
+  for (const flag of flags) {
+    if (flag === "h17" || flag === "s17") rules.dealerHitsSoft17 = flag === "h17";
+    else if (flag === "3:2" || flag === "6:5") rules.blackjackPayout = flag;
+    else if (flag === "das" || flag === "ndas") rules.doubleAfterSplit = flag === "das";
+    else if (flag === "peek" || flag === "nopeek") rules.dealerPeek = flag === "peek";
+    else if (flag === "ins" || flag === "noins") rules.insurance = flag === "ins";
+    else if (flag === "ls" || flag === "ns") rules.surrender = flag === "ls" ? "late" : "none";
+    else if (flag === "pp" || flag === "21+3") rules.sideBets.push(flag === "pp" ? "perfect_pairs" : "21+3");
+  }
+  rules.sideBets = SIDE_BET_KINDS.filter((kind) => rules.sideBets.includes(kind));
+  return rules;
+}
+
+/** Rules from BLACKJACK_RULES (a rule code), falling back to DEFAULT_TABLE_RULES. */
+export function defaultTableRules(): TableRules {
+  return config.blackjackRules ? parseRulesCode(config.blackjackRules) : { ...DEFAULT_TABLE_RULES, sideBets: [] };
+}
+
+/** Defaults overridden by any valid fields in a request body; the version is always the current one. */
+export function resolveTableRules(overrides?: Partial<TableRules>): TableRules {
+  const rules = defaultTableRules();
+  if (!overrides) return { ...rules, version: TABLE_RULES_VERSION };
+  if (typeof overrides.dealerHitsSoft17 === "boolean") rules.dealerHitsSoft17 = overrides.dealerHitsSoft17;
+  if (overrides.blackjackPayout === "3:2" || overrides.blackjackPayout === "6:5") rules.blackjackPayout = overrides.blackjackPayout;
+  if (typeof overrides.doubleAfterSplit === "boolean") rules.doubleAfterSplit = overrides.doubleAfterSplit;
+  if (typeof overrides.dealerPeek === "boolean") rules.dealerPeek = overrides.dealerPeek;
+  if (typeof overrides.insurance === "boolean") rules.insurance = overrides.insurance;
+  if (overrides.surrender === "late" || overrides.surrender === "none") rules.surrender = overrides.surrender;
+  if (Array.isArray(overrides.sideBets)) rules.sideBets = SIDE_BET_KINDS.filter((kind) => overrides.sideBets!.includes(kind));
+  return { ...rules, version: TABLE_RULES_VERSION };
+}
+
+/** Winnings (not including the returned stake) for a natural on this bet, rounded down to the cent. */
+export function blackjackPayoutCents(rules: TableRules, betCents: number): number {
+  return rules.blackjackPayout === "6:5" ? Math.floor((betCents * 6) / 5) : Math.floor((betCents * 3) / 2);
+}
+
+/** One-line-per-rule description for prompts. */
+export function describeRules(rules: TableRules): string[] {
+  return [
+    rules.dealerHitsSoft17 ? "Dealer hits soft 17 (H17)." : "Dealer stands on all 17s (S17).",
+    `Blackjack pays ${rules.blackjackPayout}.`,
+    rules.doubleAfterSplit ? "Double after split allowed." : "No double after split.",
+    rules.dealerPeek
+      ? "Dealer peeks for blackjack under an ace or ten; if the dealer has it you only lose your original bet."
+      : "No hole-card peek: a dealer blackjack also takes any doubled or split bets.",
+    rules.insurance ? "Insurance (even money on a blackjack) is offered when the dealer shows an ace; it pays 2:1." : "No insurance.",
+    rules.surrender === "late" ? "Late surrender allowed on your first two cards (not after a split)." : "No surrender.",
+    ...(rules.sideBets.length > 0 ? ["Side bets offered (placed with your bet, before the deal, settled on the first cards): see the bet prompt."] : []),
+  ];
+}
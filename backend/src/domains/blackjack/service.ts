@@ -1,26 +1,54 @@
 import { randomUUID } from "crypto";
 import { query } from "../../db/client.js";
 import { config } from "../../config.js";
-import { getAIProvider, type AIProvider } from "../../ai/index.js";
+import { getAIProvider, promptVariantOf, type AIProvider, type AIAskContext } from "../../ai/index.js";
+import { addUsage, newUsage, type UsageTotals } from "../../ai/usage.js";
+import { usageFor } from "../../ai/pricing.js";
+import type { AIUsage } from "../../ai/types.js";
+import { withSessionMemory } from "../../ai/prompt-variants.js";
+import { askFor, newCompliance, noReplyEvents, recordAsk, summarizeCompliance, type Compliance, type ComplianceEvent, type ComplianceStats } from "../../ai/structured.js";
 import {
-  createDeck,
+  cardValue,
   handValue,
   isBust,
+  isBlackjack,
+  isNatural,
   dealerPlays,
-  resolveHand,
+  dealerShouldHit,
+  newPlayerHand,
+  availableActions,
+  normalizeDecision,
+  settlePlayerHand,
   type Card,
+  type PlayerAction,
+  type PlayerHand,
 } from "./engine.js";
-import {
-  buildBlackjackPrompt,
-  buildBlackjackPromptWithRules,
-  buildBetPrompt,
-  buildBetPromptWithRules,
-} from "./prompt.js";
+import { BLACKJACK_PROMPTS, buildHandMemory, type BlackjackPromptOptions, type BlackjackPrompts } from "./prompt.js";
+import { getTableShoe, singleTableId, tableIdFor, vsTableId, type Shoe, type ShoeOptions } from "./shoe.js";
+import { resolveTableRules, rulesCode, type TableRules } from "./rules.js";
+import { publishCommit, publishReveal, type DealRecord } from "./fairness.js";
+import { gradeDecision, summarizeGrades, type DecisionGrade, type StrategySummary } from "./strategy.js";
+import { countOf, shoeView, type HandCount, type ShoeView } from "./counting.js";
+import { parseSideBets, settleSideBet, type SideBetResult, type SideBetWager } from "./sidebets.js";
+
+/** Templates for the provider's prompt variant (the knowledge agent defaults to the with-rules prompts). */
+function promptsFor(provider: AIProvider): BlackjackPrompts {
+  return BLACKJACK_PROMPTS[promptVariantOf(provider).id] ?? BLACKJACK_PROMPTS["minimal.v1"];
+}
 
-function blackjackPromptFor(provider: AIProvider, playerCards: Card[], dealerUpcard: Card): string {
-  return provider.id === "hedera-knowledge"
-    ? buildBlackjackPromptWithRules(playerCards, dealerUpcard)
-    : buildBlackjackPrompt(playerCards, dealerUpcard);
+/** Memory variants: the contestant's own hands today (its bankroll's session) appended to bet and decision prompts. */
+function withHandMemory(provider: AIProvider, prompt: string): string {
+  if (promptVariantOf(provider).name !== "memory") return prompt;
+  return withSessionMemory(prompt, buildHandMemory(getBlackjackHands(provider.id, today()), config.aiMemoryWindow));
+}
+
+function blackjackPromptFor(
+  provider: AIProvider,
+  playerCards: Card[],
+  dealerUpcard: Card,
+  options?: BlackjackPromptOptions
+): string {
+  return withHandMemory(provider, promptsFor(provider).decision(playerCards, dealerUpcard, options));
 }
 
 function betPromptFor(
@@ -29,14 +57,15 @@ function betPromptFor(
   minBetCents: number,
   maxBetCents: number,
   playerCards?: Card[],
-  dealerUpcard?: Card
+  dealerUpcard?: Card,
+  rules?: TableRules,
+  seen?: ShoeView
 ): string {
-  return provider.id === "hedera-knowledge"
-    ? buildBetPromptWithRules(balanceCents, minBetCents, maxBetCents, playerCards, dealerUpcard)
-    : buildBetPrompt(balanceCents, minBetCents, maxBetCents, playerCards, dealerUpcard);
+  return withHandMemory(provider, promptsFor(provider).bet(balanceCents, minBetCents, maxBetCents, playerCards, dealerUpcard, rules, seen));
 }
 import { submitAiResult } from "../../hedera/hcs.js";
-import { appendBlackjackHand } from "../../hedera/blackjack-hand-store.js";
+import type { BlackjackTableSeatPayload } from "../../hedera/schema.js";
+import { appendBlackjackHand, getBlackjackHandModelIds, getBlackjackHands } from "../../hedera/blackjack-hand-store.js";
 
 const BLACKJACK_DAILY_CENTS = config.blackjackDailyCents;
 const MIN_BET_CENTS = config.blackjackMinBetCents;
@@ -51,33 +80,116 @@ function parseBetFromResponse(text: string): number | null {
   return Math.round(dollars * 100);
 }
 
+/** Smallest side bet accepted ($1, as the bet prompt says). */
+const MIN_SIDE_BET_CENTS = 100;
+
+type BetChoice = { betCents: number; sideBets: SideBetWager[]; reasoning: string | null };
+
+/**
+ * Ask for the main bet and any side bets the rules offer. The main bet is clamped to the limits;
+ * each side bet is capped at the main bet and together they must fit in the rest of the bankroll.
+ */
+async function askBet(opts: {
+  provider: AIProvider;
+  balanceCents: number;
+  minBetCents: number;
+  maxBetCents: number;
+  playerCards?: Card[];
+  dealerUpcard?: Card;
+  rules: TableRules;
+  seen?: ShoeView;
+  /** Extra context appended to the bet prompt (e.g. tournament standings). */
+  note?: string;
+  compliance?: Compliance;
+  usage?: UsageTotals;
+}): Promise<BetChoice> {
+  const { provider, balanceCents, minBetCents, maxBetCents, rules } = opts;
+  const prompt = betPromptFor(provider, balanceCents, minBetCents, maxBetCents, opts.playerCards, opts.dealerUpcard, rules, opts.seen);
+  const ctx = { playerCards: opts.playerCards, dealerUpcard: opts.dealerUpcard };
+  const { response, text, reply, events } = await askFor(provider, "blackjack_bet", opts.note ? `${prompt}\n\n${opts.note}` : prompt, ctx);
+  addUsage(opts.usage, response.usage);
+  const rawBetCents = reply ? Math.round(reply.bet * 100) : parseBetFromResponse(text);
+  const betCents = rawBetCents != null ? Math.max(minBetCents, Math.min(maxBetCents, rawBetCents)) : minBetCents;
+  if (rawBetCents == null) {
+    if (!response.failure) events.push({ field: "bet", issue: "unparsed", detail: "no BET line; minimum bet placed" });
+  } else if (rawBetCents !== betCents) events.push({ field: "bet", issue: "clamped", detail: `${rawBetCents} -> ${betCents} cents` });
+
+  const wagers: SideBetWager[] = reply
+    ? reply.sideBets.map((b) => ({ kind: b.kind, cents: Math.round(b.amount * 100) })).filter((w) => w.cents > 0)
+    : parseSideBets(text, rules.sideBets);
+  let spareCents = balanceCents - betCents;
+  const sideBets: SideBetWager[] = [];
+  for (const wager of wagers) {
+    if (!rules.sideBets.includes(wager.kind) || sideBets.some((b) => b.kind === wager.kind)) {
+      events.push({ field: "side_bet", issue: "not_offered", detail: wager.kind });
+      continue;
+    }
+    const cents = Math.min(wager.cents, betCents, spareCents);
+    if (cents !== wager.cents) events.push({ field: "side_bet", issue: "clamped", detail: `${wager.kind} ${wager.cents} -> ${cents < MIN_SIDE_BET_CENTS ? 0 : cents} cents` });
+    if (cents < MIN_SIDE_BET_CENTS) continue;
+    sideBets.push({ kind: wager.kind, cents });
+    spareCents -= cents;
+  }
+  recordAsk(opts.compliance, events);
+  return { betCents, sideBets, reasoning: reply?.reasoning ?? response.reasoning ?? null };
+}
+
 type DateString = string; // YYYY-MM-DD
 
 function today(): DateString {
   return new Date().toISOString().slice(0, 10);
 }
 
-/** Create a forced blackjack (21) deal for testing: player gets A+10, dealer 6 + other. */
-function createForced21Deal(): {
-  deck: Card[];
+/** Deal a forced blackjack (21) from the shoe for testing: player gets A+10, dealer 6 + next card. */
+function dealForced21(shoe: Shoe): {
   playerCards: [Card, Card];
   dealerUpcard: Card;
   dealerDown: Card;
 } {
-  const deck = createDeck();
-  const ace = deck.find((c) => c.startsWith("A"))!;
-  const ten = deck.find((c) => ["10", "J", "Q", "K"].includes(c.slice(0, -1)))!;
-  const six = deck.find((c) => c.startsWith("6"))!;
-  const other = deck.find((c) => c !== ace && c !== ten && c !== six)!;
-  const removed = new Set([ace, ten, six, other]);
+  const ace = shoe.takeCard((c) => c.startsWith("A")) ?? shoe.draw();
+  const ten = shoe.takeCard((c) => ["10", "J", "Q", "K"].includes(c.slice(0, -1))) ?? shoe.draw();
+  const six = shoe.takeCard((c) => c.startsWith("6")) ?? shoe.draw();
   return {
-    deck: deck.filter((c) => !removed.has(c)),
-    playerCards: [ace, ten] as [Card, Card],
+    playerCards: [ace, ten],
     dealerUpcard: six,
-    dealerDown: other,
+    dealerDown: shoe.draw(),
   };
 }
 
+/** Reshuffle event between rounds. seedHash is the commitment for the new shoe (seed revealed when it is retired). */
+export type ShuffleEvent = { type: "shuffle"; decks: number; cards: number; cutCardAt: number; shuffleCount: number; seedHash: string };
+
+/** Publish commitments (and reveals of the seeds they replace) for shuffles not yet on HCS. */
+async function publishShuffles(tableId: string, shoe: Shoe): Promise<void> {
+  for (const { committed, revealed } of shoe.takeUnpublishedShuffles()) {
+    if (revealed) await publishReveal(tableId, revealed);
+    await publishCommit(tableId, committed);
+  }
+}
+
+/**
+ * Shuffle the shoe if its cut card has come out (or it is new) and commit the new seed before any
+ * card is dealt; returns the event to emit, if any.
+ */
+async function shuffleBeforeRound(tableId: string, shoe: Shoe): Promise<ShuffleEvent | null> {
+  const shuffled = shoe.shuffleIfNeeded();
+  await publishShuffles(tableId, shoe);
+  const commitment = shoe.commitment();
+  if (!shuffled || !commitment) return null;
+  return { type: "shuffle", decks: shoe.decks, cards: shoe.remaining(), cutCardAt: shoe.cutCardAt, shuffleCount: shoe.shuffleCount(), seedHash: commitment.seedHash };
+}
+
+/**
+ * Shoe positions of a round's cards, from the position before the deal to now. Undefined when the
+ * shoe ran out mid-round (the round then spans two seeds); that reshuffle's commitment is published late.
+ */
+function dealRecordSince(tableId: string, shoe: Shoe, from: number, nonce: number): DealRecord | undefined {
+  publishShuffles(tableId, shoe).catch(() => {});
+  const commitment = shoe.commitment();
+  if (!commitment || commitment.nonce !== nonce) return undefined;
+  return { seedHash: commitment.seedHash, nonce, from, to: shoe.position() };
+}
+
 /** Ensure AI model exists in ai_models (for FK). */
 export async function ensureAIModel(modelId: string, name: string): Promise<void> {
   await query(
@@ -124,7 +236,7 @@ export async function deductBet(
   return row.balance_cents;
 }
 
-/** Credit winnings (or refund push). */
+/** Credit a settled hand: the returned stake plus P&L (stake alone on a push, nothing on a full loss). */
 export async function creditResult(
   modelId: string,
   date: DateString,
@@ -138,8 +250,8 @@ export async function creditResult(
   );
 }
 
-/** Ask AI how much to bet this hand; returns clamped bet in cents. */
-export async function getAIBetCents(modelId: string): Promise<number> {
+/** Ask AI how much to bet this hand; returns clamped bet in cents. Fallbacks and clamps go to compliance, the call to usage. */
+export async function getAIBetCents(modelId: string, compliance?: Compliance, usage?: UsageTotals): Promise<number> {
   const date = today();
   const provider = getAIProvider(modelId);
   if (!provider) throw new Error(`Unknown AI model: ${modelId}`);
@@ -147,20 +259,342 @@ export async function getAIBetCents(modelId: string): Promise<number> {
   const balance = await getOrCreateDailyBankroll(modelId, "blackjack", date);
   const handMaxBet = Math.min(balance, MAX_BET_CENTS);
   if (balance < MIN_BET_CENTS) throw new Error("Insufficient bankroll");
-  const betPrompt =
-    provider.id === "hedera-knowledge"
-      ? buildBetPromptWithRules(balance, MIN_BET_CENTS, handMaxBet)
-      : buildBetPrompt(balance, MIN_BET_CENTS, handMaxBet);
-  const betResponse = await provider.ask(betPrompt);
-  const textToParse = betResponse.raw ?? [betResponse.decision, betResponse.reasoning].filter(Boolean).join(" ");
-  const raw = parseBetFromResponse(textToParse);
-  return raw != null ? Math.max(MIN_BET_CENTS, Math.min(handMaxBet, raw)) : MIN_BET_CENTS;
+  const { betCents } = await askBet({ provider, balanceCents: balance, minBetCents: MIN_BET_CENTS, maxBetCents: handMaxBet, rules: resolveTableRules(), compliance, usage });
+  return betCents;
+}
+
+/** Actions in the order normalizeDecision matches them. */
+const PLAYER_ACTIONS: PlayerAction[] = ["surrender", "split", "double", "hit", "stand"];
+
+/** A text reply must carry a DECISION line; otherwise the provider's fallback guess was played. */
+function decisionLineEvents(text: string): ComplianceEvent[] {
+  return /DECISION:\s*\**\s*(hit|stand|double|split|surrender)\b/i.test(text) ? [] : [{ field: "decision", issue: "unparsed", detail: "no DECISION line" }];
+}
+
+/**
+ * Ask for one hit/stand/double/split/surrender decision, streaming reasoning chunks when the provider supports it
+ * (structured replies are not streamed). Events cover the reply format; the offered actions are checked by the caller.
+ * A provider that failed to answer stands.
+ */
+async function askDecision(
+  provider: AIProvider,
+  prompt: string,
+  ctx: AIAskContext | undefined,
+  onChunk: (text: string) => void
+): Promise<{ decision: string; reasoning: string | null; events: ComplianceEvent[]; usage?: AIUsage }> {
+  const askStream = provider.askStream?.bind(provider);
+  if (provider.askStructured || !askStream) {
+    const { response, text, reply, events } = await askFor(provider, "blackjack_decision", prompt, ctx);
+    if (response.failure) return { decision: "stand", reasoning: response.reasoning ?? null, events, usage: response.usage };
+    if (reply) return { decision: reply.decision, reasoning: reply.reasoning || null, events, usage: response.usage };
+    return { decision: response.decision, reasoning: response.reasoning ?? null, events: [...events, ...decisionLineEvents(text)], usage: response.usage };
+  }
+  const started = Date.now();
+  let reasoningAccum = "";
+  const gen = askStream(prompt, ctx);
+  let next = await gen.next();
+  while (!next.done) {
+    const chunk = next.value as string;
+    reasoningAccum += chunk;
+    onChunk(chunk);
+    next = await gen.next();
+  }
+  const result = next.value;
+  if (result.failure) return { decision: "stand", reasoning: result.reasoning ?? null, events: noReplyEvents(result), usage: result.usage };
+  return {
+    decision: result.decision,
+    reasoning: result.reasoning ?? (reasoningAccum.trim() || null),
+    events: decisionLineEvents(result.raw ?? reasoningAccum),
+    usage: result.usage ?? usageFor(null, 0, 0, Date.now() - started),
+  };
+}
+
+/** Insurance (half the bet, pays 2:1) or even money (a natural paid 1:1) taken against a dealer ace. */
+export type InsuranceBet = { kind: "insurance" | "even_money"; cents: number };
+
+/** Parse INSURANCE: yes|no (also EVEN MONEY: yes|no); null when there is no answer (which declines). */
+function parseInsuranceFromResponse(text: string): boolean | null {
+  const match = text.match(/(?:INSURANCE|EVEN[\s_-]*MONEY):\s*(yes|no|y|n|true|false)/i);
+  return match ? /^(yes|y|true)$/i.test(match[1]) : null;
+}
+
+/**
+ * Offer insurance, or even money on a natural, when the dealer shows an ace and the rules allow it.
+ * Insurance must fit in the bankroll left after the bet; even money costs nothing extra.
+ */
+export async function offerInsurance(opts: {
+  provider: AIProvider;
+  rules: TableRules;
+  playerCards: Card[];
+  dealerUpcard: Card;
+  betCents: number;
+  spareCents: number;
+  onEvent: (ev: TurnEvent) => void;
+  compliance?: Compliance;
+  usage?: UsageTotals;
+}): Promise<InsuranceBet | null> {
+  const { provider, playerCards, dealerUpcard, betCents, onEvent } = opts;
+  if (!opts.rules.insurance || !dealerUpcard.startsWith("A")) return null;
+  const evenMoney = isBlackjack(playerCards);
+  const cents = evenMoney ? 0 : Math.floor(betCents / 2);
+  if (!evenMoney && (cents <= 0 || cents > opts.spareCents)) return null;
+  const prompt = promptsFor(provider).insurance(playerCards, dealerUpcard, betCents, cents, evenMoney);
+  const { response, text, reply, events } = await askFor(provider, "blackjack_insurance", prompt, { playerCards, dealerUpcard, betCents });
+  addUsage(opts.usage, response.usage);
+  const answer = reply ? reply.insurance : parseInsuranceFromResponse(text);
+  if (answer == null && !response.failure) events.push({ field: "insurance", issue: "unparsed", detail: "no INSURANCE line; declined" });
+  recordAsk(opts.compliance, events);
+  const taken = answer === true;
+  const kind = evenMoney ? "even_money" : "insurance";
+  onEvent({ type: "insurance", kind, taken, insuranceCents: cents, reasoning: reply?.reasoning ?? response.reasoning ?? null });
+  return taken ? { kind, cents } : null;
+}
+
+/** The dealer checks the hole card under an ace or ten-value upcard at peek tables. */
+export function dealerPeeks(rules: TableRules, dealerUpcard: Card): boolean {
+  return rules.dealerPeek && cardValue(dealerUpcard) >= 10;
+}
+
+/** The dealer draws only while some hand is still live (not bust, surrendered or a natural). */
+export function dealerMustPlay(hands: PlayerHand[]): boolean {
+  return hands.some((h) => !isBust(h.cards) && !h.surrendered && !isNatural(h));
+}
+
+/** Player-turn events shared by the single and VS streams. subHand (1-based) is set once the player has split. */
+export type TurnEvent =
+  | { type: "insurance"; kind: "insurance" | "even_money"; taken: boolean; insuranceCents: number; reasoning: string | null }
+  | { type: "reasoning_chunk"; text: string }
+  /** optimal / evLossCents: basic-strategy grade of the decision (strategy.ts) */
+  | { type: "decision"; decision: string; reasoning: string | null; subHand?: number; optimal: PlayerAction; evLossCents: number }
+  | { type: "player_card"; card: Card; playerCards: Card[]; playerTotal: number; subHand?: number }
+  | { type: "double"; card: Card; betCents: number; playerCards: Card[]; playerTotal: number; subHand?: number }
+  | { type: "split"; hands: { playerCards: Card[]; playerTotal: number; betCents: number }[] }
+  | { type: "sub_hand_start"; subHand: number; handCount: number; playerCards: Card[]; playerTotal: number };
+
+export type PlayerTurnResult = {
+  hands: PlayerHand[];
+  /** split if the player split, otherwise the last action taken (matches blackjack_hands.decision). */
+  decision: PlayerAction;
+  reasoning: string | null;
+  /** Basic-strategy grade of every decision, in order. */
+  grades: DecisionGrade[];
+};
+
+/**
+ * Play the player's side of a round: re-ask until each hand stands, busts, doubles or surrenders.
+ * Doubles and splits stake another bet via addWager; split hands are played left to right.
+ * A natural (or a round already ended by a peeked dealer blackjack) is not played at all.
+ */
+export async function playPlayerTurn(opts: {
+  provider: AIProvider;
+  handId: string;
+  /** Any card source: a table shoe or a fixed duplicate deal. */
+  shoe: Pick<Shoe, "draw">;
+  rules: TableRules;
+  /** Round already decided before the player acts (dealer blackjack on peek, or even money taken). */
+  skip?: boolean;
+  playerCards: Card[];
+  dealerUpcard: Card;
+  betCents: number;
+  /** Bankroll left after the opening bet; a double or split must fit in it. */
+  spareCents: number;
+  addWager: (cents: number) => Promise<void>;
+  onEvent: (ev: TurnEvent) => void;
+  compliance?: Compliance;
+  usage?: UsageTotals;
+}): Promise<PlayerTurnResult> {
+  const { provider, shoe, rules, dealerUpcard, onEvent } = opts;
+  const hands: PlayerHand[] = [newPlayerHand([...opts.playerCards], opts.betCents)];
+  if (opts.skip || isNatural(hands[0])) return { hands, decision: "stand", reasoning: null, grades: [] };
+  const grades: DecisionGrade[] = [];
+  let spareCents = opts.spareCents;
+  let lastDecision: PlayerAction = "stand";
+  let lastReasoning: string | null = null;
+  let step = 0;
+
+  for (let i = 0; i < hands.length; i++) {
+    const hand = hands[i];
+    const subHand = () => (hands.length > 1 ? i + 1 : undefined);
+    const drawTo = () => {
+      const card = shoe.draw();
+      hand.cards.push(card);
+      return card;
+    };
+
+    if (i > 0) {
+      onEvent({ type: "sub_hand_start", subHand: i + 1, handCount: hands.length, playerCards: [...hand.cards], playerTotal: handValue(hand.cards) });
+      const card = drawTo();
+      onEvent({ type: "player_card", card, playerCards: [...hand.cards], playerTotal: handValue(hand.cards), subHand: subHand() });
+      if (hand.splitAces) continue;
+    }
+
+    while (!isBust(hand.cards)) {
+      step++;
+      const actions = availableActions(hand, hands.length, spareCents >= hand.betCents, rules);
+      const prompt = blackjackPromptFor(provider, hand.cards, dealerUpcard, { actions, handNumber: i + 1, handCount: hands.length, rules });
+      const ctx = { handId: opts.handId, step, playerCards: [...hand.cards], dealerUpcard, betCents: hand.betCents };
+      const res = await askDecision(provider, prompt, ctx, (text) => onEvent({ type: "reasoning_chunk", text }));
+      const decision = normalizeDecision(res.decision, actions);
+      const named = PLAYER_ACTIONS.find((a) => res.decision.trim().toLowerCase().startsWith(a));
+      if (named && named !== decision) res.events.push({ field: "decision", issue: "not_offered", detail: `${named} -> ${decision}` });
+      else if (!named && res.events.length === 0) res.events.push({ field: "decision", issue: "unparsed", detail: `"${res.decision.slice(0, 20)}" -> ${decision}` });
+      recordAsk(opts.compliance, res.events);
+      addUsage(opts.usage, res.usage);
+      const grade = gradeDecision(hand.cards, dealerUpcard, rules, actions, decision, hand.betCents);
+      grades.push(grade);
+      hand.actions.push(decision);
+      lastDecision = decision;
+      lastReasoning = res.reasoning;
+      onEvent({ type: "decision", decision, reasoning: res.reasoning, subHand: subHand(), optimal: grade.optimal, evLossCents: grade.evLossCents });
+
+      if (decision === "stand") break;
+      if (decision === "surrender") {
+        hand.surrendered = true;
+        break;
+      }
+      if (decision === "hit") {
+        const card = drawTo();
+        onEvent({ type: "player_card", card, playerCards: [...hand.cards], playerTotal: handValue(hand.cards), subHand: subHand() });
+        continue;
+      }
+
+      await opts.addWager(hand.betCents);
+      spareCents -= hand.betCents;
+      if (decision === "double") {
+        hand.betCents *= 2;
+        hand.doubled = true;
+        const card = drawTo();
+        onEvent({ type: "double", card, betCents: hand.betCents, playerCards: [...hand.cards], playerTotal: handValue(hand.cards), subHand: subHand() });
+        break;
+      }
+
+      // split: the second card starts a new hand (dealt its own second card when its turn comes)
+      const aces = hand.cards[0].startsWith("A");
+      const moved = hand.cards.pop()!;
+      hand.fromSplit = true;
+      hand.splitAces = aces;
+      hands.splice(i + 1, 0, { ...newPlayerHand([moved], hand.betCents), fromSplit: true, splitAces: aces });
+      drawTo();
+      onEvent({
+        type: "split",
+        hands: hands.map((h) => ({ playerCards: [...h.cards], playerTotal: handValue(h.cards), betCents: h.betCents })),
+      });
+      if (aces) break;
+    }
+  }
+
+  return { hands, decision: hands.length > 1 ? "split" : lastDecision, reasoning: lastReasoning, grades };
+}
+
+/** One settled hand of a round (a round has several after a split). */
+export type SettledHand = {
+  playerCards: Card[];
+  betCents: number;
+  outcome: "win" | "loss" | "push";
+  pnlCents: number;
+  actions: PlayerAction[];
+};
+
+export type SettledRound = {
+  hands: SettledHand[];
+  /** Total staked across all hands, including doubles, splits and insurance. */
+  wageredCents: number;
+  /** Round P&L, including the insurance side bet. */
+  pnlCents: number;
+  outcome: "win" | "loss" | "push";
+  rules: TableRules;
+  insurance?: InsuranceBet & { pnlCents: number };
+  /** Side bets settled on the initial deal (sidebets.ts); included in wageredCents and pnlCents. */
+  sideBets?: SideBetResult[];
+};
+
+export function settleRound(
+  hands: PlayerHand[],
+  dealerCards: Card[],
+  rules: TableRules,
+  insurance?: InsuranceBet | null,
+  sideBets?: SideBetResult[]
+): SettledRound {
+  const settled: SettledHand[] = hands.map((h) => ({ playerCards: [...h.cards], betCents: h.betCents, actions: [...h.actions], ...settlePlayerHand(h, dealerCards, rules) }));
+  // Even money: the natural is paid 1:1 whatever the dealer holds
+  if (insurance?.kind === "even_money") settled[0] = { ...settled[0], outcome: "win", pnlCents: settled[0].betCents };
+  const insurancePnl = insurance?.kind === "insurance" ? (isBlackjack(dealerCards) ? insurance.cents * 2 : -insurance.cents) : 0;
+  const sideWagered = (sideBets ?? []).reduce((s, b) => s + b.cents, 0);
+  const sidePnl = (sideBets ?? []).reduce((s, b) => s + b.pnlCents, 0);
+  const wageredCents = settled.reduce((s, h) => s + h.betCents, 0) + (insurance?.cents ?? 0) + sideWagered;
+  const pnlCents = settled.reduce((s, h) => s + h.pnlCents, 0) + insurancePnl + sidePnl;
+  const outcome = pnlCents > 0 ? "win" : pnlCents < 0 ? "loss" : "push";
+  return {
+    hands: settled,
+    wageredCents,
+    pnlCents,
+    outcome,
+    rules,
+    insurance: insurance ? { ...insurance, pnlCents: insurancePnl } : undefined,
+    sideBets: sideBets?.length ? sideBets : undefined,
+  };
+}
+
+/** Inference totals for HCS, with the cost rounded to a millionth of a dollar. */
+function inferencePayload(usage: UsageTotals): UsageTotals {
+  return { ...usage, costUsd: Math.round(usage.costUsd * 1e6) / 1e6 };
+}
+
+/** Sub-hand detail for storage/HCS; undefined unless the player split. */
+function splitHandsOf(round: SettledRound): { cards: string[]; betCents: number; outcome: string; pnlCents: number }[] | undefined {
+  if (round.hands.length < 2) return undefined;
+  return round.hands.map((h) => ({ cards: [...h.playerCards], betCents: h.betCents, outcome: h.outcome, pnlCents: h.pnlCents }));
+}
+
+async function insertHandRow(
+  handId: string,
+  modelId: string,
+  date: DateString,
+  round: SettledRound,
+  dealerUpcard: Card,
+  decision: PlayerAction,
+  reasoning: string | null,
+  deal: DealRecord | undefined,
+  strategy: StrategySummary,
+  count?: HandCount,
+  compliance?: Compliance,
+  usage?: UsageTotals
+): Promise<void> {
+  const subHands = splitHandsOf(round);
+  await query(
+    `INSERT INTO blackjack_hands (id, model_id, date, bet_cents, player_cards, dealer_upcard, decision, reasoning, outcome, pnl_cents, sub_hands, rules, deal, strategy, hilo, side_bets, compliance, inference)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
+    [
+      handId,
+      modelId,
+      date,
+      round.wageredCents,
+      JSON.stringify(round.hands[0].playerCards),
+      dealerUpcard,
+      decision,
+      reasoning,
+      round.outcome,
+      round.pnlCents,
+      subHands ? JSON.stringify(subHands) : null,
+      rulesCode(round.rules),
+      deal ? JSON.stringify(deal) : null,
+      JSON.stringify(strategy),
+      count ? JSON.stringify(count) : null,
+      round.sideBets ? JSON.stringify(round.sideBets) : null,
+      compliance ? JSON.stringify(compliance) : null,
+      usage ? JSON.stringify(usage) : null,
+    ]
+  );
 }
 
 /** Play one hand: ask AI, resolve, log, update bankroll. */
 export async function playHand(
   modelId: string,
-  betCents: number
+  betCents: number,
+  rulesOverrides?: Partial<TableRules>,
+  /** Compliance and usage so far (e.g. from getAIBetCents); the hand's own asks are added to them. */
+  compliance: Compliance = newCompliance(),
+  usage: UsageTotals = newUsage()
 ): Promise<{
   handId: string;
   playerCards: Card[];
@@ -172,8 +606,15 @@ export async function playHand(
   outcome: "win" | "loss" | "push";
   pnlCents: number;
   balanceCentsAfter: number;
+  hands: SettledHand[];
+  rules: TableRules;
+  deal?: DealRecord;
+  strategy: StrategySummary;
+  compliance: Compliance;
+  usage: UsageTotals;
 }> {
   const date = today();
+  const rules = resolveTableRules(rulesOverrides);
   const provider = getAIProvider(modelId);
   if (!provider) throw new Error(`Unknown AI model: ${modelId}`);
   await ensureAIModel(provider.id, provider.name);
@@ -181,93 +622,93 @@ export async function playHand(
   const balance = await getOrCreateDailyBankroll(modelId, "blackjack", date);
   if (balance < betCents) throw new Error("Insufficient bankroll for this bet");
 
-  const deck = createDeck();
-  const playerCards: Card[] = [deck.pop()!, deck.pop()!];
-  const dealerUpcard = deck.pop()!;
-  const dealerDown = deck.pop()!;
+  const tableId = singleTableId(modelId);
+  const shoe = getTableShoe(tableId);
+  await shuffleBeforeRound(tableId, shoe);
+  const dealFrom = shoe.position();
+  const nonce = shoe.shuffleCount();
+  const playerCards: Card[] = [shoe.draw(), shoe.draw()];
+  const dealerUpcard = shoe.draw();
+  const dealerDown = shoe.draw();
   const handId = randomUUID();
 
-  const prompt = blackjackPromptFor(provider, playerCards, dealerUpcard);
-  const ctx = provider.id === "hedera-knowledge"
-    ? { handId, step: 1, playerCards: [...playerCards], dealerUpcard, betCents }
-    : undefined;
-  const { decision, reasoning } = await provider.ask(prompt, ctx);
-
-  const normalizedDecision = decision.toLowerCase().startsWith("hit") ? "hit" : "stand";
-
-  if (normalizedDecision === "hit") {
-    playerCards.push(deck.pop()!);
-  }
-  // else stand
+  await deductBet(modelId, date, betCents);
+  const insurance = await offerInsurance({ provider, rules, playerCards, dealerUpcard, betCents, spareCents: balance - betCents, onEvent: () => {}, compliance, usage });
+  if (insurance?.cents) await deductBet(modelId, date, insurance.cents);
+  const dealerBlackjack = dealerPeeks(rules, dealerUpcard) && isBlackjack([dealerUpcard, dealerDown]);
+  const turn = await playPlayerTurn({
+    provider,
+    handId,
+    shoe,
+    rules,
+    skip: dealerBlackjack || insurance?.kind === "even_money",
+    playerCards,
+    dealerUpcard,
+    betCents,
+    spareCents: balance - betCents - (insurance?.cents ?? 0),
+    addWager: async (cents) => {
+      await deductBet(modelId, date, cents);
+    },
+    onEvent: () => {},
+    compliance,
+    usage,
+  });
 
-  const dealerCards = [dealerUpcard, dealerDown];
-  if (!isBust(playerCards)) {
-    const dealerFinal = dealerPlays(deck, dealerCards);
-    dealerCards.length = 0;
-    dealerCards.push(...dealerFinal);
+  let dealerCards: Card[] = [dealerUpcard, dealerDown];
+  if (dealerMustPlay(turn.hands)) {
+    dealerCards = dealerPlays(shoe.draw, dealerCards, rules);
   }
 
-  const outcome = isBust(playerCards)
-    ? "loss"
-    : resolveHand(playerCards, dealerCards);
-  const pnlCents =
-    outcome === "win"
-      ? betCents
-      : outcome === "loss"
-        ? -betCents
-        : 0;
-
-  await deductBet(modelId, date, betCents);
-  await creditResult(modelId, date, pnlCents);
-
-  await query(
-    `INSERT INTO blackjack_hands (id, model_id, date, bet_cents, player_cards, dealer_upcard, decision, reasoning, outcome, pnl_cents)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-    [
-      handId,
-      modelId,
-      date,
-      betCents,
-      JSON.stringify(playerCards),
-      dealerUpcard,
-      normalizedDecision,
-      reasoning ?? null,
-      outcome,
-      pnlCents,
-    ]
-  );
+  const round = settleRound(turn.hands, dealerCards, rules, insurance);
+  const deal = dealRecordSince(tableId, shoe, dealFrom, nonce);
+  await creditResult(modelId, date, round.wageredCents + round.pnlCents);
+  const strategy = summarizeGrades(turn.grades);
+  await insertHandRow(handId, modelId, date, round, dealerUpcard, turn.decision, turn.reasoning, deal, strategy, undefined, compliance, usage);
 
   const balanceRes = await query<{ balance_cents: number }>(
     `SELECT balance_cents FROM daily_bankrolls WHERE model_id = $1 AND domain = 'blackjack' AND date = $2`,
     [modelId, date]
   );
-  const balanceCentsAfter = Number(balanceRes.rows[0]?.balance_cents ?? balance - betCents + pnlCents);
+  const balanceCentsAfter = Number(balanceRes.rows[0]?.balance_cents ?? balance + round.pnlCents);
+  const firstHand = round.hands[0].playerCards;
 
   return {
     handId,
-    playerCards,
+    playerCards: firstHand,
     dealerCards,
-    playerTotal: handValue(playerCards),
+    playerTotal: handValue(firstHand),
     dealerTotal: handValue(dealerCards),
-    decision: normalizedDecision,
-    reasoning: reasoning ?? null,
-    outcome,
-    pnlCents: Number(pnlCents),
+    decision: turn.decision,
+    reasoning: turn.reasoning,
+    outcome: round.outcome,
+    pnlCents: round.pnlCents,
     balanceCentsAfter,
+    hands: round.hands,
+    rules,
+    deal,
+    strategy,
+    compliance,
+    usage,
   };
 }
 
 /** Stream event types for live casino-style playback */
+/** Table-level events shared by the single and VS streams */
+export type TableEvent =
+  | ShuffleEvent
+  | { type: "table_rules"; rules: TableRules; code: string }
+  | { type: "dealer_peek"; dealerUpcard: Card; blackjack: boolean };
+
 export type StreamEvent =
+  | TableEvent
   | { type: "hand_start"; handIndex: number; totalHands: number }
-  | { type: "bet"; betCents: number; reasoning: string | null }
+  | { type: "bet"; betCents: number; reasoning: string | null; count?: HandCount; sideBets?: SideBetWager[] }
+  | { type: "side_bets"; sideBets: SideBetResult[] }
   | { type: "deal"; playerCards: Card[]; playerTotal: number; dealerUpcard: Card }
-  | { type: "reasoning_chunk"; text: string }
-  | { type: "decision"; decision: string; reasoning: string | null }
-  | { type: "player_card"; card: Card; playerCards: Card[]; playerTotal: number }
+  | TurnEvent
   | { type: "dealer_reveal"; dealerCards: Card[]; dealerTotal: number }
   | { type: "dealer_draw"; card: Card; dealerCards: Card[]; dealerTotal: number }
-  | { type: "outcome"; outcome: "win" | "loss" | "push"; pnlCents: number; balanceCentsAfter: number }
+  | { type: "outcome"; outcome: "win" | "loss" | "push"; pnlCents: number; balanceCentsAfter: number; hands?: SettledHand[]; deal?: DealRecord; strategy?: StrategySummary; compliance?: Compliance; usage?: UsageTotals }
   | { type: "hand_end"; handIndex: number }
   | { type: "error"; message: string }
   | { type: "done" };
@@ -275,11 +716,17 @@ export type StreamEvent =
 export type PlayHandsStreamOptions = {
   /** Force first hand to be blackjack (A+10) to test AI uses reference data. */
   forcedDeal21?: boolean;
+  /** Counting mode: show the cards seen since the last shuffle in the bet prompt and record the true count. */
+  counting?: boolean;
+  /** Decks / penetration for this table's shoe (defaults from config). */
+  shoe?: Partial<ShoeOptions>;
+  /** Overrides for the table rules (defaults from BLACKJACK_RULES). */
+  rules?: Partial<TableRules>;
 };
 
 /**
  * Play N hands with step-by-step events (deal → reasoning → decision → cards → outcome).
- * Supports multiple hits per hand (re-ask AI until stand or bust). Emits events for live UI.
+ * Supports hit, stand, double, split and surrender (re-ask AI until each hand is finished). Emits events for live UI.
  */
 export async function playHandsStream(
   modelId: string,
@@ -298,8 +745,11 @@ export async function playHandsStream(
 
   let balance = await getOrCreateDailyBankroll(modelId, "blackjack", date);
   const totalHands = Math.max(1, Math.min(hands, 100));
-  const askStream = provider.askStream?.bind(provider);
   const effectiveMaxBet = maxBetCents > 0 ? Math.min(maxBetCents, MAX_BET_CENTS) : MAX_BET_CENTS;
+  const tableId = singleTableId(modelId);
+  const shoe = getTableShoe(tableId, options?.shoe);
+  const rules = resolveTableRules(options?.rules);
+  onEvent({ type: "table_rules", rules, code: rulesCode(rules) });
 
   for (let handIndex = 0; handIndex < totalHands; handIndex++) {
     const minBet = MIN_BET_CENTS;
@@ -308,372 +758,534 @@ export async function playHandsStream(
       onEvent({ type: "error", message: "Insufficient bankroll" });
       break;
     }
+    const shuffled = await shuffleBeforeRound(tableId, shoe);
+    if (shuffled) onEvent(shuffled);
     onEvent({ type: "hand_start", handIndex: handIndex + 1, totalHands });
     const handId = randomUUID();
+    const dealFrom = shoe.position();
+    const nonce = shoe.shuffleCount();
+    const seen = options?.counting ? shoeView(shoe) : undefined;
+    const compliance = newCompliance();
+    const usage = newUsage();
+
+    // With side bets on offer the round is bet before the deal (as at a casino), so side bets cannot see the cards;
+    // in counting mode too, so the bet is sized on the shoe it was made on
+    let bet: BetChoice | null = null;
+    let count: HandCount | undefined;
+    const betPlaced = (choice: BetChoice) => {
+      count = seen ? { ...countOf(seen), betCents: choice.betCents } : undefined;
+      onEvent({ type: "bet", betCents: choice.betCents, reasoning: choice.reasoning, count, sideBets: rules.sideBets.length > 0 ? choice.sideBets : undefined });
+      return choice;
+    };
+    if (rules.sideBets.length > 0 || seen) {
+      bet = betPlaced(await askBet({ provider, balanceCents: balance, minBetCents: minBet, maxBetCents: handMaxBet, rules, seen, compliance, usage }));
+    }
 
-    // Deal first so the AI can see their cards before betting
-    let deck: Card[];
+    // Otherwise deal first so the AI can see their cards before betting
     let playerCards: Card[];
     let dealerUpcard: Card;
     let dealerDown: Card;
     if (options?.forcedDeal21 && handIndex === 0) {
-      const forced = createForced21Deal();
-      deck = forced.deck;
+      const forced = dealForced21(shoe);
       playerCards = [...forced.playerCards];
       dealerUpcard = forced.dealerUpcard;
       dealerDown = forced.dealerDown;
     } else {
-      deck = createDeck();
-      playerCards = [deck.pop()!, deck.pop()!];
-      dealerUpcard = deck.pop()!;
-      dealerDown = deck.pop()!;
+      playerCards = [shoe.draw(), shoe.draw()];
+      dealerUpcard = shoe.draw();
+      dealerDown = shoe.draw();
     }
     onEvent({ type: "deal", playerCards: [...playerCards], playerTotal: handValue(playerCards), dealerUpcard });
 
     // AI decides how much to bet after seeing the initial deal
-    const betPrompt = betPromptFor(provider, balance, minBet, handMaxBet, playerCards, dealerUpcard);
-    const betResponse = await provider.ask(betPrompt);
-    const textToParse = betResponse.raw ?? [betResponse.decision, betResponse.reasoning].filter(Boolean).join(" ");
-    const rawBetCents = parseBetFromResponse(textToParse);
-    const betCents = rawBetCents != null
-      ? Math.max(minBet, Math.min(handMaxBet, rawBetCents))
-      : minBet;
-    onEvent({ type: "bet", betCents, reasoning: betResponse.reasoning ?? null });
-
-    let lastDecision = "stand";
-    let lastReasoning: string | null = null;
-    let reasoningAccum = "";
-    let step = 0;
-
-    // Player turn: hit or stand (multiple hits until stand or bust)
-    while (true) {
-      step++;
-      const prompt = blackjackPromptFor(provider, playerCards, dealerUpcard);
-      const ctx = provider.id === "hedera-knowledge"
-        ? { handId, step, playerCards: [...playerCards], dealerUpcard, betCents }
-        : undefined;
-      if (askStream) {
-        lastReasoning = null;
-        reasoningAccum = "";
-        let result: { decision: string; reasoning?: string };
-        const gen = askStream(prompt, ctx);
-        let next = await gen.next();
-        while (!next.done) {
-          const chunk = next.value as string;
-          reasoningAccum += chunk;
-          onEvent({ type: "reasoning_chunk", text: chunk });
-          next = await gen.next();
-        }
-        result = next.value as { decision: string; reasoning?: string };
-        lastDecision = result.decision.toLowerCase().startsWith("hit") ? "hit" : "stand";
-        lastReasoning = result.reasoning ?? (reasoningAccum.trim() || null);
-      } else {
-        const res = await provider.ask(prompt, ctx);
-        lastDecision = res.decision.toLowerCase().startsWith("hit") ? "hit" : "stand";
-        lastReasoning = res.reasoning ?? null;
-      }
-      onEvent({ type: "decision", decision: lastDecision, reasoning: lastReasoning });
+    bet ??= betPlaced(await askBet({ provider, balanceCents: balance, minBetCents: minBet, maxBetCents: handMaxBet, playerCards, dealerUpcard, rules, seen, compliance, usage }));
+    const { betCents } = bet;
+    const sideBets = bet.sideBets.map((wager) => settleSideBet(wager, playerCards, dealerUpcard));
+    const sideCents = bet.sideBets.reduce((s, b) => s + b.cents, 0);
+    await deductBet(modelId, date, betCents + sideCents);
+    if (sideBets.length > 0) onEvent({ type: "side_bets", sideBets });
 
-      if (lastDecision !== "hit") break;
-      const newCard = deck.pop()!;
-      playerCards.push(newCard);
-      onEvent({
-        type: "player_card",
-        card: newCard,
-        playerCards: [...playerCards],
-        playerTotal: handValue(playerCards),
-      });
-      if (isBust(playerCards)) break;
-    }
+    // Insurance / even money against an ace, then the dealer peeks for blackjack
+    const insurance = await offerInsurance({ provider, rules, playerCards, dealerUpcard, betCents, spareCents: balance - betCents - sideCents, onEvent, compliance, usage });
+    if (insurance?.cents) await deductBet(modelId, date, insurance.cents);
+    const peeked = dealerPeeks(rules, dealerUpcard);
+    const dealerBlackjack = peeked && isBlackjack([dealerUpcard, dealerDown]);
+    if (peeked) onEvent({ type: "dealer_peek", dealerUpcard, blackjack: dealerBlackjack });
+
+    // Player turn: hit / stand / double / split / surrender until every hand is finished
+    const turn = await playPlayerTurn({
+      provider,
+      handId,
+      shoe,
+      rules,
+      skip: dealerBlackjack || insurance?.kind === "even_money",
+      playerCards,
+      dealerUpcard,
+      betCents,
+      spareCents: balance - betCents - sideCents - (insurance?.cents ?? 0),
+      addWager: async (cents) => {
+        await deductBet(modelId, date, cents);
+      },
+      onEvent,
+      compliance,
+      usage,
+    });
 
     // Dealer turn
     const dealerCards: Card[] = [dealerUpcard, dealerDown];
     onEvent({ type: "dealer_reveal", dealerCards: [...dealerCards], dealerTotal: handValue(dealerCards) });
-    while (handValue(dealerCards) < 17) {
-      const card = deck.pop()!;
+    while (dealerMustPlay(turn.hands) && dealerShouldHit(dealerCards, rules)) {
+      const card = shoe.draw();
       dealerCards.push(card);
       onEvent({ type: "dealer_draw", card, dealerCards: [...dealerCards], dealerTotal: handValue(dealerCards) });
     }
 
-    const outcome = isBust(playerCards) ? "loss" : resolveHand(playerCards, dealerCards);
-    const pnlCents = outcome === "win" ? betCents : outcome === "loss" ? -betCents : 0;
-    await deductBet(modelId, date, betCents);
-    await creditResult(modelId, date, pnlCents);
-    balance = balance - betCents + pnlCents;
+    const round = settleRound(turn.hands, dealerCards, rules, insurance, sideBets);
+    const deal = dealRecordSince(tableId, shoe, dealFrom, nonce);
+    const { outcome, pnlCents } = round;
+    await creditResult(modelId, date, round.wageredCents + pnlCents);
+    balance = balance + pnlCents;
     const balanceRes = await query<{ balance_cents: number }>(
       `SELECT balance_cents FROM daily_bankrolls WHERE model_id = $1 AND domain = 'blackjack' AND date = $2`,
       [modelId, date]
     );
     const balanceCentsAfter = Number(balanceRes.rows[0]?.balance_cents ?? balance);
 
-    await query(
-      `INSERT INTO blackjack_hands (id, model_id, date, bet_cents, player_cards, dealer_upcard, decision, reasoning, outcome, pnl_cents)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-      [
-        handId,
-        modelId,
-        date,
-        betCents,
-        JSON.stringify(playerCards),
-        dealerUpcard,
-        lastDecision,
-        lastReasoning,
-        outcome,
-        pnlCents,
-      ]
-    );
+    const strategy = summarizeGrades(turn.grades);
+    await insertHandRow(handId, modelId, date, round, dealerUpcard, turn.decision, turn.reasoning, deal, strategy, count, compliance, usage);
+    const firstHand = round.hands[0].playerCards;
+    const subHands = splitHandsOf(round);
 
     submitAiResult({
       domain: "blackjack",
       handId,
       modelId,
       date,
-      betCents,
+      betCents: round.wageredCents,
       outcome,
       pnlCents,
-      playerCards: [...playerCards],
+      playerCards: [...firstHand],
       dealerUpcard,
-      decision: lastDecision,
+      decision: turn.decision,
+      subHands,
+      rules: rulesCode(rules),
+      insurance: insurance?.kind,
+      deal,
+      strategy,
+      count,
+      sideBets: round.sideBets?.map(({ kind, cents, pnlCents }) => ({ kind, cents, pnlCents })),
+      compliance: { asks: compliance.asks, compliant: compliance.compliant },
+      usage: inferencePayload(usage),
     }).catch(() => {});
 
     appendBlackjackHand(modelId, {
       date,
-      betCents,
-      playerCards: [...playerCards],
+      betCents: round.wageredCents,
+      playerCards: [...firstHand],
       dealerUpcard,
-      decision: lastDecision,
-      reasoning: lastReasoning,
+      decision: turn.decision,
+      reasoning: turn.reasoning,
       outcome,
       pnlCents,
+      subHands,
+      rules: rulesCode(rules),
+      insurance: insurance?.kind,
+      deal,
+      strategy,
+      count,
+      sideBets: rules.sideBets.length > 0 ? round.sideBets ?? [] : undefined,
+      compliance,
+      usage,
     });
 
-    onEvent({ type: "outcome", outcome, pnlCents, balanceCentsAfter });
+    onEvent({ type: "outcome", outcome, pnlCents, balanceCentsAfter, hands: subHands ? round.hands : undefined, deal, strategy, compliance, usage });
     onEvent({ type: "hand_end", handIndex: handIndex + 1 });
   }
   onEvent({ type: "done" });
 }
 
-/** VS mode: events for two AIs at the same table */
-export type StreamEventVs =
+/** Seats per table (1–7, as at a casino table). */
+export const MAX_SEATS = 7;
+
+/** A seat's settled round. Seats are numbered 1..N in dealing order. */
+export type SeatResult = {
+  seat: number;
+  modelId: string;
+  outcome: "win" | "loss" | "push";
+  pnlCents: number;
+  balanceCentsAfter: number;
+  hands?: SettledHand[];
+  strategy?: StrategySummary;
+  compliance?: Compliance;
+  usage?: UsageTotals;
+};
+
+/** N-player mode: events for 1–7 AIs sharing one shoe and dealer, indexed by seat */
+export type StreamEventTable =
+  | TableEvent
+  | { type: "seats"; seats: { seat: number; modelId: string; name: string }[] }
   | { type: "hand_start"; handIndex: number; totalHands: number }
-  | { type: "deal_vs"; playerACards: Card[]; playerATotal: number; playerBCards: Card[]; playerBTotal: number; dealerUpcard: Card }
-  | { type: "bet"; player: "a" | "b"; betCents: number; reasoning: string | null }
-  | { type: "reasoning_chunk"; player: "a" | "b"; text: string }
-  | { type: "decision"; player: "a" | "b"; decision: string; reasoning: string | null }
-  | { type: "player_card"; player: "a" | "b"; card: Card; playerCards: Card[]; playerTotal: number }
+  | { type: "seat_out"; seat: number; modelId: string; reason: string }
+  | { type: "deal_table"; seats: { seat: number; modelId: string; playerCards: Card[]; playerTotal: number }[]; dealerUpcard: Card }
+  | { type: "bet"; seat: number; betCents: number; reasoning: string | null; count?: HandCount; sideBets?: SideBetWager[] }
+  | { type: "side_bets"; seat: number; sideBets: SideBetResult[] }
+  | (TurnEvent & { seat: number })
   | { type: "dealer_reveal"; dealerCards: Card[]; dealerTotal: number }
   | { type: "dealer_draw"; card: Card; dealerCards: Card[]; dealerTotal: number }
-  | { type: "outcome_vs"; playerA: { outcome: "win" | "loss" | "push"; pnlCents: number; balanceCentsAfter: number }; playerB: { outcome: "win" | "loss" | "push"; pnlCents: number; balanceCentsAfter: number } }
+  | { type: "outcome_table"; seats: SeatResult[]; deal?: DealRecord }
   | { type: "hand_end"; handIndex: number }
   | { type: "error"; message: string }
   | { type: "done" };
 
+export type PlayTableStreamOptions = {
+  /** Decks / penetration for this table's shoe (defaults from config). */
+  shoe?: Partial<ShoeOptions>;
+  /** Overrides for the table rules (defaults from BLACKJACK_RULES). */
+  rules?: Partial<TableRules>;
+  /** Shoe key; defaults to tableIdFor(modelIds). */
+  tableId?: string;
+  /** Stop the run when any seat cannot cover the minimum bet (otherwise that seat sits out). */
+  allSeatsRequired?: boolean;
+  /** Counting mode: show the cards seen since the last shuffle in the bet prompt and record the true count. */
+  counting?: boolean;
+  /**
+   * Tournament play: chip stacks by seat (updated in place) replace the daily bankrolls,
+   * and hands are not written to the DB, the hand store or HCS.
+   */
+  chips?: number[];
+  /** Extra line for a seat's bet prompt, e.g. its tournament standing. */
+  betNote?: (seat: number) => string;
+};
+
+/** Per-seat state for one round. */
+type SeatRound = {
+  seat: number;
+  modelId: string;
+  provider: AIProvider;
+  playerCards: Card[];
+  betCents: number;
+  /** Side-bet stakes and their results on the initial deal */
+  sideCents: number;
+  sideBets: SideBetResult[];
+  insurance: InsuranceBet | null;
+  count?: HandCount;
+  turn?: PlayerTurnResult;
+  compliance: Compliance;
+  usage: UsageTotals;
+};
+
 /**
- * Two AIs at the same table: same dealer, each has own hand and bankroll. Deal → each bets (after seeing cards) → A plays → B plays → dealer → resolve both.
+ * 1–7 AIs at one table: shared shoe and dealer, each seat has its own hand and bankroll.
+ * Deal (seat 1 first) → each seat bets (after seeing cards) → insurance → seats play in order → dealer → settle every seat.
  */
-export async function playHandsStreamVs(
-  modelIdA: string,
-  modelIdB: string,
+export async function playTableStream(
+  modelIds: string[],
   maxBetCents: number,
   hands: number,
-  onEvent: (ev: StreamEventVs) => void
+  onEvent: (ev: StreamEventTable) => void,
+  options?: PlayTableStreamOptions
 ): Promise<void> {
   const date = today();
-  const providerA = getAIProvider(modelIdA);
-  const providerB = getAIProvider(modelIdB);
-  if (!providerA || !providerB) {
-    onEvent({ type: "error", message: `Unknown model: ${!providerA ? modelIdA : modelIdB}` });
+  if (modelIds.length < 1 || modelIds.length > MAX_SEATS) {
+    onEvent({ type: "error", message: `A table seats 1 to ${MAX_SEATS} models` });
+    return;
+  }
+  if (new Set(modelIds).size !== modelIds.length) {
+    onEvent({ type: "error", message: "Each model can take only one seat" });
     return;
   }
-  await ensureAIModel(providerA.id, providerA.name);
-  await ensureAIModel(providerB.id, providerB.name);
+  const providers: AIProvider[] = [];
+  for (const modelId of modelIds) {
+    const provider = getAIProvider(modelId);
+    if (!provider) {
+      onEvent({ type: "error", message: `Unknown model: ${modelId}` });
+      return;
+    }
+    providers.push(provider);
+  }
+  for (const provider of providers) await ensureAIModel(provider.id, provider.name);
+  onEvent({ type: "seats", seats: providers.map((p, i) => ({ seat: i + 1, modelId: modelIds[i], name: p.name })) });
 
-  let balanceA = await getOrCreateDailyBankroll(modelIdA, "blackjack", date);
-  let balanceB = await getOrCreateDailyBankroll(modelIdB, "blackjack", date);
+  const chips = options?.chips;
+  const balances: number[] = chips ?? [];
+  if (!chips) for (const modelId of modelIds) balances.push(await getOrCreateDailyBankroll(modelId, "blackjack", date));
   const totalHands = Math.max(1, Math.min(hands, 100));
   const effectiveMaxBet = maxBetCents > 0 ? Math.min(maxBetCents, MAX_BET_CENTS) : MAX_BET_CENTS;
+  const tableId = options?.tableId ?? tableIdFor(modelIds);
+  const shoe = getTableShoe(tableId, options?.shoe);
+  const rules = resolveTableRules(options?.rules);
+  onEvent({ type: "table_rules", rules, code: rulesCode(rules) });
 
   for (let handIndex = 0; handIndex < totalHands; handIndex++) {
     const minBet = MIN_BET_CENTS;
-    const maxA = Math.min(balanceA, effectiveMaxBet);
-    const maxB = Math.min(balanceB, effectiveMaxBet);
-    if (balanceA < minBet || balanceB < minBet) {
+    const broke = modelIds.map((_, i) => balances[i] < minBet);
+    if (broke.every(Boolean) || (options?.allSeatsRequired && broke.some(Boolean))) {
       onEvent({ type: "error", message: "Insufficient bankroll" });
       break;
     }
+    const shuffled = await shuffleBeforeRound(tableId, shoe);
+    if (shuffled) onEvent(shuffled);
     onEvent({ type: "hand_start", handIndex: handIndex + 1, totalHands });
 
-    const deck = createDeck();
-    const playerACards: Card[] = [deck.pop()!, deck.pop()!];
-    const playerBCards: Card[] = [deck.pop()!, deck.pop()!];
-    const dealerUpcard = deck.pop()!;
-    const dealerDown = deck.pop()!;
+    const seats: SeatRound[] = [];
+    modelIds.forEach((modelId, i) => {
+      if (broke[i]) onEvent({ type: "seat_out", seat: i + 1, modelId, reason: "Insufficient bankroll" });
+      else seats.push({ seat: i + 1, modelId, provider: providers[i], playerCards: [], betCents: 0, sideCents: 0, sideBets: [], insurance: null, compliance: newCompliance(), usage: newUsage() });
+    });
+    const balanceOf = (s: SeatRound) => balances[s.seat - 1];
+
+    const dealFrom = shoe.position();
+    const nonce = shoe.shuffleCount();
+    const seen = options?.counting ? shoeView(shoe) : undefined;
+    // With side bets on offer, or in counting mode, every seat bets before the deal; otherwise after seeing its cards
+    const betsBeforeDeal = rules.sideBets.length > 0 || !!seen;
+    const bets = new Map<number, BetChoice>();
+    const takeBets = async (dealerUpcard?: Card) => {
+      for (const s of seats) {
+        const bet = await askBet({
+          provider: s.provider,
+          balanceCents: balanceOf(s),
+          minBetCents: minBet,
+          maxBetCents: Math.min(balanceOf(s), effectiveMaxBet),
+          playerCards: dealerUpcard ? s.playerCards : undefined,
+          dealerUpcard,
+          rules,
+          seen,
+          note: options?.betNote?.(s.seat),
+          compliance: s.compliance,
+          usage: s.usage,
+        });
+        bets.set(s.seat, bet);
+        s.betCents = bet.betCents;
+        s.sideCents = bet.sideBets.reduce((sum, b) => sum + b.cents, 0);
+        s.count = seen ? { ...countOf(seen), betCents: s.betCents } : undefined;
+        onEvent({ type: "bet", seat: s.seat, betCents: s.betCents, reasoning: bet.reasoning, count: s.count, sideBets: rules.sideBets.length > 0 ? bet.sideBets : undefined });
+      }
+    };
+    if (betsBeforeDeal) await takeBets();
+    for (const s of seats) s.playerCards = [shoe.draw(), shoe.draw()];
+    const dealerUpcard = shoe.draw();
+    const dealerDown = shoe.draw();
     onEvent({
-      type: "deal_vs",
-      playerACards: [...playerACards],
-      playerATotal: handValue(playerACards),
-      playerBCards: [...playerBCards],
-      playerBTotal: handValue(playerBCards),
+      type: "deal_table",
+      seats: seats.map((s) => ({ seat: s.seat, modelId: s.modelId, playerCards: [...s.playerCards], playerTotal: handValue(s.playerCards) })),
       dealerUpcard,
     });
 
-    const askBet = async (modelId: string, prov: AIProvider, balance: number, playerCards: Card[], up: Card): Promise<{ betCents: number; reasoning: string | null }> => {
-      const handMaxBet = Math.min(balance, effectiveMaxBet);
-      const betPrompt = betPromptFor(prov, balance, minBet, handMaxBet, playerCards, up);
-      const res = await prov.ask(betPrompt);
-      const text = res.raw ?? [res.decision, res.reasoning].filter(Boolean).join(" ");
-      const raw = parseBetFromResponse(text);
-      const betCents = raw != null ? Math.max(minBet, Math.min(handMaxBet, raw)) : minBet;
-      return { betCents, reasoning: res.reasoning ?? null };
-    };
+    if (!betsBeforeDeal) await takeBets(dealerUpcard);
+    for (const s of seats) {
+      if (!chips) await deductBet(s.modelId, date, s.betCents + s.sideCents);
+      s.sideBets = bets.get(s.seat)!.sideBets.map((wager) => settleSideBet(wager, s.playerCards, dealerUpcard));
+      if (s.sideBets.length > 0) onEvent({ type: "side_bets", seat: s.seat, sideBets: s.sideBets });
+    }
 
-    const betA = await askBet(modelIdA, providerA, balanceA, playerACards, dealerUpcard);
-    onEvent({ type: "bet", player: "a", betCents: betA.betCents, reasoning: betA.reasoning });
-    const betB = await askBet(modelIdB, providerB, balanceB, playerBCards, dealerUpcard);
-    onEvent({ type: "bet", player: "b", betCents: betB.betCents, reasoning: betB.reasoning });
+    for (const s of seats) {
+      s.insurance = await offerInsurance({
+        provider: s.provider,
+        rules,
+        playerCards: s.playerCards,
+        dealerUpcard,
+        betCents: s.betCents,
+        spareCents: balanceOf(s) - s.betCents - s.sideCents,
+        onEvent: (ev) => onEvent({ ...ev, seat: s.seat }),
+        compliance: s.compliance,
+        usage: s.usage,
+      });
+      if (s.insurance?.cents && !chips) await deductBet(s.modelId, date, s.insurance.cents);
+    }
+    const peeked = dealerPeeks(rules, dealerUpcard);
+    const dealerBlackjack = peeked && isBlackjack([dealerUpcard, dealerDown]);
+    if (peeked) onEvent({ type: "dealer_peek", dealerUpcard, blackjack: dealerBlackjack });
 
     const handId = randomUUID();
-    const playTurn = async (
-      player: "a" | "b",
-      provider: AIProvider,
-      playerCards: Card[],
-      onEv: (ev: StreamEventVs) => void
-    ): Promise<{ cards: Card[]; lastDecision: string; lastReasoning: string | null }> => {
-      const cards = [...playerCards];
-      let lastDecision = "stand";
-      let lastReasoning: string | null = null;
-      const askStream = provider.askStream?.bind(provider);
-      let step = 0;
-      while (true) {
-        step++;
-        const prompt = blackjackPromptFor(provider, cards, dealerUpcard);
-        const ctx = provider.id === "hedera-knowledge"
-          ? { handId, step, playerCards: [...cards], dealerUpcard }
-          : undefined;
-        if (askStream) {
-          let reasoningAccum = "";
-          const gen = askStream(prompt, ctx);
-          let next = await gen.next();
-          while (!next.done) {
-            const chunk = next.value as string;
-            reasoningAccum += chunk;
-            onEv({ type: "reasoning_chunk", player, text: chunk });
-            next = await gen.next();
-          }
-          const result = next.value as { decision: string; reasoning?: string };
-          lastDecision = result.decision.toLowerCase().startsWith("hit") ? "hit" : "stand";
-          lastReasoning = result.reasoning ?? (reasoningAccum.trim() || null);
-        } else {
-          const res = await provider.ask(prompt, ctx);
-          lastDecision = res.decision.toLowerCase().startsWith("hit") ? "hit" : "stand";
-          lastReasoning = res.reasoning ?? null;
-        }
-        onEv({ type: "decision", player, decision: lastDecision, reasoning: lastReasoning });
-        if (lastDecision !== "hit") break;
-        const newCard = deck.pop()!;
-        cards.push(newCard);
-        onEv({ type: "player_card", player, card: newCard, playerCards: [...cards], playerTotal: handValue(cards) });
-        if (isBust(cards)) break;
-      }
-      return { cards, lastDecision, lastReasoning };
-    };
-
-    const resultA = await playTurn("a", providerA, playerACards, onEvent);
-    const resultB = await playTurn("b", providerB, playerBCards, onEvent);
+    for (const s of seats) {
+      s.turn = await playPlayerTurn({
+        provider: s.provider,
+        handId,
+        shoe,
+        rules,
+        skip: dealerBlackjack || s.insurance?.kind === "even_money",
+        playerCards: s.playerCards,
+        dealerUpcard,
+        betCents: s.betCents,
+        spareCents: balanceOf(s) - s.betCents - s.sideCents - (s.insurance?.cents ?? 0),
+        addWager: async (cents) => {
+          if (!chips) await deductBet(s.modelId, date, cents);
+        },
+        onEvent: (ev) => onEvent({ ...ev, seat: s.seat }),
+        compliance: s.compliance,
+        usage: s.usage,
+      });
+    }
 
     const dealerCards: Card[] = [dealerUpcard, dealerDown];
     onEvent({ type: "dealer_reveal", dealerCards: [...dealerCards], dealerTotal: handValue(dealerCards) });
-    while (handValue(dealerCards) < 17) {
-      const card = deck.pop()!;
+    while (dealerMustPlay(seats.flatMap((s) => s.turn!.hands)) && dealerShouldHit(dealerCards, rules)) {
+      const card = shoe.draw();
       dealerCards.push(card);
       onEvent({ type: "dealer_draw", card, dealerCards: [...dealerCards], dealerTotal: handValue(dealerCards) });
     }
+    const deal = dealRecordSince(tableId, shoe, dealFrom, nonce);
 
-    const outcomeA = isBust(resultA.cards) ? "loss" : resolveHand(resultA.cards, dealerCards);
-    const outcomeB = isBust(resultB.cards) ? "loss" : resolveHand(resultB.cards, dealerCards);
-    const pnlA = outcomeA === "win" ? betA.betCents : outcomeA === "loss" ? -betA.betCents : 0;
-    const pnlB = outcomeB === "win" ? betB.betCents : outcomeB === "loss" ? -betB.betCents : 0;
-
-    await deductBet(modelIdA, date, betA.betCents);
-    await creditResult(modelIdA, date, pnlA);
-    await deductBet(modelIdB, date, betB.betCents);
-    await creditResult(modelIdB, date, pnlB);
-    balanceA = balanceA - betA.betCents + pnlA;
-    balanceB = balanceB - betB.betCents + pnlB;
-
-    const resA = await query<{ balance_cents: number }>(`SELECT balance_cents FROM daily_bankrolls WHERE model_id = $1 AND domain = 'blackjack' AND date = $2`, [modelIdA, date]);
-    const resB = await query<{ balance_cents: number }>(`SELECT balance_cents FROM daily_bankrolls WHERE model_id = $1 AND domain = 'blackjack' AND date = $2`, [modelIdB, date]);
-    const balanceCentsAfterA = Number(resA.rows[0]?.balance_cents ?? balanceA);
-    const balanceCentsAfterB = Number(resB.rows[0]?.balance_cents ?? balanceB);
-
-    const handIdA = randomUUID();
-    const handIdB = randomUUID();
-    await query(
-      `INSERT INTO blackjack_hands (id, model_id, date, bet_cents, player_cards, dealer_upcard, decision, reasoning, outcome, pnl_cents) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-      [handIdA, modelIdA, date, betA.betCents, JSON.stringify(resultA.cards), dealerUpcard, resultA.lastDecision, resultA.lastReasoning, outcomeA, pnlA]
-    );
-    await query(
-      `INSERT INTO blackjack_hands (id, model_id, date, bet_cents, player_cards, dealer_upcard, decision, reasoning, outcome, pnl_cents) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-      [handIdB, modelIdB, date, betB.betCents, JSON.stringify(resultB.cards), dealerUpcard, resultB.lastDecision, resultB.lastReasoning, outcomeB, pnlB]
-    );
+    const results: SeatResult[] = [];
+    const payloadSeats: BlackjackTableSeatPayload[] = [];
+    for (const s of seats) {
+      const turn = s.turn!;
+      const round = settleRound(turn.hands, dealerCards, rules, s.insurance, s.sideBets);
+      balances[s.seat - 1] += round.pnlCents;
+      const strategy = summarizeGrades(turn.grades);
+      const cards = round.hands[0].playerCards;
+      const subHands = splitHandsOf(round);
+      let balanceCentsAfter = balanceOf(s);
+      if (!chips) {
+        await creditResult(s.modelId, date, round.wageredCents + round.pnlCents);
+        const res = await query<{ balance_cents: number }>(`SELECT balance_cents FROM daily_bankrolls WHERE model_id = $1 AND domain = 'blackjack' AND date = $2`, [s.modelId, date]);
+        balanceCentsAfter = Number(res.rows[0]?.balance_cents ?? balanceOf(s));
+      }
+      results.push({
+        seat: s.seat,
+        modelId: s.modelId,
+        outcome: round.outcome,
+        pnlCents: round.pnlCents,
+        balanceCentsAfter,
+        hands: subHands ? round.hands : undefined,
+        strategy,
+        compliance: s.compliance,
+        usage: s.usage,
+      });
+      if (chips) continue;
 
-    submitAiResult({
-      domain: "blackjack_vs",
-      handIdA,
-      handIdB,
-      modelIdA,
-      modelIdB,
-      date,
-      outcomeA,
-      outcomeB,
-      pnlA,
-      pnlB,
-      playerACards: resultA.cards,
-      playerBCards: resultB.cards,
-      dealerUpcard,
-      dealerCards: dealerCards.map(String),
-      dealerTotal: handValue(dealerCards),
-      betA: betA.betCents,
-      betB: betB.betCents,
-      decisionA: resultA.lastDecision,
-      decisionB: resultB.lastDecision,
-    }).catch(() => {});
+      await insertHandRow(randomUUID(), s.modelId, date, round, dealerUpcard, turn.decision, turn.reasoning, deal, strategy, s.count, s.compliance, s.usage);
+      appendBlackjackHand(s.modelId, {
+        date,
+        betCents: round.wageredCents,
+        playerCards: cards,
+        dealerUpcard,
+        dealerCards: dealerCards.map(String),
+        dealerTotal: handValue(dealerCards),
+        decision: turn.decision,
+        reasoning: turn.reasoning,
+        outcome: round.outcome,
+        pnlCents: round.pnlCents,
+        subHands,
+        rules: rulesCode(rules),
+        insurance: s.insurance?.kind,
+        deal,
+        strategy,
+        count: s.count,
+        sideBets: rules.sideBets.length > 0 ? s.sideBets : undefined,
+        compliance: s.compliance,
+        usage: s.usage,
+      });
+      payloadSeats.push({
+        seat: s.seat,
+        modelId: s.modelId,
+        outcome: round.outcome,
+        pnl: round.pnlCents,
+        bet: round.wageredCents,
+        cards,
+        decision: turn.decision,
+        ...(subHands ? { hands: subHands.map((h) => h.cards) } : {}),
+        ...(s.insurance ? { insurance: s.insurance.kind } : {}),
+        ...(s.count ? { openingBet: s.count.betCents } : {}),
+        ...(s.sideBets.length > 0 ? { sideBets: s.sideBets.map(({ kind, cents, pnlCents }) => ({ kind, cents, pnlCents })) } : {}),
+        strategy,
+        compliance: { asks: s.compliance.asks, compliant: s.compliance.compliant },
+        usage: inferencePayload(s.usage),
+      });
+    }
 
-    appendBlackjackHand(modelIdA, {
-      date,
-      betCents: betA.betCents,
-      playerCards: resultA.cards,
-      dealerUpcard,
-      dealerCards: dealerCards.map(String),
-      dealerTotal: handValue(dealerCards),
-      decision: resultA.lastDecision,
-      reasoning: resultA.lastReasoning,
-      outcome: outcomeA,
-      pnlCents: pnlA,
-    });
-    appendBlackjackHand(modelIdB, {
+    if (!chips) submitAiResult({
+      domain: "blackjack_table",
+      handId,
       date,
-      betCents: betB.betCents,
-      playerCards: resultB.cards,
+      seats: payloadSeats,
       dealerUpcard,
       dealerCards: dealerCards.map(String),
       dealerTotal: handValue(dealerCards),
-      decision: resultB.lastDecision,
-      reasoning: resultB.lastReasoning,
-      outcome: outcomeB,
-      pnlCents: pnlB,
-    });
+      rules: rulesCode(rules),
+      deal,
+      ...(seen ? { count: countOf(seen) } : {}),
+    }).catch(() => {});
 
-    onEvent({
-      type: "outcome_vs",
-      playerA: { outcome: outcomeA, pnlCents: pnlA, balanceCentsAfter: balanceCentsAfterA },
-      playerB: { outcome: outcomeB, pnlCents: pnlB, balanceCentsAfter: balanceCentsAfterB },
-    });
+    onEvent({ type: "outcome_table", seats: results, deal });
     onEvent({ type: "hand_end", handIndex: handIndex + 1 });
   }
   onEvent({ type: "done" });
 }
 
+type VsPlayerResult = { outcome: "win" | "loss" | "push"; pnlCents: number; balanceCentsAfter: number; hands?: SettledHand[]; strategy?: StrategySummary; compliance?: Compliance; usage?: UsageTotals };
+
+/** VS mode: events for two AIs at the same table */
+export type StreamEventVs =
+  | TableEvent
+  | { type: "hand_start"; handIndex: number; totalHands: number }
+  | { type: "deal_vs"; playerACards: Card[]; playerATotal: number; playerBCards: Card[]; playerBTotal: number; dealerUpcard: Card }
+  | { type: "bet"; player: "a" | "b"; betCents: number; reasoning: string | null; count?: HandCount; sideBets?: SideBetWager[] }
+  | { type: "side_bets"; player: "a" | "b"; sideBets: SideBetResult[] }
+  | (TurnEvent & { player: "a" | "b" })
+  | { type: "dealer_reveal"; dealerCards: Card[]; dealerTotal: number }
+  | { type: "dealer_draw"; card: Card; dealerCards: Card[]; dealerTotal: number }
+  | { type: "outcome_vs"; playerA: VsPlayerResult; playerB: VsPlayerResult; deal?: DealRecord }
+  | { type: "hand_end"; handIndex: number }
+  | { type: "error"; message: string }
+  | { type: "done" };
+
+export type PlayHandsStreamVsOptions = {
+  /** Decks / penetration for this pair's shoe (defaults from config). */
+  shoe?: Partial<ShoeOptions>;
+  /** Overrides for the table rules (defaults from BLACKJACK_RULES). */
+  rules?: Partial<TableRules>;
+  /** Counting mode (see PlayTableStreamOptions). */
+  counting?: boolean;
+};
+
+/** Two-seat table event in the VS shape (seat 1 = player "a", seat 2 = player "b"). */
+function toVsEvent(ev: StreamEventTable): StreamEventVs | null {
+  const player = (seat: number): "a" | "b" => (seat === 1 ? "a" : "b");
+  const vsResult = ({ seat: _seat, modelId: _modelId, ...rest }: SeatResult): VsPlayerResult => rest;
+  switch (ev.type) {
+    case "seats":
+    case "seat_out":
+      return null;
+    case "deal_table": {
+      const [a, b] = ev.seats;
+      return { type: "deal_vs", playerACards: a.playerCards, playerATotal: a.playerTotal, playerBCards: b.playerCards, playerBTotal: b.playerTotal, dealerUpcard: ev.dealerUpcard };
+    }
+    case "outcome_table":
+      return { type: "outcome_vs", playerA: vsResult(ev.seats[0]), playerB: vsResult(ev.seats[1]), deal: ev.deal };
+    default: {
+      if (!("seat" in ev)) return ev;
+      const { seat, ...rest } = ev;
+      return { ...rest, player: player(seat) } as StreamEventVs;
+    }
+  }
+}
+
+/**
+ * Two AIs at the same table: a two-seat playTableStream that emits the VS event shapes.
+ * Both seats must be able to bet; the pair shares a shoe with auto-play.
+ */
+export async function playHandsStreamVs(
+  modelIdA: string,
+  modelIdB: string,
+  maxBetCents: number,
+  hands: number,
+  onEvent: (ev: StreamEventVs) => void,
+  options?: PlayHandsStreamVsOptions
+): Promise<void> {
+  await playTableStream(
+    [modelIdA, modelIdB],
+    maxBetCents,
+    hands,
+    (ev) => {
+      const vs = toVsEvent(ev);
+      if (vs) onEvent(vs);
+    },
+    { ...options, tableId: vsTableId(modelIdA, modelIdB), allSeatsRequired: true }
+  );
+}
+
 export async function getBlackjackDailyState(
   modelId: string,
   date: DateString
@@ -697,3 +1309,47 @@ export async function getBlackjackDailyState(
     pnlCents: Number(handsRow?.pnl ?? 0),
   };
 }
+
+export type StrategyStats = {
+  modelId: string;
+  /** Hands with a strategy grade (older hands have none). */
+  hands: number;
+  decisions: number;
+  correct: number;
+  /** correct / decisions, null before the first graded decision. */
+  accuracy: number | null;
+  evLostCents: number;
+  evLostPerHandCents: number | null;
+  pnlCents: number;
+};
+
+/** Per-model basic-strategy accuracy and EV lost, from the hand history. Sorted by EV lost per hand (best first). */
+export function getStrategyStats(dateFilter: string | null): StrategyStats[] {
+  const stats = getBlackjackHandModelIds().map((modelId): StrategyStats => {
+    const graded = getBlackjackHands(modelId, dateFilter).filter((h) => h.strategy);
+    const decisions = graded.reduce((s, h) => s + h.strategy!.decisions, 0);
+    const correct = graded.reduce((s, h) => s + h.strategy!.correct, 0);
+    const evLostCents = graded.reduce((s, h) => s + h.strategy!.evLossCents, 0);
+    return {
+      modelId,
+      hands: graded.length,
+      decisions,
+      correct,
+      accuracy: decisions > 0 ? correct / decisions : null,
+      evLostCents,
+      evLostPerHandCents: graded.length > 0 ? evLostCents / graded.length : null,
+      pnlCents: graded.reduce((s, h) => s + (h.pnlCents ?? 0), 0),
+    };
+  });
+  return stats
+    .filter((s) => s.hands > 0)
+    .sort((a, b) => (a.evLostPerHandCents ?? 0) - (b.evLostPerHandCents ?? 0));
+}
+
+/** Per-model instruction-following rate (asks answered without a fallback or clamp), from the hand history. */
+export function getComplianceStats(dateFilter: string | null): ComplianceStats[] {
+  return getBlackjackHandModelIds()
+    .map((modelId) => summarizeCompliance(modelId, getBlackjackHands(modelId, dateFilter).flatMap((h) => (h.compliance ? [h.compliance] : []))))
+    .filter((s) => s.asks > 0)
+    .sort((a, b) => (b.rate ?? 0) - (a.rate ?? 0));
+}
@@ -0,0 +1,158 @@
+/**
+ * Multi-deck shoe with a cut card. Each table keeps its shoe for the server session, so the
+ * remaining composition carries over from hand to hand until the cut card comes out.
+ * Every shuffle is seeded (fairness.ts) so the order can be recomputed once the seed is revealed.
+ */
+
+import { config } from "../../config.js";
+import type { Card } from "./engine.js";
+import { hashSeed, newServerSeed, publishReveal, shoeOrder, type RevealedSeed, type ShoeCommitment } from "./fairness.js";
+
+export type ShoeOptions = {
+  decks: number;
+  /** Fraction of the shoe dealt before the cut card (0.75 = cut card at 3/4). */
+  penetration: number;
+  /**
+   * Fixed master seed: every shuffle's seed is derived from it, so a session deals the same cards each
+   * run (offline replays with an AI cassette). Never set from a request; known seeds make deals predictable.
+   */
+  seed?: string;
+};
+
+export type Shoe = {
+  readonly decks: number;
+  readonly penetration: number;
+  /** Cards dealt from a fresh shoe before the cut card comes out. */
+  readonly cutCardAt: number;
+  /** Number of times this shoe has been shuffled (0 until the first round). Also the nonce of the current seed. */
+  shuffleCount(): number;
+  draw(): Card;
+  /** Pull the next remaining card that matches (forced test deals; such hands do not verify). */
+  takeCard(match: (card: Card) => boolean): Card | undefined;
+  /** Number of cards dealt since the last shuffle, i.e. the next card's position in the seeded order. */
+  position(): number;
+  /** Commitment for the current shuffle (null before the first). */
+  commitment(): ShoeCommitment | null;
+  /** Shuffles not yet published (commitment plus the seed it replaced); clears the list. */
+  takeUnpublishedShuffles(): { committed: ShoeCommitment; revealed: RevealedSeed | null }[];
+  /** The current seed, for a shoe that is being discarded. */
+  revealCurrentSeed(): RevealedSeed | null;
+  /** Cards dealt since the last shuffle, in deal order. */
+  seen(): Card[];
+  remaining(): number;
+  cutCardReached(): boolean;
+  /** Call between rounds: shuffles a new shoe or one whose cut card has come out. Returns true if it shuffled. */
+  shuffleIfNeeded(): boolean;
+};
+
+export function defaultShoeOptions(): ShoeOptions {
+  return { decks: config.blackjackShoeDecks, penetration: config.blackjackShoePenetration };
+}
+
+/** Clamp to 1–8 decks and 25–95% penetration. */
+function normalizeShoeOptions(options: ShoeOptions): ShoeOptions {
+  return {
+    decks: Math.max(1, Math.min(8, Math.round(options.decks))),
+    penetration: Math.max(0.25, Math.min(0.95, options.penetration)),
+    ...(options.seed ? { seed: options.seed } : {}),
+  };
+}
+
+export function createShoe(options: ShoeOptions = defaultShoeOptions()): Shoe {
+  const { decks, penetration, seed: masterSeed } = normalizeShoeOptions(options);
+  const cutCardAt = Math.floor(decks * 52 * penetration);
+  let cards: Card[] = [];
+  let dealt: Card[] = [];
+  let shuffles = 0;
+  let seed: string | null = null;
+  let unpublished: { committed: ShoeCommitment; revealed: RevealedSeed | null }[] = [];
+
+  const commitmentOf = (s: string): ShoeCommitment => ({ seedHash: hashSeed(s), nonce: shuffles, decks });
+
+  const reshuffle = () => {
+    const revealed = seed ? { ...commitmentOf(seed), seed } : null;
+    shuffles++;
+    seed = masterSeed ? hashSeed(`${masterSeed}:${shuffles}`) : newServerSeed();
+    // Deal order is cards[0], cards[1], ... so positions match the verifier
+    cards = shoeOrder(seed, shuffles, decks);
+    dealt = [];
+    unpublished.push({ committed: commitmentOf(seed), revealed });
+  };
+
+  return {
+    decks,
+    penetration,
+    cutCardAt,
+    shuffleCount: () => shuffles,
+    draw() {
+      // Only reachable when a round outlasts the whole shoe (small shoe, many split hands)
+      if (dealt.length >= cards.length) reshuffle();
+      const card = cards[dealt.length];
+      dealt.push(card);
+      return card;
+    },
+    takeCard(match) {
+      for (let i = dealt.length; i < cards.length; i++) {
+        if (!match(cards[i])) continue;
+        // Swap into the next position so the remaining composition is unchanged
+        [cards[dealt.length], cards[i]] = [cards[i], cards[dealt.length]];
+        const card = cards[dealt.length];
+        dealt.push(card);
+        return card;
+      }
+      return undefined;
+    },
+    position: () => dealt.length,
+    commitment: () => (seed ? commitmentOf(seed) : null),
+    revealCurrentSeed: () => (seed ? { ...commitmentOf(seed), seed } : null),
+    takeUnpublishedShuffles() {
+      const list = unpublished;
+      unpublished = [];
+      return list;
+    },
+    seen: () => [...dealt],
+    remaining: () => cards.length - dealt.length,
+    cutCardReached: () => dealt.length >= cutCardAt,
+    shuffleIfNeeded() {
+      if (shuffles > 0 && dealt.length < cutCardAt) return false;
+      reshuffle();
+      return true;
+    },
+  };
+}
+
+/** tableId -> shoe, for the server session */
+const tableShoes = new Map<string, Shoe>();
+/** Master seed a table's shoe was created with, so a different one replaces it. */
+const shoeSeeds = new WeakMap<Shoe, string | undefined>();
+
+/**
+ * Shoe for a table; a new one is created when none exists or the requested decks/penetration differ.
+ * A replaced shoe is retired, so its seed is revealed.
+ */
+export function getTableShoe(tableId: string, options?: Partial<ShoeOptions>): Shoe {
+  const wanted = normalizeShoeOptions({ ...defaultShoeOptions(), ...options });
+  const existing = tableShoes.get(tableId);
+  if (existing && existing.decks === wanted.decks && existing.penetration === wanted.penetration && shoeSeeds.get(existing) === wanted.seed) return existing;
+  const retired = existing?.revealCurrentSeed();
+  if (retired) publishReveal(tableId, retired).catch(() => {});
+  const shoe = createShoe(wanted);
+  tableShoes.set(tableId, shoe);
+  shoeSeeds.set(shoe, wanted.seed);
+  return shoe;
+}
+
+/** Table id for a single model playing alone. */
+export function singleTableId(modelId: string): string {
+  return `single:${modelId}`;
+}
+
+/** Table id for a VS pair; order-independent so auto-play and manual VS share a shoe. */
+export function vsTableId(modelIdA: string, modelIdB: string): string {
+  return `vs:${[modelIdA, modelIdB].sort().join("|")}`;
+}
+
+/** Table id for an N-seat table; keyed by the set of seated models, not their seat order. */
+export function tableIdFor(modelIds: string[]): string {
+  return `table:${[...modelIds].sort().join("|")}`;
+}
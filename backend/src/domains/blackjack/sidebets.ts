@@ -0,0 +1,144 @@
+/**
+ * Optional side bets offered through the table rules, settled against the initial deal.
+ * Both carry a large house edge (Perfect Pairs ~4–6%, 21+3 ~3–4%), so taking them is a
+ * discipline signal: a model that reasons about expected value should decline.
+ */
+
+import type { Card } from "./engine.js";
+import { parseRulesCode, type SideBetKind } from "./rules.js";
+import { getBlackjackHandModelIds, getBlackjackHands } from "../../hedera/blackjack-hand-store.js";
+
+/** A side bet the player placed. */
+export type SideBetWager = { kind: SideBetKind; cents: number };
+
+/** A settled side bet; result names the paying combination (null when it lost). */
+export type SideBetResult = SideBetWager & { result: string | null; pnlCents: number };
+
+/** Paytables (x to 1), best combination first. */
+const PAYTABLES: Record<SideBetKind, [string, number][]> = {
+  perfect_pairs: [
+    ["perfect pair", 25],
+    ["colored pair", 12],
+    ["mixed pair", 6],
+  ],
+  "21+3": [
+    ["suited trips", 100],
+    ["straight flush", 40],
+    ["three of a kind", 30],
+    ["straight", 10],
+    ["flush", 5],
+  ],
+};
+
+const RANKS = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"];
+
+function rankOf(card: Card): string {
+  return card.slice(0, -1);
+}
+
+function suitOf(card: Card): string {
+  return card.slice(-1);
+}
+
+function isRed(card: Card): boolean {
+  return suitOf(card) === "H" || suitOf(card) === "D";
+}
+
+/** Perfect Pairs on the player's first two cards. */
+function perfectPairsResult([a, b]: Card[]): string | null {
+  if (rankOf(a) !== rankOf(b)) return null;
+  if (suitOf(a) === suitOf(b)) return "perfect pair";
+  return isRed(a) === isRed(b) ? "colored pair" : "mixed pair";
+}
+
+/** Three consecutive ranks; aces play high or low (Q-K-A and A-2-3). */
+function isStraight(cards: Card[]): boolean {
+  const idx = cards.map((c) => RANKS.indexOf(rankOf(c))).sort((x, y) => x - y);
+  const run = (xs: number[]) => xs[1] === xs[0] + 1 && xs[2] === xs[1] + 1;
+  return run(idx) || (idx[0] === 0 && run([idx[1], idx[2], 13]));
+}
+
+/** 21+3: the player's first two cards plus the dealer upcard as a three-card poker hand. */
+function twentyOnePlusThreeResult(cards: Card[]): string | null {
+  const flush = cards.every((c) => suitOf(c) === suitOf(cards[0]));
+  const trips = cards.every((c) => rankOf(c) === rankOf(cards[0]));
+  const straight = isStraight(cards);
+  if (trips && flush) return "suited trips";
+  if (straight && flush) return "straight flush";
+  if (trips) return "three of a kind";
+  if (straight) return "straight";
+  if (flush) return "flush";
+  return null;
+}
+
+export function settleSideBet(wager: SideBetWager, playerCards: Card[], dealerUpcard: Card): SideBetResult {
+  const result = wager.kind === "perfect_pairs"
+    ? perfectPairsResult(playerCards.slice(0, 2))
+    : twentyOnePlusThreeResult([...playerCards.slice(0, 2), dealerUpcard]);
+  const pays = PAYTABLES[wager.kind].find(([name]) => name === result)?.[1];
+  return { ...wager, result, pnlCents: pays != null ? wager.cents * pays : -wager.cents };
+}
+
+/** Prompt lines describing each offered side bet and its paytable. */
+export function describeSideBets(kinds: SideBetKind[]): string[] {
+  return kinds.map((kind) => {
+    const table = PAYTABLES[kind].map(([name, x]) => `${name} ${x}:1`).join(", ");
+    return kind === "perfect_pairs"
+      ? `Perfect Pairs (your first two cards form a pair): ${table}.`
+      : `21+3 (your first two cards plus the dealer upcard as a poker hand): ${table}.`;
+  });
+}
+
+/**
+ * Parse SIDE_BET lines, e.g. "SIDE_BET: perfect_pairs 5, 21+3 10" or "SIDE_BET: none".
+ * Amounts are dollars; only offered kinds are kept, at most one wager per kind.
+ */
+export function parseSideBets(text: string, offered: SideBetKind[]): SideBetWager[] {
+  const wagers = new Map<SideBetKind, number>();
+  for (const line of text.matchAll(/SIDE[\s_-]*BETS?:\s*([^\n]*)/gi)) {
+    for (const part of line[1].split(/[,;]/)) {
+      const m = part.match(/(perfect[\s_-]*pairs?|pp|21\s*\+\s*3)\D*?(\d+(?:\.\d+)?)/i);
+      if (!m) continue;
+      const kind: SideBetKind = /^(perfect|pp)/i.test(m[1]) ? "perfect_pairs" : "21+3";
+      const cents = Math.round(parseFloat(m[2]) * 100);
+      if (offered.includes(kind) && cents > 0 && !wagers.has(kind)) wagers.set(kind, cents);
+    }
+  }
+  return [...wagers].map(([kind, cents]) => ({ kind, cents }));
+}
+
+export type SideBetStats = {
+  modelId: string;
+  /** Hands dealt at tables offering side bets. */
+  offeredHands: number;
+  /** Hands on which the model placed at least one side bet. */
+  takenHands: number;
+  takeRate: number | null;
+  wageredCents: number;
+  pnlCents: number;
+};
+
+/** Hands from HCS only list side bets that were placed, so "offered" also comes from the rule code. */
+function offeredSideBets(hand: { rules?: string; sideBets?: unknown[] }): boolean {
+  return !!hand.sideBets || (!!hand.rules && parseRulesCode(hand.rules).sideBets.length > 0);
+}
+
+/** Per-model side-bet discipline from the hand store (hands whose rules offered side bets). */
+export function getSideBetStats(dateFilter: string | null): SideBetStats[] {
+  return getBlackjackHandModelIds()
+    .map((modelId): SideBetStats => {
+      const offered = getBlackjackHands(modelId, dateFilter).filter(offeredSideBets);
+      const taken = offered.filter((h) => (h.sideBets?.length ?? 0) > 0);
+      const bets = taken.flatMap((h) => h.sideBets!);
+      return {
+        modelId,
+        offeredHands: offered.length,
+        takenHands: taken.length,
+        takeRate: offered.length > 0 ? taken.length / offered.length : null,
+        wageredCents: bets.reduce((s, b) => s + b.cents, 0),
+        pnlCents: bets.reduce((s, b) => s + b.pnlCents, 0),
+      };
+    })
+    .filter((s) => s.offeredHands > 0)
+    .sort((a, b) => (a.takeRate ?? 0) - (b.takeRate ?? 0));
+}
@@ -0,0 +1,224 @@
+/**
+ * Basic-strategy oracle: expected value of each action for a (player cards, dealer upcard, rules)
+ * state, by combinatorial analysis over an infinite deck (each rank 1/13, tens 4/13). Results are
+ * cached per rule set and upcard. Used to grade AI decisions on skill instead of P&L.
+ *
+ * EVs are in units of the hand's bet before the action (a double risks 2 units).
+ * Splits are valued without re-splitting, which understates them slightly.
+ */
+
+import { cardValue, isPair, type Card, type PlayerAction } from "./engine.js";
+import { rulesCode, type TableRules } from "./rules.js";
+
+/** Card values 2..11 (11 = ace) and their infinite-deck probabilities. */
+const DRAWS: [number, number][] = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map((v) => [v, v === 10 ? 4 / 13 : 1 / 13]);
+
+/** Final dealer totals 17..21, bust (22) and a dealer blackjack (0). */
+type DealerOutcome = 0 | 17 | 18 | 19 | 20 | 21 | 22;
+type DealerDist = Map<DealerOutcome, number>;
+
+/** A hand as a hard total (aces as 1) plus whether it holds an ace. */
+type HandState = { hard: number; ace: boolean };
+
+function total({ hard, ace }: HandState): number {
+  return ace && hard + 10 <= 21 ? hard + 10 : hard;
+}
+
+function isSoftState(s: HandState): boolean {
+  return s.ace && s.hard + 10 <= 21;
+}
+
+function addCard(s: HandState, v: number): HandState {
+  return { hard: s.hard + (v === 11 ? 1 : v), ace: s.ace || v === 11 };
+}
+
+function stateOf(cards: Card[]): HandState {
+  return cards.reduce<HandState>((s, c) => addCard(s, cardValue(c)), { hard: 0, ace: false });
+}
+
+function addTo(dist: DealerDist, outcome: DealerOutcome, p: number): void {
+  dist.set(outcome, (dist.get(outcome) ?? 0) + p);
+}
+
+/** Dealer's final-total distribution from a (non-blackjack) starting state. */
+function dealerFinish(s: HandState, rules: TableRules, memo: Map<string, DealerDist>): DealerDist {
+  const key = `${s.hard}:${s.ace}`;
+  const cached = memo.get(key);
+  if (cached) return cached;
+  const t = total(s);
+  const dist: DealerDist = new Map();
+  if (t > 21) addTo(dist, 22, 1);
+  else if (t > 17 || (t === 17 && !(rules.dealerHitsSoft17 && isSoftState(s)))) addTo(dist, t as DealerOutcome, 1);
+  else {
+    for (const [v, p] of DRAWS) {
+      for (const [outcome, q] of dealerFinish(addCard(s, v), rules, memo)) addTo(dist, outcome, p * q);
+    }
+  }
+  memo.set(key, dist);
+  return dist;
+}
+
+/**
+ * Dealer distribution for an upcard. At peek tables the player only acts when the dealer does not
+ * have blackjack, so the hole card is conditioned on that; otherwise blackjack (0) stays possible.
+ */
+function dealerDistribution(upValue: number, rules: TableRules): DealerDist {
+  const memo = new Map<string, DealerDist>();
+  const up = addCard({ hard: 0, ace: false }, upValue);
+  const dist: DealerDist = new Map();
+  for (const [v, p] of DRAWS) {
+    const two = addCard(up, v);
+    if (total(two) === 21) {
+      addTo(dist, 0, p);
+      continue;
+    }
+    for (const [outcome, q] of dealerFinish(two, rules, memo)) addTo(dist, outcome, p * q);
+  }
+  if (rules.dealerPeek && (upValue === 10 || upValue === 11)) {
+    const noBlackjack = 1 - (dist.get(0) ?? 0);
+    dist.delete(0);
+    for (const [outcome, p] of dist) dist.set(outcome, p / noBlackjack);
+  }
+  return dist;
+}
+
+type Solver = {
+  stand(s: HandState): number;
+  /** Hit now, then play hit/stand optimally. */
+  hit(s: HandState): number;
+  double(s: HandState): number;
+  /** Split a pair of this card value (both hands), no re-split. */
+  split(v: number): number;
+};
+
+function createSolver(upValue: number, rules: TableRules): Solver {
+  const dealer = dealerDistribution(upValue, rules);
+  const standMemo = new Map<number, number>();
+  const hitMemo = new Map<string, number>();
+
+  const stand = (s: HandState): number => {
+    const t = total(s);
+    if (t > 21) return -1;
+    const cached = standMemo.get(t);
+    if (cached != null) return cached;
+    let ev = 0;
+    for (const [d, p] of dealer) {
+      if (d === 0) ev -= p;
+      else if (d === 22 || t > d) ev += p;
+      else if (t < d) ev -= p;
+    }
+    standMemo.set(t, ev);
+    return ev;
+  };
+
+  const hit = (s: HandState): number => {
+    const key = `${s.hard}:${s.ace}`;
+    const cached = hitMemo.get(key);
+    if (cached != null) return cached;
+    let ev = 0;
+    for (const [v, p] of DRAWS) {
+      const next = addCard(s, v);
+      ev += p * (total(next) > 21 ? -1 : Math.max(stand(next), hit(next)));
+    }
+    hitMemo.set(key, ev);
+    return ev;
+  };
+
+  const double = (s: HandState): number => {
+    let ev = 0;
+    for (const [v, p] of DRAWS) ev += p * stand(addCard(s, v));
+    return 2 * ev;
+  };
+
+  const split = (v: number): number => {
+    const first = addCard({ hard: 0, ace: false }, v);
+    let ev = 0;
+    for (const [w, p] of DRAWS) {
+      const hand = addCard(first, w);
+      // Split aces get one card; other split hands play on (doubling only with DAS)
+      const best = v === 11
+        ? stand(hand)
+        : Math.max(stand(hand), hit(hand), rules.doubleAfterSplit ? double(hand) : -Infinity);
+      ev += p * best;
+    }
+    return 2 * ev;
+  };
+
+  return { stand, hit, double, split };
+}
+
+/** rules code + upcard value -> solver */
+const solvers = new Map<string, Solver>();
+
+function solverFor(dealerUpcard: Card, rules: TableRules): Solver {
+  const upValue = cardValue(dealerUpcard);
+  const key = `${rulesCode(rules)}|${upValue}`;
+  let solver = solvers.get(key);
+  if (!solver) {
+    solver = createSolver(upValue, rules);
+    solvers.set(key, solver);
+  }
+  return solver;
+}
+
+/** EV of each offered action for this hand. */
+export function actionEvs(
+  cards: Card[],
+  dealerUpcard: Card,
+  rules: TableRules,
+  actions: PlayerAction[]
+): Partial<Record<PlayerAction, number>> {
+  const solver = solverFor(dealerUpcard, rules);
+  const s = stateOf(cards);
+  const evs: Partial<Record<PlayerAction, number>> = {};
+  for (const action of actions) {
+    if (action === "stand") evs.stand = solver.stand(s);
+    else if (action === "hit") evs.hit = solver.hit(s);
+    else if (action === "double") evs.double = solver.double(s);
+    else if (action === "surrender") evs.surrender = -0.5;
+    else if (action === "split" && isPair(cards)) evs.split = solver.split(cardValue(cards[0]));
+  }
+  return evs;
+}
+
+/** One graded decision. evLoss is in bet units; evLossCents scales it by the hand's bet. */
+export type DecisionGrade = {
+  action: PlayerAction;
+  optimal: PlayerAction;
+  matched: boolean;
+  evLoss: number;
+  evLossCents: number;
+};
+
+/** Grade a decision against the best offered action. Ties count as a match. */
+export function gradeDecision(
+  cards: Card[],
+  dealerUpcard: Card,
+  rules: TableRules,
+  actions: PlayerAction[],
+  action: PlayerAction,
+  betCents: number
+): DecisionGrade {
+  const evs = actionEvs(cards, dealerUpcard, rules, actions);
+  let optimal = action;
+  let best = evs[action] ?? -Infinity;
+  for (const [a, ev] of Object.entries(evs) as [PlayerAction, number][]) {
+    if (ev > best + 1e-9) {
+      best = ev;
+      optimal = a;
+    }
+  }
+  const evLoss = Math.max(0, best - (evs[action] ?? best));
+  return { action, optimal, matched: optimal === action, evLoss, evLossCents: Math.round(evLoss * betCents) };
+}
+
+/** Per-round strategy summary stored with each hand. */
+export type StrategySummary = { decisions: number; correct: number; evLossCents: number };
+
+export function summarizeGrades(grades: DecisionGrade[]): StrategySummary {
+  return {
+    decisions: grades.length,
+    correct: grades.filter((g) => g.matched).length,
+    evLossCents: grades.reduce((s, g) => s + g.evLossCents, 0),
+  };
+}
@@ -0,0 +1,309 @@
+/**
+ * Elimination tournaments: entrants are seated at tables of up to MAX_SEATS, every table plays a fixed
+ * number of hands from a fresh tournament bankroll, and the bottom seats by chips are eliminated.
+ * Survivors are re-seated for the next round until one table remains; its chip leader wins.
+ *
+ * Tournament chips are separate from daily bankrolls and tournament hands are not recorded as
+ * benchmark hands. The prize pool is virtual (a buy-in per entrant) and split among the top places.
+ */
+
+import { randomUUID } from "crypto";
+import { config } from "../../config.js";
+import { getAIProvider, getAIProviders } from "../../ai/index.js";
+import { submitAiResult } from "../../hedera/hcs.js";
+import { buildTournamentNote } from "./prompt.js";
+import { resolveTableRules, rulesCode, type TableRules } from "./rules.js";
+import { MAX_SEATS, playTableStream, type StreamEventTable } from "./service.js";
+import { settleTournamentBets } from "../market/service.js";
+
+/** "betting": taking winner bets before the first deal. */
+export type TournamentStatus = "betting" | "running" | "finished" | "failed";
+
+export type TournamentSeat = { seat: number; modelId: string; chipsCents: number; advanced: boolean };
+
+export type TournamentTable = {
+  table: number;
+  /** Shoe key for this table (shuffles are committed to HCS under it). */
+  tableId: string;
+  status: "waiting" | "playing" | "done";
+  handsPlayed: number;
+  seats: TournamentSeat[];
+};
+
+export type TournamentRound = { round: number; final: boolean; tables: TournamentTable[] };
+
+export type TournamentPlacing = {
+  place: number;
+  modelId: string;
+  /** Round the entrant went out in; null for the winner. */
+  eliminatedInRound: number | null;
+  chipsCents: number;
+  prizeCents: number;
+};
+
+export type Tournament = {
+  id: string;
+  name: string;
+  createdAt: string;
+  /** When the first round deals; winner bets are taken until the final table deals. */
+  startsAt: string;
+  status: TournamentStatus;
+  entrants: string[];
+  handsPerRound: number;
+  bankrollCents: number;
+  tableSize: number;
+  rules: TableRules;
+  prizePoolCents: number;
+  /** Share of the prize pool per place, 1st first. */
+  payouts: number[];
+  rounds: TournamentRound[];
+  /** Open from creation until the final table deals. */
+  bettingOpen: boolean;
+  winner: string | null;
+  placings: TournamentPlacing[];
+  error?: string;
+};
+
+/** Live-table events carry the round and table they belong to. */
+export type TournamentTableEvent = Exclude<StreamEventTable, { type: "done" }> & { round: number; table: number };
+
+export type TournamentEvent =
+  | { type: "bracket"; tournament: Tournament }
+  | { type: "tournament_start" }
+  | { type: "round_start"; round: number; final: boolean; tables: { table: number; modelIds: string[] }[] }
+  | { type: "table_start"; round: number; table: number; modelIds: string[] }
+  | TournamentTableEvent
+  | { type: "table_end"; round: number; table: number; seats: TournamentSeat[] }
+  | { type: "eliminated"; round: number; modelIds: string[] }
+  | { type: "tournament_end"; winner: string; placings: TournamentPlacing[] }
+  | { type: "done" };
+
+export type TournamentOptions = {
+  name?: string;
+  /** Defaults to every provider that plays blackjack. */
+  modelIds?: string[];
+  handsPerRound?: number;
+  /** Chips each seat starts every round with. */
+  bankrollCents?: number;
+  /** Seats per table (2..MAX_SEATS). */
+  tableSize?: number;
+  /** Virtual buy-in per entrant; the prize pool is buy-in x entrants. Defaults to the bankroll. */
+  buyInCents?: number;
+  payouts?: number[];
+  rules?: Partial<TableRules>;
+  /** Winner betting before the first deal; defaults to BLACKJACK_TOURNAMENT_BETTING_MS. */
+  bettingWindowMs?: number;
+};
+
+const MAX_BETTING_WINDOW_MS = 60 * 60_000;
+const DEFAULT_HANDS_PER_ROUND = 10;
+const DEFAULT_BANKROLL_CENTS = 100_000;
+const DEFAULT_PAYOUTS = [0.5, 0.3, 0.2];
+
+/** tournamentId -> tournament (most recent, server session) */
+const tournaments = new Map<string, Tournament>();
+const MAX_TOURNAMENTS = 50;
+/** tournamentId -> live subscribers */
+const listeners = new Map<string, Set<(ev: TournamentEvent) => void>>();
+
+export function getTournament(id: string): Tournament | undefined {
+  return tournaments.get(id);
+}
+
+/** Recent tournaments, newest first (without the bracket). */
+export function listTournaments(): Omit<Tournament, "rounds">[] {
+  return Array.from(tournaments.values())
+    .reverse()
+    .map(({ rounds: _rounds, ...rest }) => rest);
+}
+
+/** Follow a tournament's live tables; returns the unsubscribe function. */
+export function subscribeTournament(id: string, listener: (ev: TournamentEvent) => void): () => void {
+  if (!listeners.has(id)) listeners.set(id, new Set());
+  listeners.get(id)!.add(listener);
+  return () => {
+    listeners.get(id)?.delete(listener);
+  };
+}
+
+/** Pay out or refund the winner bets once a tournament has ended (a failed one refunds every stake). */
+function settleBets(t: Tournament): void {
+  settleTournamentBets(t.id, t.status === "finished" ? t.winner : null).catch((e) => console.error("Tournament bet settlement failed:", t.id, e));
+}
+
+function emit(id: string, ev: TournamentEvent): void {
+  for (const listener of listeners.get(id) ?? []) listener(ev);
+}
+
+function saveTournament(t: Tournament): void {
+  tournaments.set(t.id, t);
+  while (tournaments.size > MAX_TOURNAMENTS) {
+    const oldest = tournaments.keys().next().value!;
+    tournaments.delete(oldest);
+    listeners.delete(oldest);
+  }
+}
+
+/** Split entrants (best seed first) over the fewest tables, dealing them round-robin so seeds spread out. */
+function seatTables(t: Tournament, round: number, seeded: string[]): TournamentTable[] {
+  const count = Math.ceil(seeded.length / t.tableSize);
+  const tables: TournamentTable[] = Array.from({ length: count }, (_, i) => ({
+    table: i + 1,
+    tableId: `tournament:${t.id}:r${round}:t${i + 1}`,
+    status: "waiting",
+    handsPlayed: 0,
+    seats: [],
+  }));
+  seeded.forEach((modelId, i) => {
+    const table = tables[i % count];
+    table.seats.push({ seat: table.seats.length + 1, modelId, chipsCents: t.bankrollCents, advanced: false });
+  });
+  return tables;
+}
+
+/** Seats advancing from a table of n: the top half, rounded up, but at least one seat goes out. */
+function advancingFrom(n: number): number {
+  return n < 2 ? n : Math.min(n - 1, Math.ceil(n / 2));
+}
+
+/** Chip leaders first; ties go to the earlier seat. */
+function ranked(seats: TournamentSeat[]): TournamentSeat[] {
+  return [...seats].sort((a, b) => b.chipsCents - a.chipsCents || a.seat - b.seat);
+}
+
+async function playTable(t: Tournament, round: TournamentRound, table: TournamentTable): Promise<void> {
+  const modelIds = table.seats.map((s) => s.modelId);
+  const chips = table.seats.map((s) => s.chipsCents);
+  const advance = round.final ? 1 : advancingFrom(table.seats.length);
+  table.status = "playing";
+  emit(t.id, { type: "table_start", round: round.round, table: table.table, modelIds });
+  await playTableStream(
+    modelIds,
+    t.bankrollCents,
+    t.handsPerRound,
+    (ev) => {
+      if (ev.type === "done") return;
+      if (ev.type === "outcome_table") {
+        table.handsPlayed++;
+        table.seats.forEach((s, i) => (s.chipsCents = chips[i]));
+      }
+      emit(t.id, { ...ev, round: round.round, table: table.table });
+    },
+    {
+      tableId: table.tableId,
+      rules: t.rules,
+      chips,
+      betNote: (seat) =>
+        buildTournamentNote({ round: round.round, final: round.final, hand: table.handsPlayed + 1, hands: t.handsPerRound, advance, seat, chips }),
+    }
+  );
+  table.seats.forEach((s, i) => (s.chipsCents = chips[i]));
+  for (const s of ranked(table.seats).slice(0, advance)) s.advanced = true;
+  table.status = "done";
+  emit(t.id, { type: "table_end", round: round.round, table: table.table, seats: table.seats });
+}
+
+/** Finishing order: later elimination places higher; within a round, more chips places higher. */
+function placingsOf(t: Tournament): TournamentPlacing[] {
+  const order: { modelId: string; round: number | null; chipsCents: number }[] = [];
+  for (const round of [...t.rounds].reverse()) {
+    const seats = round.tables.flatMap((tb) => tb.seats);
+    const out = round.final ? seats : seats.filter((s) => !s.advanced);
+    for (const s of ranked(out)) order.push({ modelId: s.modelId, round: round.final && s.advanced ? null : round.round, chipsCents: s.chipsCents });
+  }
+  const shares = t.payouts.slice(0, order.length);
+  const total = shares.reduce((s, x) => s + x, 0) || 1;
+  return order.map((p, i) => ({
+    place: i + 1,
+    modelId: p.modelId,
+    eliminatedInRound: p.round,
+    chipsCents: p.chipsCents,
+    prizeCents: i < shares.length ? Math.floor((t.prizePoolCents * shares[i]) / total) : 0,
+  }));
+}
+
+async function runTournament(t: Tournament): Promise<void> {
+  const wait = Date.parse(t.startsAt) - Date.now();
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+  t.status = "running";
+  emit(t.id, { type: "tournament_start" });
+  let remaining = [...t.entrants];
+  for (let round = 1; remaining.length > 1; round++) {
+    const final = remaining.length <= t.tableSize;
+    const r: TournamentRound = { round, final, tables: seatTables(t, round, remaining) };
+    t.rounds.push(r);
+    emit(t.id, { type: "round_start", round, final, tables: r.tables.map((tb) => ({ table: tb.table, modelIds: tb.seats.map((s) => s.modelId) })) });
+    for (const table of r.tables) {
+      // Betting on the winner closes as the final table deals
+      if (final) t.bettingOpen = false;
+      await playTable(t, r, table);
+    }
+
+    const seats = r.tables.flatMap((tb) => tb.seats);
+    const out = seats.filter((s) => !s.advanced).map((s) => s.modelId);
+    emit(t.id, { type: "eliminated", round, modelIds: out });
+    // Next round's seeding: survivors by chips, so the round's leaders are spread across tables
+    remaining = ranked(seats.filter((s) => s.advanced)).map((s) => s.modelId);
+  }
+
+  t.winner = remaining[0];
+  t.placings = placingsOf(t);
+  t.status = "finished";
+  t.bettingOpen = false;
+  settleBets(t);
+  submitAiResult({
+    domain: "blackjack_tournament",
+    tournamentId: t.id,
+    rules: rulesCode(t.rules),
+    handsPerRound: t.handsPerRound,
+    prizePoolCents: t.prizePoolCents,
+    winner: t.winner,
+    placings: t.placings.map((p) => ({ modelId: p.modelId, place: p.place, prizeCents: p.prizeCents })),
+  }).catch(() => {});
+  emit(t.id, { type: "tournament_end", winner: t.winner, placings: t.placings });
+  emit(t.id, { type: "done" });
+}
+
+/**
+ * Create a tournament and start it in the background once its betting window has passed; brackets advance on their own.
+ * Throws on invalid entrants so the route can answer 400.
+ */
+export function createTournament(options: TournamentOptions): Tournament {
+  const entrants = [...new Set(options.modelIds?.length ? options.modelIds : getAIProviders("blackjack").map((p) => p.id))];
+  const unknown = entrants.find((id) => !getAIProvider(id));
+  if (unknown) throw new Error(`Unknown AI model: ${unknown}`);
+  if (entrants.length < 2) throw new Error("A tournament needs at least two entrants");
+
+  const bankrollCents = Math.max(config.blackjackMinBetCents, Math.round(options.bankrollCents ?? DEFAULT_BANKROLL_CENTS));
+  const payouts = (options.payouts ?? DEFAULT_PAYOUTS).filter((x) => Number.isFinite(x) && x > 0);
+  const bettingWindowMs = Math.max(0, Math.min(MAX_BETTING_WINDOW_MS, Math.round(options.bettingWindowMs ?? config.tournamentBettingMs)));
+  const createdAt = new Date();
+  const t: Tournament = {
+    id: randomUUID(),
+    name: options.name?.trim() || `Blackjack tournament ${new Date().toISOString().slice(0, 10)}`,
+    createdAt: createdAt.toISOString(),
+    startsAt: new Date(createdAt.getTime() + bettingWindowMs).toISOString(),
+    status: bettingWindowMs > 0 ? "betting" : "running",
+    entrants,
+    handsPerRound: Math.max(1, Math.min(100, Math.round(options.handsPerRound ?? DEFAULT_HANDS_PER_ROUND))),
+    bankrollCents,
+    tableSize: Math.max(2, Math.min(MAX_SEATS, Math.round(options.tableSize ?? MAX_SEATS))),
+    rules: resolveTableRules(options.rules),
+    prizePoolCents: Math.max(0, Math.round(options.buyInCents ?? bankrollCents)) * entrants.length,
+    payouts: payouts.length > 0 ? payouts : DEFAULT_PAYOUTS,
+    rounds: [],
+    bettingOpen: true,
+    winner: null,
+    placings: [],
+  };
+  saveTournament(t);
+  runTournament(t).catch((e) => {
+    t.status = "failed";
+    t.bettingOpen = false;
+    t.error = e instanceof Error ? e.message : String(e);
+    console.error("Tournament failed:", t.id, t.error);
+    settleBets(t);
+    emit(t.id, { type: "done" });
+  });
+  return t;
+}
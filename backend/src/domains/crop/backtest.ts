@@ -0,0 +1,283 @@
+/**
+ * Crop backtests: models trade the same stored historical window (sources/price-store.ts) bar by bar, in
+ * walk-forward order. At each bar every model sees that bar's close and its own portfolio and history so far,
+ * never a later bar, and its trade fills at that close, paying the configured execution costs; its resting orders
+ * (orders.ts) are checked against each later close before it is asked again. Nothing is fetched live, settled or sent to HCS,
+ * so a backtest replayed from a cassette (ai/cassette.ts) gives the same equity curves offline. Compliance is reported in
+ * the backtest's own result and kept out of the live crop compliance stats.
+ *
+ * Each model starts from the crop bankroll and trades alone; the result ranks them by final value.
+ */
+
+import { randomUUID } from "crypto";
+import { config } from "../../config.js";
+import { getAIProvider } from "../../ai/index.js";
+import { summarizeCompliance, type ComplianceStats } from "../../ai/structured.js";
+import { sumUsage, type UsageTotals } from "../../ai/usage.js";
+import { findCommodity, withVolatility, type Commodity, type CommodityQuote } from "../../sources/commodities.js";
+import { isBarInterval, loadBars, BAR_INTERVALS, type BarInterval } from "../../sources/price-store.js";
+import { addCosts, totalCostsCents, NO_COSTS, type CropCosts, type CropExecution } from "./execution.js";
+import { newCropOrderBook } from "./orders.js";
+import { newCropPortfolio, type CropPortfolio, type CropTrade } from "./portfolio.js";
+import { getCropAccount, getCropExecution, tradeStep, type CropAccount, type CropPortfolioSnapshot } from "./service.js";
+
+export type CropBacktestStatus = "running" | "finished" | "failed";
+
+/** A trade that filled (holds and trades that filled nothing are left out), at a step or by a resting order. */
+export type CropBacktestTrade = {
+  date: string;
+  trade: Exclude<CropTrade, "hold">;
+  commodity: string;
+  /** The resting order that placed it, if any. */
+  orderId?: number;
+  /** As asked: dollars for a cash or margin buy, contracts in futures, otherwise units (0 for an order fill; see the order). */
+  size: number;
+  /** Units bought or sold (a fill after a forced liquidation counts from flat), and the price ($/unit) they filled at. */
+  filled: number;
+  price: number;
+  /** Execution costs the fill paid (for a step's trade, with any liquidation before it), when any. */
+  costs?: CropCosts;
+  cashCents: number;
+  valueCents: number;
+  reasoning: string | null;
+};
+
+export type CropBacktestModel = {
+  modelId: string;
+  finalValueCents: number;
+  returnPct: number;
+  /** Largest fall from a previous equity peak, in percent of that peak. */
+  maxDrawdownPct: number;
+  /** Bars at which every position was force-closed for falling below the maintenance margin. */
+  liquidations: number;
+  /** Execution costs paid over the run, already in the final value; their total added back is the return at quoted prices. */
+  costs: CropCosts;
+  /** Portfolio value at every bar's close. */
+  equity: { date: string; valueCents: number }[];
+  trades: CropBacktestTrade[];
+  compliance: ComplianceStats;
+  usage: UsageTotals;
+};
+
+export type CropBacktest = {
+  id: string;
+  createdAt: string;
+  status: CropBacktestStatus;
+  commodities: string[];
+  interval: BarInterval;
+  /** Account the models trade in (CROP_TRADING_MODE and its margin rates). */
+  account: CropAccount;
+  /** Commission, spread and slippage every fill paid (CROP_COMMISSION_*, CROP_SPREAD_*, CROP_SLIPPAGE_*). */
+  execution: CropExecution;
+  /** First and last bar of the window. */
+  from: string;
+  to: string;
+  bars: number;
+  barsDone: number;
+  modelIds: string[];
+  startValueCents: number;
+  /** Best final value first, once finished. */
+  models: CropBacktestModel[];
+  error?: string;
+};
+
+export type CropBacktestOptions = {
+  /** First is the headline commodity; defaults to corn. */
+  commodities?: string[];
+  interval?: string;
+  from?: string;
+  to?: string;
+  modelIds: string[];
+};
+
+/** A window longer than this is refused: every bar costs one model call per model. */
+export const MAX_BACKTEST_BARS = 500;
+const MAX_BACKTEST_MODELS = 8;
+
+/** backtestId -> backtest (most recent, server session) */
+const backtests = new Map<string, CropBacktest>();
+const MAX_BACKTESTS = 50;
+
+export function getCropBacktest(id: string): CropBacktest | undefined {
+  return backtests.get(id);
+}
+
+/** Recent backtests, newest first, without curves and trade logs. */
+export function listCropBacktests(): (Omit<CropBacktest, "models"> & { models: Omit<CropBacktestModel, "equity" | "trades">[] })[] {
+  return Array.from(backtests.values())
+    .reverse()
+    .map((b) => ({ ...b, models: b.models.map(({ equity: _e, trades: _t, ...rest }) => rest) }));
+}
+
+function saveBacktest(b: CropBacktest): void {
+  backtests.set(b.id, b);
+  while (backtests.size > MAX_BACKTESTS) backtests.delete(backtests.keys().next().value!);
+}
+
+/**
+ * The window's bars as quotes: dates every commodity has a bar for, oldest first. Their volatility (for a
+ * volatility-scaled spread) also looks back over stored bars before the window.
+ */
+function windowQuotes(market: Commodity[], interval: BarInterval, from?: string, to?: string): CommodityQuote[] {
+  const byDate = new Map<string, Record<string, number>>();
+  for (const commodity of market) {
+    const bars = loadBars(commodity, interval, undefined, to);
+    if (!bars.some((b) => !from || b.date >= from)) {
+      throw new Error(`No stored ${interval} ${commodity.name} bars${from || to ? ` from ${from ?? "the start"} to ${to ?? "the end"}` : ""}; ingest some first`);
+    }
+    for (const bar of bars) byDate.set(bar.date, { ...byDate.get(bar.date), [commodity.id]: bar.close });
+  }
+  const quotes = [...byDate]
+    .filter(([, prices]) => market.every((c) => prices[c.id] != null))
+    .map(([date, prices]) => ({ date, prices }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return withVolatility(quotes).filter((q) => !from || q.date >= from);
+}
+
+function maxDrawdownPct(equity: { valueCents: number }[]): number {
+  let peak = 0;
+  let worst = 0;
+  for (const { valueCents } of equity) {
+    peak = Math.max(peak, valueCents);
+    if (peak > 0) worst = Math.max(worst, (peak - valueCents) / peak);
+  }
+  return Math.round(worst * 10000) / 100;
+}
+
+/** A step's execution costs less its resting order fills': the trade's and any liquidation's. */
+function tradeCosts(s: CropPortfolioSnapshot): CropCosts | undefined {
+  if (!s.costs) return undefined;
+  const fills = (s.orderFills ?? []).reduce((sum, f) => (f.costs ? addCosts(sum, f.costs) : sum), NO_COSTS);
+  return {
+    commissionCents: s.costs.commissionCents - fills.commissionCents,
+    spreadCents: s.costs.spreadCents - fills.spreadCents,
+    slippageCents: s.costs.slippageCents - fills.slippageCents,
+  };
+}
+
+function tradesOf(history: CropPortfolioSnapshot[]): CropBacktestTrade[] {
+  return history.flatMap((s, i) => {
+    const fills: CropBacktestTrade[] = (s.orderFills ?? []).flatMap((f) =>
+      f.units === 0 || f.trade === "hold"
+        ? []
+        : [{
+            date: f.date,
+            trade: f.trade,
+            commodity: f.commodity,
+            orderId: f.orderId,
+            size: 0,
+            filled: Math.abs(f.units),
+            price: f.price,
+            ...(f.costs && { costs: f.costs }),
+            cashCents: s.cashCents,
+            valueCents: s.valueCents,
+            reasoning: null,
+          }]
+    );
+    const commodity = s.commodity;
+    if (!commodity || !s.trade || s.trade === "hold") return fills;
+    const fromFills = (s.orderFills ?? []).reduce((sum, f) => sum + (f.commodity === commodity ? f.units : 0), 0);
+    const before = i > 0 && !s.liquidated ? (history[i - 1].positions?.[commodity] ?? 0) + fromFills : 0;
+    const filled = Math.abs((s.positions?.[commodity] ?? 0) - before);
+    if (filled === 0) return fills;
+    const costs = tradeCosts(s);
+    return [...fills, {
+      date: s.date,
+      trade: s.trade,
+      commodity,
+      size: s.size ?? 0,
+      filled,
+      price: s.prices?.[commodity] ?? 0,
+      ...(costs && totalCostsCents(costs) > 0 && { costs }),
+      cashCents: s.cashCents,
+      valueCents: s.valueCents,
+      reasoning: s.reasoning ?? null,
+    }];
+  });
+}
+
+function modelResult(b: CropBacktest, modelId: string, history: CropPortfolioSnapshot[]): CropBacktestModel {
+  const equity = history.map((s) => ({ date: s.date, valueCents: s.valueCents }));
+  const finalValueCents = equity[equity.length - 1]?.valueCents ?? b.startValueCents;
+  return {
+    modelId,
+    finalValueCents,
+    returnPct: Math.round(((finalValueCents - b.startValueCents) / b.startValueCents) * 10000) / 100,
+    maxDrawdownPct: maxDrawdownPct(equity),
+    liquidations: history.filter((s) => s.liquidated).length,
+    costs: history.reduce((sum, s) => (s.costs ? addCosts(sum, s.costs) : sum), NO_COSTS),
+    equity,
+    trades: tradesOf(history),
+    compliance: summarizeCompliance(modelId, history.flatMap((s) => (s.compliance ? [s.compliance] : []))),
+    usage: sumUsage(history.map((s) => s.usage)),
+  };
+}
+
+async function runBacktest(b: CropBacktest, market: Commodity[], quotes: CommodityQuote[]): Promise<void> {
+  const seats = b.modelIds.map((modelId) => ({
+    modelId,
+    provider: getAIProvider(modelId)!,
+    portfolio: newCropPortfolio(b.startValueCents) as CropPortfolio,
+    book: newCropOrderBook(),
+    history: [] as CropPortfolioSnapshot[],
+  }));
+  for (const quote of quotes) {
+    // Models trade independently, so they are asked at once; the next bar waits for all of them
+    const steps = await Promise.all(seats.map((s) => tradeStep(market, s.modelId, s.provider, quote, s.portfolio, s.history, s.book, [quote], { recordCompliance: false })));
+    steps.forEach((step, i) => {
+      seats[i].portfolio = step.portfolio;
+      seats[i].book = step.book;
+      seats[i].history.push(step.snapshot);
+    });
+    b.barsDone++;
+  }
+  b.models = seats.map((s) => modelResult(b, s.modelId, s.history)).sort((x, y) => y.finalValueCents - x.finalValueCents);
+  b.status = "finished";
+}
+
+/**
+ * Validate a backtest, load its window from the price store and start it in the background.
+ * Throws on unknown models or commodities, a bad interval or an empty or oversized window, so the route can answer 400.
+ */
+export function createCropBacktest(options: CropBacktestOptions): CropBacktest {
+  const modelIds = [...new Set(options.modelIds)];
+  if (modelIds.length === 0 || modelIds.length > MAX_BACKTEST_MODELS) throw new Error(`modelIds must list 1 to ${MAX_BACKTEST_MODELS} models`);
+  const unknownModel = modelIds.find((id) => !getAIProvider(id));
+  if (unknownModel) throw new Error(`Unknown model: ${unknownModel}`);
+  const ids = options.commodities?.length ? [...new Set(options.commodities.map((id) => id.trim().toLowerCase()))] : ["corn"];
+  const market = ids.map((id) => findCommodity(id));
+  const unknownCommodity = ids.find((_, i) => !market[i]);
+  if (unknownCommodity) throw new Error(`Unknown commodity: ${unknownCommodity}`);
+  const interval = options.interval ?? "1d";
+  if (!isBarInterval(interval)) throw new Error(`interval must be one of ${BAR_INTERVALS.join(", ")}`);
+
+  const quotes = windowQuotes(market as Commodity[], interval, options.from, options.to);
+  if (quotes.length === 0) throw new Error("The commodities have no bars on common dates in that window");
+  if (quotes.length > MAX_BACKTEST_BARS) {
+    throw new Error(`The window has ${quotes.length} bars; at most ${MAX_BACKTEST_BARS} (narrow the dates or use a coarser interval)`);
+  }
+
+  const b: CropBacktest = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    status: "running",
+    commodities: ids,
+    interval,
+    account: getCropAccount(),
+    execution: getCropExecution(),
+    from: quotes[0].date,
+    to: quotes[quotes.length - 1].date,
+    bars: quotes.length,
+    barsDone: 0,
+    modelIds,
+    startValueCents: config.cropBankrollCents,
+    models: [],
+  };
+  saveBacktest(b);
+  runBacktest(b, market as Commodity[], quotes).catch((e) => {
+    b.status = "failed";
+    b.error = e instanceof Error ? e.message : String(e);
+    console.error("Crop backtest failed:", b.id, b.error);
+  });
+  return b;
+}
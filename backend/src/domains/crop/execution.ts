@@ -0,0 +1,76 @@
+/**
+ * Crop execution costs: what a fill pays beyond the quoted (mid) price. A trade still moves the position at the
+ * quote, and these costs are charged to cash on top, itemised so P/L from price moves can be told apart from
+ * P/L lost to trading:
+ *
+ * - commission: per contract traded (pro rata for bushels outside a futures account) plus a percentage of notional;
+ * - spread: half the bid/ask spread on every fill, fixed in basis points of the price or scaled to the commodity's
+ *   recent volatility, whichever is wider;
+ * - slippage: market impact that grows with size, in basis points of the price per contract traded.
+ */
+
+import type { Commodity } from "../../sources/commodities.js";
+
+export type CropExecution = {
+  /** Dollars per contract traded. */
+  commissionPerContract: number;
+  /** Percent of the notional traded. */
+  commissionPct: number;
+  /** Full bid/ask spread in basis points of the price; a fill pays half. */
+  spreadBps: number;
+  /** When > 0, the spread is at least this multiple of the commodity's per-step volatility (CommodityQuote.volatility). */
+  spreadVolMultiple: number;
+  /** Price impact in basis points per contract traded, so a fill of n contracts pays n times this on each unit. */
+  slippageBpsPerContract: number;
+};
+
+export const NO_EXECUTION_COSTS: CropExecution = { commissionPerContract: 0, commissionPct: 0, spreadBps: 0, spreadVolMultiple: 0, slippageBpsPerContract: 0 };
+
+/** One step's execution costs (cents), summed over its fills. */
+export type CropCosts = { commissionCents: number; spreadCents: number; slippageCents: number };
+
+export const NO_COSTS: CropCosts = { commissionCents: 0, spreadCents: 0, slippageCents: 0 };
+
+export function hasExecutionCosts(execution: CropExecution): boolean {
+  return Object.values(execution).some((v) => v > 0);
+}
+
+export function totalCostsCents(costs: CropCosts | undefined): number {
+  return costs ? costs.commissionCents + costs.spreadCents + costs.slippageCents : 0;
+}
+
+export function addCosts(a: CropCosts, b: CropCosts): CropCosts {
+  return { commissionCents: a.commissionCents + b.commissionCents, spreadCents: a.spreadCents + b.spreadCents, slippageCents: a.slippageCents + b.slippageCents };
+}
+
+/** Costs of filling `units` (either side) at `price` ($/unit); `volatility` is the commodity's recent per-step volatility, if known. */
+export function cropFillCosts(execution: CropExecution, commodity: Commodity, units: number, price: number, volatility?: number): CropCosts {
+  const quantity = Math.abs(units);
+  if (quantity === 0) return NO_COSTS;
+  const notionalCents = quantity * price * 100;
+  const contracts = quantity / commodity.contractSize;
+  const spread = Math.max(execution.spreadBps / 10_000, execution.spreadVolMultiple * (volatility ?? 0));
+  return {
+    commissionCents: Math.round(contracts * execution.commissionPerContract * 100 + (notionalCents * execution.commissionPct) / 100),
+    spreadCents: Math.round((notionalCents * spread) / 2),
+    slippageCents: Math.round((notionalCents * execution.slippageBpsPerContract * contracts) / 10_000),
+  };
+}
+
+/** The costs in a sentence for prompts; empty when trading is free. */
+export function describeExecution(execution: CropExecution): string {
+  if (!hasExecutionCosts(execution)) return "";
+  const parts = [
+    execution.commissionPerContract > 0 && `a commission of $${execution.commissionPerContract.toFixed(2)} per contract (pro rata for part of a contract)`,
+    execution.commissionPct > 0 && `a commission of ${execution.commissionPct}% of the amount traded`,
+    (execution.spreadBps > 0 || execution.spreadVolMultiple > 0) &&
+      `half the bid/ask spread (${[
+        execution.spreadBps > 0 && `${execution.spreadBps} bps of the price`,
+        execution.spreadVolMultiple > 0 && `${execution.spreadVolMultiple}x recent volatility`,
+      ]
+        .filter(Boolean)
+        .join(", or ")}${execution.spreadBps > 0 && execution.spreadVolMultiple > 0 ? ", whichever is wider" : ""})`,
+    execution.slippageBpsPerContract > 0 && `slippage of ${execution.slippageBpsPerContract} bps of the price per contract traded, so larger trades cost more per bushel`,
+  ].filter(Boolean);
+  return `Trading costs: every trade pays ${parts.join(", ")}. Costs come out of your cash, so frequent trading has to earn more than it costs.`;
+}
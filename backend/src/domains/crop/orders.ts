@@ -0,0 +1,220 @@
+/**
+ * Resting orders for crop agents: limit and stop orders that wait in an agent's book between its decisions and are
+ * checked against every price in between (each intraday bar in auto-play, each daily close in the test runs), so a
+ * model asked only every few minutes can still take profit or cut a loss in the meantime.
+ *
+ * - limit_buy: buys once the price is at or below its limit (SIZE as for buy: dollars, contracts in futures);
+ * - limit_sell: sells once the price is at or above its limit (SIZE in units, contracts in futures); outside cash
+ *   mode it fills like short, so it may go on past flat;
+ * - stop: protects the position it was placed against, down to flat: a long is sold once the price falls to the
+ *   stop, a short covered once it rises to it.
+ *
+ * A triggered order fills at that bar's price (through a gap, a limit gets the better price and a stop the worse)
+ * by applyCropTrade, with its margin checks and execution costs, and leaves the book even when nothing could fill.
+ * gtc orders rest until filled or cancelled; day orders expire when the UTC day they were placed on ends.
+ */
+
+import { findCommodity, type Commodity, type CommodityQuote } from "../../sources/commodities.js";
+import type { ComplianceEvent } from "../../ai/structured.js";
+import { addCosts, totalCostsCents, NO_COSTS, NO_EXECUTION_COSTS, type CropCosts, type CropExecution } from "./execution.js";
+import { applyCropTrade, CASH_ACCOUNT, type CropAccount, type CropPortfolio, type CropTrade } from "./portfolio.js";
+
+export const CROP_ORDER_TYPES = ["limit_buy", "limit_sell", "stop"] as const;
+export type CropOrderType = (typeof CROP_ORDER_TYPES)[number];
+
+export const TIMES_IN_FORCE = ["gtc", "day"] as const;
+export type TimeInForce = (typeof TIMES_IN_FORCE)[number];
+
+/** Open orders an agent may have at once; further orders are dropped. */
+export const MAX_OPEN_ORDERS = 5;
+
+export type CropOrder = {
+  id: number;
+  type: CropOrderType;
+  commodity: string;
+  /** Limit or stop price ($/unit). */
+  price: number;
+  /** As for the trade it places: dollars for a cash or margin limit_buy, contracts in futures, otherwise units. */
+  size: number;
+  timeInForce: TimeInForce;
+  /** The trade a fill places: buy, sell or short for a limit; sell (below a long) or cover (above a short) for a stop. */
+  trade: CropTrade;
+  /** Date of the step it was placed at. */
+  placedAt: string;
+};
+
+export type CropOrderFill = {
+  orderId: number;
+  type: CropOrderType;
+  trade: CropTrade;
+  commodity: string;
+  /** The bar it filled at, and that bar's price ($/unit). */
+  date: string;
+  price: number;
+  /** Units bought (positive) or sold (negative); 0 when it triggered but nothing could fill (no cash or margin, already flat). */
+  units: number;
+  costs?: CropCosts;
+};
+
+/** An agent's open orders and the number its next order gets (numbers are never reused). */
+export type CropOrderBook = { orders: CropOrder[]; nextId: number };
+
+export function newCropOrderBook(): CropOrderBook {
+  return { orders: [], nextId: 1 };
+}
+
+/** An order as a model asked for it, before validation. */
+export type CropOrderRequest = { type: string; commodity: string | null; size: number; price: number; timeInForce?: string | null };
+
+function triggered(order: CropOrder, price: number): boolean {
+  if (order.type === "limit_buy") return price <= order.price;
+  if (order.type === "limit_sell") return price >= order.price;
+  return order.trade === "sell" ? price <= order.price : price >= order.price;
+}
+
+const dayOf = (date: string) => date.slice(0, 10);
+
+function expired(order: CropOrder, date: string): boolean {
+  return order.timeInForce === "day" && dayOf(date) > dayOf(order.placedAt);
+}
+
+/**
+ * Check the book against each bar in turn (oldest first; every commodity priced in each): day orders placed on an
+ * earlier day expire, then each triggered order fills in number order. Returns the portfolio, the orders left, the
+ * fills and their execution costs.
+ */
+export function fillRestingOrders(
+  portfolio: CropPortfolio,
+  book: CropOrderBook,
+  bars: CommodityQuote[],
+  market: Commodity[],
+  account: CropAccount = CASH_ACCOUNT,
+  execution: CropExecution = NO_EXECUTION_COSTS
+): { portfolio: CropPortfolio; book: CropOrderBook; fills: CropOrderFill[]; costs: CropCosts } {
+  let current = portfolio;
+  let orders = book.orders;
+  let costs = NO_COSTS;
+  const fills: CropOrderFill[] = [];
+  for (const bar of bars) {
+    orders = orders.filter((o) => !expired(o, bar.date));
+    for (const order of orders) {
+      const commodity = market.find((c) => c.id === order.commodity);
+      const price = bar.prices[order.commodity];
+      if (!commodity || price == null || !triggered(order, price)) continue;
+      const before = current.positions[order.commodity] ?? 0;
+      const fill = applyCropTrade(current, order.trade, order.size, commodity, bar, account, execution);
+      current = fill.portfolio;
+      costs = addCosts(costs, fill.costs);
+      fills.push({
+        orderId: order.id,
+        type: order.type,
+        trade: order.trade,
+        commodity: order.commodity,
+        date: bar.date,
+        price,
+        units: (current.positions[order.commodity] ?? 0) - before,
+        ...(totalCostsCents(fill.costs) > 0 && { costs: fill.costs }),
+      });
+    }
+    orders = orders.filter((o) => !fills.some((f) => f.orderId === o.id));
+  }
+  return { portfolio: current, book: { ...book, orders }, fills, costs };
+}
+
+/** The trade an order places, given the position it is placed against; null for a stop with nothing to protect. */
+function tradeFor(type: CropOrderType, held: number, account: CropAccount): CropTrade | null {
+  if (type === "limit_buy") return "buy";
+  if (type === "limit_sell") return account.mode === "cash" ? "sell" : "short";
+  return held > 0 ? "sell" : held < 0 ? "cover" : null;
+}
+
+/**
+ * Apply a reply's cancels ("all" or order numbers), then its new orders, against the portfolio after its trade.
+ * Events record orders that could not be placed (unknown type or commodity, no size or price, a stop with no
+ * position, a full book) and cancels of orders that are not open.
+ */
+export function updateCropOrderBook(
+  book: CropOrderBook,
+  cancels: string[],
+  requests: CropOrderRequest[],
+  market: Commodity[],
+  portfolio: CropPortfolio,
+  date: string,
+  account: CropAccount,
+  events: ComplianceEvent[]
+): CropOrderBook {
+  let orders = book.orders;
+  let nextId = book.nextId;
+  for (const cancel of cancels.map((c) => c.trim().replace(/^#/, "")).filter(Boolean)) {
+    if (/^all$/i.test(cancel)) {
+      orders = [];
+    } else if (orders.some((o) => String(o.id) === cancel)) {
+      orders = orders.filter((o) => String(o.id) !== cancel);
+    } else {
+      events.push({ field: "cancel", issue: "not_offered", detail: `no open order #${cancel}` });
+    }
+  }
+  for (const request of requests) {
+    const type = request.type.trim().toLowerCase() as CropOrderType;
+    if (!CROP_ORDER_TYPES.includes(type)) {
+      events.push({ field: "order", issue: "not_offered", detail: `${request.type} is not an order type; dropped` });
+      continue;
+    }
+    const commodity = request.commodity ? findCommodity(request.commodity) : market.length === 1 ? market[0] : undefined;
+    if (!commodity || !market.includes(commodity)) {
+      const detail = request.commodity ? `${request.commodity} is not traded; dropped` : `${type} without a commodity; dropped`;
+      events.push({ field: "order", issue: request.commodity ? "not_offered" : "unparsed", detail });
+      continue;
+    }
+    if (!(request.size > 0) || !(request.price > 0)) {
+      events.push({ field: "order", issue: "unparsed", detail: `${type} ${commodity.id} needs a positive size and price; dropped` });
+      continue;
+    }
+    const trade = tradeFor(type, portfolio.positions[commodity.id] ?? 0, account);
+    if (!trade) {
+      events.push({ field: "order", issue: "not_offered", detail: `stop ${commodity.id} with no position to protect; dropped` });
+      continue;
+    }
+    if (orders.length >= MAX_OPEN_ORDERS) {
+      events.push({ field: "order", issue: "clamped", detail: `${type} ${commodity.id} dropped: ${MAX_OPEN_ORDERS} orders already open` });
+      continue;
+    }
+    const timeInForce: TimeInForce = request.timeInForce?.trim().toLowerCase() === "day" ? "day" : "gtc";
+    orders = [...orders, { id: nextId++, type, commodity: commodity.id, price: request.price, size: request.size, timeInForce, trade, placedAt: date }];
+  }
+  return { orders, nextId };
+}
+
+/** An order in a prompt line, e.g. "#3 stop: sell up to 5000 bushels of corn at or below $3.90 (gtc, placed 2026-05-01)". */
+function describeOrder(order: CropOrder, account: CropAccount): string {
+  const commodity = findCommodity(order.commodity);
+  const units = account.mode === "futures" ? "contracts" : commodity?.units ?? "units";
+  const amount = order.trade === "buy" && account.mode !== "futures" ? `$${order.size.toFixed(2)} of` : `up to ${order.size} ${units} of`;
+  const at = order.type === "limit_buy" || (order.type === "stop" && order.trade === "sell") ? "at or below" : "at or above";
+  return `#${order.id} ${order.type}: ${order.trade} ${amount} ${order.commodity} ${at} $${order.price.toFixed(2)} (${order.timeInForce}, placed ${order.placedAt})`;
+}
+
+function describeFill(fill: CropOrderFill, account: CropAccount): string {
+  const commodity = findCommodity(fill.commodity);
+  const units = account.mode === "futures" && commodity ? `${Math.abs(fill.units) / commodity.contractSize} contracts` : `${Math.abs(fill.units)} ${commodity?.units ?? "units"}`;
+  const what = fill.units === 0 ? "triggered but nothing could be filled" : `${fill.units > 0 ? "bought" : "sold"} ${units} at $${fill.price.toFixed(2)}`;
+  return `#${fill.orderId} ${fill.type} ${fill.commodity}: ${what} (${fill.date})`;
+}
+
+/** The prompt section offering resting orders, with the fills since the last decision and the open book. */
+export function describeCropOrders(market: Commodity[], book: CropOrderBook, fills: CropOrderFill[], account: CropAccount): string {
+  const single = market.length === 1;
+  const futures = account.mode === "futures";
+  const lot = futures ? "contracts" : [...new Set(market.map((c) => c.units))].join(" or ");
+  const commodity = single ? "" : ` ${market.map((c) => c.id).join("|")}`;
+  return `Resting orders (optional): besides the trade above you may leave orders that wait between your decisions and are checked against every price until you are asked again.
+- limit_buy: buy once the price is at or below PRICE (SIZE = ${futures ? "contracts" : "dollars to spend"}).
+- limit_sell: sell once the price is at or above PRICE (SIZE = ${lot}${account.mode === "cash" ? ", up to what you hold" : "; past flat it sells short"}).
+- stop: close up to SIZE ${lot} of your current position if the price moves against it: a long is sold at or below PRICE${account.mode === "cash" ? "" : ", a short covered at or above it"}.
+A triggered order fills at that moment's price. gtc orders rest until filled or cancelled; day orders expire at the end of the day. At most ${MAX_OPEN_ORDERS} open orders.
+Add one line per new order, and one line to cancel open orders by number:
+ORDER: limit_buy|limit_sell|stop${commodity} <size> @ <price> gtc|day
+CANCEL: <order number>, ...|all
+
+${fills.length > 0 ? `Orders filled since your last decision:\n${fills.map((f) => `- ${describeFill(f, account)}`).join("\n")}\n` : ""}Your open orders:${book.orders.length > 0 ? `\n${book.orders.map((o) => `- ${describeOrder(o, account)}`).join("\n")}` : " none"}`;
+}
@@ -0,0 +1,208 @@
+/**
+ * A crop portfolio: cash plus a position in each traded commodity, in one of three account modes (CROP_TRADING_MODE).
+ *
+ * - cash: buys are paid for in full and cut to the cash; sells are cut to the units held (no shorting, no borrowing).
+ * - margin: positions may be short (negative units) and longs may be bought on credit (negative cash). Opening or
+ *   adding to a position is cut so that gross exposure stays within equity / initial margin; when equity falls below
+ *   the maintenance margin of the exposure, every position is closed at the current price (forced liquidation).
+ * - futures: positions are whole contracts (Commodity.contractSize units) and cost nothing to open; the account is
+ *   marked to market at every price step (variation margin moves between cash and the open positions), with the same
+ *   initial and maintenance margin checks.
+ *
+ * Trades fill at the quoted price, and pay any execution costs (execution.ts) from cash on top, so the cost basis
+ * stays at the quote. buy and cover add units, sell and short remove them: sell stops at flat from a long, cover at
+ * flat from a short, while buy and short may go through flat to the other side.
+ */
+
+import { findCommodity, type Commodity, type CommodityQuote } from "../../sources/commodities.js";
+import { addCosts, cropFillCosts, totalCostsCents, NO_COSTS, NO_EXECUTION_COSTS, type CropCosts, type CropExecution } from "./execution.js";
+
+export const CROP_TRADES = ["buy", "sell", "short", "cover", "hold"] as const;
+export type CropTrade = (typeof CROP_TRADES)[number];
+
+export type CropTradingMode = "cash" | "margin" | "futures";
+
+/** The account a portfolio trades in: its mode and margin rates (fractions of gross exposure; unused in cash mode). */
+export type CropAccount = { mode: CropTradingMode; initialMargin: number; maintenanceMargin: number };
+
+export const CASH_ACCOUNT: CropAccount = { mode: "cash", initialMargin: 1, maintenanceMargin: 0 };
+
+/** Default margin rates by mode: a Reg T-style stock margin account, and roughly the exchange's margin on grain futures. */
+export const DEFAULT_MARGINS: Record<Exclude<CropTradingMode, "cash">, { initialMargin: number; maintenanceMargin: number }> = {
+  margin: { initialMargin: 0.5, maintenanceMargin: 0.3 },
+  futures: { initialMargin: 0.08, maintenanceMargin: 0.06 },
+};
+
+export type CropPortfolio = {
+  /** Cash (margin: negative when borrowing; futures: the account balance after the last settlement). */
+  cashCents: number;
+  /** Units held (e.g. bushels) by commodity id; negative is short. */
+  positions: Record<string, number>;
+  /** Cost basis (cents) of each position, signed like it — for accurate avg cost and P/L. avgCost¢/unit = costBasis / units */
+  costBasis: Record<string, number>;
+  /** Futures: the price ($/unit) each position was last settled at. */
+  marks?: Record<string, number>;
+};
+
+export function newCropPortfolio(cashCents: number): CropPortfolio {
+  return { cashCents, positions: {}, costBasis: {} };
+}
+
+const cents = (price: number) => Math.round(price * 100);
+
+/** Cash plus every position at the given prices (dollars per unit, by commodity id); unpriced positions count 0. Futures count only the move since the last settlement. */
+export function cropPortfolioValueCents(portfolio: CropPortfolio, prices: Record<string, number>): number {
+  return Object.entries(portfolio.positions).reduce(
+    (sum, [id, units]) => sum + units * (cents(prices[id] ?? 0) - cents(portfolio.marks?.[id] ?? 0)),
+    portfolio.cashCents
+  );
+}
+
+/** Gross exposure: every position's notional value at the given prices, longs and shorts alike (cents). */
+export function cropExposureCents(portfolio: CropPortfolio, prices: Record<string, number>): number {
+  return Object.entries(portfolio.positions).reduce((sum, [id, units]) => sum + Math.abs(units) * cents(prices[id] ?? 0), 0);
+}
+
+/** Units a trade asks for: dollars of units for a cash or margin buy, contracts in futures, otherwise units. */
+export function requestedCropUnits(trade: CropTrade, size: number, commodity: Commodity, price: number, account: CropAccount): number {
+  if (trade === "hold" || !(size > 0)) return 0;
+  if (account.mode === "futures") return Math.floor(size) * commodity.contractSize;
+  if (trade === "buy") return cents(price) > 0 ? Math.floor(Math.round(size * 100) / cents(price)) : 0;
+  return Math.floor(size);
+}
+
+/**
+ * The most units a trade can fill: sell and cover up to flat; in cash mode a buy up to the cash (short is not offered);
+ * otherwise buy and short up to the position whose exposure, with the others', stays within equity / initial margin.
+ * Futures limits are in whole contracts.
+ */
+export function maxCropTradeUnits(portfolio: CropPortfolio, trade: CropTrade, commodity: Commodity, prices: Record<string, number>, account: CropAccount): number {
+  const held = portfolio.positions[commodity.id] ?? 0;
+  const priceCents = cents(prices[commodity.id] ?? 0);
+  const lot = account.mode === "futures" ? commodity.contractSize : 1;
+  const whole = (units: number) => Math.max(0, Math.floor(units / lot) * lot);
+  if (trade === "sell") return whole(held);
+  if (trade === "cover") return whole(-held);
+  if (priceCents <= 0 || (trade !== "buy" && trade !== "short")) return 0;
+  if (account.mode === "cash") return trade === "buy" ? Math.floor(Math.max(0, portfolio.cashCents) / priceCents) : 0;
+  const equity = cropPortfolioValueCents(portfolio, prices);
+  const others = cropExposureCents(portfolio, prices) - Math.abs(held) * priceCents;
+  const maxPosition = Math.max(0, Math.floor((equity / account.initialMargin - others) / priceCents));
+  return whole(trade === "buy" ? maxPosition - held : maxPosition + held);
+}
+
+/** Signed cost basis after a position moves from `held` to `held + delta` at `price`: reduced pro rata, or restarted when it flips side. */
+function costBasisAfter(costBasis: number, held: number, delta: number, price: number): number {
+  const next = held + delta;
+  if (delta === 0) return costBasis;
+  if (next === 0) return 0;
+  if (held === 0 || Math.sign(next) !== Math.sign(held)) return next * price * 100;
+  if (Math.abs(next) > Math.abs(held)) return costBasis + delta * price * 100; // exact price for accurate weighted avg
+  return Math.round((costBasis * next) / held);
+}
+
+/** A portfolio after a trade or settlement, and the execution costs its fills paid. */
+export type CropFill = { portfolio: CropPortfolio; costs: CropCosts };
+
+/** The largest of 0..units that fits (fits must hold for every smaller count once it holds for one). */
+function largestFitting(units: number, fits: (units: number) => boolean): number {
+  let [low, high] = [0, units];
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (fits(mid)) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Apply one trade at the quote (dollars per unit by commodity id; the others' prices count for margin and the
+ * volatility for the spread), within maxCropTradeUnits. A cash or margin buy spends up to `size` dollars on whole
+ * units; in futures `size` is contracts; otherwise it is units. Execution costs come out of cash; in cash mode a buy
+ * is cut so that it and its costs fit in the cash. Returns a new portfolio.
+ */
+export function applyCropTrade(
+  portfolio: CropPortfolio,
+  trade: CropTrade,
+  size: number,
+  commodity: Commodity,
+  quote: CommodityQuote,
+  account: CropAccount = CASH_ACCOUNT,
+  execution: CropExecution = NO_EXECUTION_COSTS
+): CropFill {
+  if (trade === "hold" || !(size > 0)) return { portfolio, costs: NO_COSTS };
+  if (account.mode === "cash" && trade !== "buy" && trade !== "sell") return { portfolio, costs: NO_COSTS };
+  const { prices } = quote;
+  const id = commodity.id;
+  const price = prices[id] ?? 0;
+  const costsOf = (units: number) => cropFillCosts(execution, commodity, units, price, quote.volatility?.[id]);
+  // Futures settle at these prices first, so a position opens and closes with no cash changing hands
+  const settled = account.mode === "futures" ? markToMarket(portfolio, prices) : portfolio;
+  const requested =
+    account.mode === "cash" && trade === "buy"
+      ? Math.floor(Math.min(settled.cashCents, Math.round(size * 100)) / Math.max(1, cents(price)))
+      : requestedCropUnits(trade, size, commodity, price, account);
+  const allowed = Math.min(requested, maxCropTradeUnits(settled, trade, commodity, prices, account));
+  const units =
+    account.mode === "cash" && trade === "buy"
+      ? largestFitting(allowed, (n) => n * cents(price) + totalCostsCents(costsOf(n)) <= settled.cashCents)
+      : allowed;
+  const delta = trade === "buy" || trade === "cover" ? units : -units;
+  const held = settled.positions[id] ?? 0;
+  const costs = costsOf(units);
+  return {
+    portfolio: {
+      ...settled,
+      cashCents: (account.mode === "futures" ? settled.cashCents : settled.cashCents - delta * cents(price)) - totalCostsCents(costs),
+      positions: { ...settled.positions, [id]: held + delta },
+      costBasis: { ...settled.costBasis, [id]: costBasisAfter(settled.costBasis[id] ?? 0, held, delta, price) },
+    },
+    costs,
+  };
+}
+
+/** Futures settlement: move each priced position's change since its last mark into cash and mark it at the price. */
+export function markToMarket(portfolio: CropPortfolio, prices: Record<string, number>): CropPortfolio {
+  const marks = { ...portfolio.marks };
+  let cashCents = portfolio.cashCents;
+  for (const [id, price] of Object.entries(prices)) {
+    const units = portfolio.positions[id] ?? 0;
+    if (units !== 0 && marks[id] != null) cashCents += units * (cents(price) - cents(marks[id]));
+    marks[id] = price;
+  }
+  return { ...portfolio, cashCents, marks };
+}
+
+/**
+ * Start-of-step account upkeep: futures settle at the step's prices; then, outside cash mode, an account whose equity
+ * is below the maintenance margin of its exposure has every position closed at those prices, paying execution costs.
+ */
+export function settleCropAccount(
+  portfolio: CropPortfolio,
+  quote: CommodityQuote,
+  account: CropAccount,
+  execution: CropExecution = NO_EXECUTION_COSTS
+): CropFill & { liquidated: boolean } {
+  if (account.mode === "cash") return { portfolio, costs: NO_COSTS, liquidated: false };
+  const { prices } = quote;
+  const settled = account.mode === "futures" ? markToMarket(portfolio, prices) : portfolio;
+  const exposure = cropExposureCents(settled, prices);
+  if (exposure === 0 || cropPortfolioValueCents(settled, prices) >= exposure * account.maintenanceMargin) {
+    return { portfolio: settled, costs: NO_COSTS, liquidated: false };
+  }
+  const closed = Object.keys(settled.positions).filter((id) => settled.positions[id] !== 0 && prices[id] != null);
+  const costs = closed.reduce((sum, id) => {
+    const commodity = findCommodity(id);
+    return commodity ? addCosts(sum, cropFillCosts(execution, commodity, settled.positions[id], prices[id], quote.volatility?.[id])) : sum;
+  }, NO_COSTS);
+  return {
+    portfolio: {
+      ...settled,
+      cashCents: cropPortfolioValueCents({ ...settled, positions: Object.fromEntries(closed.map((id) => [id, settled.positions[id]])) }, prices) - totalCostsCents(costs),
+      positions: { ...settled.positions, ...Object.fromEntries(closed.map((id) => [id, 0])) },
+      costBasis: { ...settled.costBasis, ...Object.fromEntries(closed.map((id) => [id, 0])) },
+    },
+    costs,
+    liquidated: true,
+  };
+}
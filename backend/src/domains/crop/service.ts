@@ -1,32 +1,141 @@
-import { getAIProvider } from "../../ai/index.js";
+import { getAIProvider, promptVariantOf, type AIProvider } from "../../ai/index.js";
+import { withChainOfThought, withSessionMemory } from "../../ai/prompt-variants.js";
+import { addUsage, newUsage, type UsageTotals } from "../../ai/usage.js";
+import { askFor, newCompliance, recordAsk, summarizeCompliance, type Compliance, type ComplianceEvent, type ComplianceStats } from "../../ai/structured.js";
 import { config } from "../../config.js";
-import { fetchCornPrices, fetchCornPricesForTrading, type CornPricePoint } from "../../sources/corn.js";
+import type { CornPricePoint } from "../../sources/corn.js";
+import {
+  COMMODITIES,
+  fetchCommodityPricesForTrading,
+  fetchCommodityQuotes,
+  findCommodity,
+  trailingVolatility,
+  type Commodity,
+  type CommodityPricePoint,
+  type CommodityQuote,
+} from "../../sources/commodities.js";
+import {
+  applyCropTrade,
+  cropExposureCents,
+  cropPortfolioValueCents,
+  maxCropTradeUnits,
+  newCropPortfolio,
+  requestedCropUnits,
+  settleCropAccount,
+  CASH_ACCOUNT,
+  DEFAULT_MARGINS,
+  type CropAccount,
+  type CropPortfolio,
+  type CropTrade,
+  type CropTradingMode,
+} from "./portfolio.js";
+import { addCosts, describeExecution, totalCostsCents, type CropCosts, type CropExecution } from "./execution.js";
+import {
+  describeCropOrders,
+  fillRestingOrders,
+  newCropOrderBook,
+  updateCropOrderBook,
+  type CropOrder,
+  type CropOrderBook,
+  type CropOrderFill,
+  type CropOrderRequest,
+} from "./orders.js";
 import { settleCropNextTestBets } from "./market.js";
 import { submitAiResult } from "../../hedera/hcs.js";
+import type { CropSnapshotPayload } from "../../hedera/schema.js";
+
+export type { CropAccount, CropPortfolio, CropTrade, CropTradingMode } from "./portfolio.js";
+export type { CropCosts, CropExecution } from "./execution.js";
+export type { CropOrder, CropOrderBook, CropOrderFill } from "./orders.js";
 
 const CROP_BANKROLL_CENTS = config.cropBankrollCents;
 const TEST_STEPS = 10; // number of trading steps (legacy multi-step run)
 const MS_PER_STEP = 2800; // ~3s per step (legacy)
 const MAX_HISTORY = 200; // cap accumulated history for single-step mode
 
-export type CropTrade = "buy" | "sell" | "hold";
+function tradedCommodities(ids: string[]): Commodity[] {
+  const list = (ids.length > 0 ? ids : ["corn"]).map((id) => {
+    const commodity = findCommodity(id);
+    if (!commodity) throw new Error(`CROP_COMMODITIES: unknown commodity "${id}" (known: ${COMMODITIES.map((c) => c.id).join(", ")})`);
+    return commodity;
+  });
+  return list.filter((c, i) => list.indexOf(c) === i);
+}
+
+/** Commodities every crop run trades (CROP_COMMODITIES). */
+const TRADED = tradedCommodities(config.cropCommodities);
+/** The first traded commodity: snapshots' pricePerBushel, bushels and costBasisCents are its, for single-market readers. */
+const PRIMARY = TRADED[0];
+
+export function getCropCommodities(): Commodity[] {
+  return TRADED;
+}
+
+function cropAccount(mode: CropTradingMode, initialMargin?: number, maintenanceMargin?: number): CropAccount {
+  if (mode === "cash") return CASH_ACCOUNT;
+  const account = { mode, ...DEFAULT_MARGINS[mode], ...(initialMargin != null && { initialMargin }), ...(maintenanceMargin != null && { maintenanceMargin }) };
+  if (account.maintenanceMargin > account.initialMargin) {
+    throw new Error(`CROP_MAINTENANCE_MARGIN (${account.maintenanceMargin}) must not exceed the initial margin (${account.initialMargin})`);
+  }
+  return account;
+}
+
+/** The account every crop run trades in (CROP_TRADING_MODE and its margin rates). */
+const ACCOUNT = cropAccount(config.cropTradingMode, config.cropInitialMargin, config.cropMaintenanceMargin);
+
+export function getCropAccount(): CropAccount {
+  return ACCOUNT;
+}
+
+/** Commission, spread and slippage every crop fill pays (CROP_COMMISSION_*, CROP_SPREAD_*, CROP_SLIPPAGE_*). */
+const EXECUTION: CropExecution = config.cropExecution;
+
+export function getCropExecution(): CropExecution {
+  return EXECUTION;
+}
+
 export type CropPortfolioSnapshot = {
   date: string;
+  /** Price ($/unit) of the first traded commodity (corn by default); every price is in `prices`. */
   pricePerBushel: number;
   cashCents: number;
+  /** Units held of the first traded commodity (negative when short); every position is in `positions`. */
   bushels: number;
   valueCents: number;
-  /** Cost basis of corn position (cents) — for accurate avg cost and P/L. avgCost¢/bu = costBasisCents / bushels */
+  /** Cost basis of the first commodity's position (cents) — for accurate avg cost and P/L. avgCost¢/bu = costBasisCents / bushels */
   costBasisCents?: number;
+  /** Units held, cost basis (cents) and price ($/unit) by commodity id. Absent on snapshots from before multi-commodity trading. */
+  positions?: Record<string, number>;
+  costBasis?: Record<string, number>;
+  prices?: Record<string, number>;
   trade?: CropTrade;
+  /** Commodity id the trade was in. */
+  commodity?: string;
+  /** As asked: dollars for a cash or margin buy, contracts in futures, otherwise units. */
   size?: number;
+  /** Account mode, when not cash; a futures position is settled at `prices`. */
+  mode?: CropTradingMode;
+  /** Every position was closed before this step's trade: equity had fallen below the maintenance margin. */
+  liquidated?: boolean;
+  /** Execution costs this step's fills paid (resting orders, any liquidation and the trade), already out of cash; absent when none. */
+  costs?: CropCosts;
+  /** Resting orders that triggered since the previous step, before this step's trade (orders.ts). */
+  orderFills?: CropOrderFill[];
+  /** Open resting orders after this step. */
+  orders?: CropOrder[];
   reasoning?: string | null;
   /** Long-term prediction: US corn yield, bushels per acre (e.g. for the crop year). Updated each step. */
   longTermBushelsPerAcre?: number | null;
   reasonLongTerm?: string | null;
+  /** Instruction-following for this step's answer: fallbacks and clamps (ai/structured.ts). */
+  compliance?: Compliance;
+  /** Inference spent on this step's answer (ai/usage.ts). */
+  usage?: UsageTotals;
 };
 export type CropTestResult = {
   modelId: string;
+  /** Commodity ids traded; prices is the first one's series. */
+  commodities: string[];
   prices: CornPricePoint[];
   history: CropPortfolioSnapshot[];
   finalValueCents: number;
@@ -36,6 +145,7 @@ export type CropTestResult = {
 export type CropTestResultVs = {
   modelAId: string;
   modelBId: string;
+  commodities: string[];
   prices: CornPricePoint[];
   historyA: CropPortfolioSnapshot[];
   historyB: CropPortfolioSnapshot[];
@@ -44,127 +154,530 @@ export type CropTestResultVs = {
   startValueCents: number;
 };
 
-function buildCropPrompt(
-  date: string,
-  pricePerBushel: number,
-  cashCents: number,
-  bushels: number
-): string {
-  const cashDollars = (cashCents / 100).toFixed(2);
-  const valueCents = cashCents + Math.round(bushels * pricePerBushel * 100);
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+function listOf(words: string[]): string {
+  return words.length <= 2 ? words.join(" and ") : `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+}
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+const signedDollars = (cents: number) => `${cents < 0 ? "-" : ""}${dollars(Math.abs(cents))}`;
+const percent = (fraction: number) => `${+(fraction * 100).toFixed(2)}%`;
+
+const FORECAST_INSTRUCTIONS = `Then add:
+REASONING: Write 2-4 sentences that connect this trade to your long-term view. You must include: (1) The current price is $X per bushel. (2) What that implies about the market's view of yield (e.g. "the market is pricing in roughly Y bu/acre" or "current price suggests the market expects ..."). (3) Your own long-term yield prediction (bushels per acre) for this crop year. (4) Since [your prediction] [does/doesn't] match [or is above/below] the market's implied view, I am [buying/selling/holding] because ... You can also mention position size or risk, but the main thing we want to see is the link between current price, implied market yield, your forecast, and your trade.
+
+Also give your long-term prediction for US corn yield (bushels per acre) for the current crop year. You can update this each step as new information is implied by prices.
+BUSHELS_PER_ACRE: <number>
+REASON_LONGTERM: Write 2-4 sentences. Explain your reasoning for this yield forecast. State clearly whether you are using or referring to any external information—e.g. weather data, USDA reports, historical yields, or other factors—or that you are not using external data and are inferring only from the price series given.`;
+
+function buildCashCropPrompt(market: Commodity[], date: string, prices: Record<string, number>, portfolio: CropPortfolio): string {
+  const primary = market[0];
+  const cashDollars = (portfolio.cashCents / 100).toFixed(2);
+  const holdings = market.map((c) => ({ c, units: portfolio.positions[c.id] ?? 0, price: prices[c.id] }));
+  const valueCents = holdings.reduce((sum, h) => sum + Math.round(h.units * h.price * 100), portfolio.cashCents);
   const valueDollars = (valueCents / 100).toFixed(2);
-  return `You are trading US corn futures with fake money. One contract is 5000 bushels; for this exercise you trade in bushels and dollars.
+  const single = market.length === 1;
+  const unitWords = [...new Set(market.map((c) => c.units))].join(" or ");
+  const intro = single
+    ? `You are trading US ${primary.name} futures with fake money. One contract is ${primary.contractSize} ${primary.units}; for this exercise you trade in ${primary.units} and dollars.`
+    : `You are trading US ${listOf(market.map((c) => c.name))} futures with fake money and may hold any mix of them. One contract is ${listOf(market.map((c) => `${c.contractSize} ${c.units} of ${c.name}`))}; for this exercise you trade in ${unitWords} and dollars.`;
+  const replyFormat = single
+    ? `Reply with exactly two lines:
+TRADE: buy|sell|hold
+SIZE: <number>
+
+For buy: SIZE = dollars to spend (we buy as many ${primary.units} as that buys at current price).
+For sell: SIZE = ${primary.units} to sell.
+For hold: SIZE = 0.`
+    : `Reply with exactly three lines (one trade per step):
+TRADE: buy|sell|hold
+COMMODITY: ${market.map((c) => c.id).join("|")}
+SIZE: <number>
+
+For buy: SIZE = dollars to spend (we buy as many ${unitWords} of COMMODITY as that buys at its current price).
+For sell: SIZE = ${unitWords} of COMMODITY to sell.
+For hold: SIZE = 0.`;
+  return `${intro}
 
 Current date: ${date}
-Current corn price: $${pricePerBushel.toFixed(2)} per bushel.
+${holdings.map((h) => `Current ${h.c.name} price: $${h.price.toFixed(2)} per ${h.c.unit}.`).join("\n")}
 
 Your portfolio:
 - Cash: $${cashDollars}
-- Corn: ${bushels.toFixed(0)} bushels (worth $${(bushels * pricePerBushel).toFixed(2)} at current price)
+${holdings.map((h) => `- ${capitalize(h.c.name)}: ${h.units.toFixed(0)} ${h.c.units} (worth $${(h.units * h.price).toFixed(2)} at current price)`).join("\n")}
 - Total value: $${valueDollars}
 
-Reply with exactly two lines:
-TRADE: buy|sell|hold
-SIZE: <number>
+${replyFormat}
 
-For buy: SIZE = dollars to spend (we buy as many bushels as that buys at current price).
-For sell: SIZE = bushels to sell.
-For hold: SIZE = 0.
+${FORECAST_INSTRUCTIONS}
 
-Then add:
-REASONING: Write 2-4 sentences that connect this trade to your long-term view. You must include: (1) The current price is $X per bushel. (2) What that implies about the market's view of yield (e.g. "the market is pricing in roughly Y bu/acre" or "current price suggests the market expects ..."). (3) Your own long-term yield prediction (bushels per acre) for this crop year. (4) Since [your prediction] [does/doesn't] match [or is above/below] the market's implied view, I am [buying/selling/holding] because ... You can also mention position size or risk, but the main thing we want to see is the link between current price, implied market yield, your forecast, and your trade.
+Keep positions reasonable; do not exceed your cash when buying or your ${single ? primary.units : "holding of a commodity"} when selling.`;
+}
 
-Also give your long-term prediction for US corn yield (bushels per acre) for the current crop year. You can update this each step as new information is implied by prices.
-BUSHELS_PER_ACRE: <number>
-REASON_LONGTERM: Write 2-4 sentences. Explain your reasoning for this yield forecast. State clearly whether you are using or referring to any external information—e.g. weather data, USDA reports, historical yields, or other factors—or that you are not using external data and are inferring only from the price series given.
+/** Margin and futures accounts: long and short positions, equity and margin, and the short and cover verbs. */
+function buildLeveragedCropPrompt(
+  market: Commodity[],
+  date: string,
+  prices: Record<string, number>,
+  portfolio: CropPortfolio,
+  account: CropAccount,
+  liquidated: boolean
+): string {
+  const primary = market[0];
+  const single = market.length === 1;
+  const futures = account.mode === "futures";
+  const unitWords = [...new Set(market.map((c) => c.units))].join(" or ");
+  const names = listOf(market.map((c) => c.name));
+  const contracts = single ? `${primary.contractSize} ${primary.units}` : listOf(market.map((c) => `${c.contractSize} ${c.units} of ${c.name}`));
+  const intro = futures
+    ? `You are trading US ${names} futures with fake money in a futures account: you buy and sell whole contracts, long or short. One contract is ${contracts}. Open positions are settled at every new price (gains and losses are paid into or out of your cash), so cash is your account balance.`
+    : `You are trading US ${names} futures with fake money in a margin account: you may buy on credit and sell short. One contract is ${contracts}; for this exercise you trade in ${unitWords} and dollars.`;
+  const equityCents = cropPortfolioValueCents(portfolio, prices);
+  const exposureCents = cropExposureCents(portfolio, prices);
+  const roomCents = Math.max(0, Math.round(equityCents / account.initialMargin) - exposureCents);
+  const holdings = market.map((c) => {
+    const units = portfolio.positions[c.id] ?? 0;
+    const notional = `$${(Math.abs(units) * prices[c.id]).toFixed(2)}`;
+    const entry = units !== 0 ? `average entry $${((portfolio.costBasis[c.id] ?? 0) / units / 100).toFixed(2)}` : "";
+    const side = units > 0 ? "long" : "short";
+    const detail =
+      units === 0
+        ? "flat"
+        : futures
+          ? `${side} ${Math.abs(units) / c.contractSize} contracts, ${notional} notional, ${entry}`
+          : `${side}, ${units > 0 ? "worth" : "owing"} ${notional} at current price, ${entry}`;
+    return `- ${capitalize(c.name)}: ${units.toFixed(0)} ${c.units} (${detail})`;
+  });
+  const lot = futures ? "contracts" : unitWords;
+  const of = single ? "" : " of COMMODITY";
+  const buy = futures
+    ? `For buy: SIZE = contracts${of} to buy (adds to a long; from a short it first buys the short back).`
+    : `For buy: SIZE = dollars to spend (we buy as many ${lot}${of} as that buys at ${single ? "current price" : "its current price"}, on credit beyond your cash; from a short it first buys the short back).`;
+  const replyFormat = `${single ? "Reply with exactly two lines:" : "Reply with exactly three lines (one trade per step):"}
+TRADE: buy|sell|short|cover|hold
+${single ? "" : `COMMODITY: ${market.map((c) => c.id).join("|")}\n`}SIZE: <number>
+
+${buy}
+For sell: SIZE = ${lot}${of} to sell from a long position (down to flat).
+For short: SIZE = ${lot}${of} to sell short (adds to a short; from a long it first sells the long).
+For cover: SIZE = ${lot}${of} to buy back from a short position (down to flat).
+For hold: SIZE = 0.`;
+  return `${intro}
+
+Current date: ${date}
+${market.map((c) => `Current ${c.name} price: $${prices[c.id].toFixed(2)} per ${c.unit}.`).join("\n")}
 
-Keep positions reasonable; do not exceed your cash when buying or your bushels when selling.`;
+Your account (${account.mode}):
+${liquidated ? "- All your positions were just liquidated at the current price: your equity had fallen below the maintenance margin.\n" : ""}- Cash: ${signedDollars(portfolio.cashCents)}${futures ? " (account balance)" : portfolio.cashCents < 0 ? " (borrowed)" : ""}
+${holdings.join("\n")}
+- Total value (equity): ${signedDollars(equityCents)}
+- Gross exposure (longs and shorts at current prices): ${dollars(exposureCents)}
+- Margin: initial ${percent(account.initialMargin)} of exposure (${dollars(Math.round(exposureCents * account.initialMargin))} for your positions), maintenance ${percent(account.maintenanceMargin)} (${dollars(Math.round(exposureCents * account.maintenanceMargin))})
+- Room for new positions: ${dollars(roomCents)} more exposure
+
+${replyFormat}
+
+${FORECAST_INSTRUCTIONS}
+
+New positions are cut to what your margin allows: gross exposure at most your equity divided by the initial margin (${+(1 / account.initialMargin).toFixed(2)}x leverage). If your equity falls below the maintenance margin of your exposure, all positions are closed at the current price.`;
+}
+
+/** The trading prompt for the account: the cash prompt, or the margin and futures one with shorts and leverage. */
+function buildCropPrompt(
+  market: Commodity[],
+  date: string,
+  prices: Record<string, number>,
+  portfolio: CropPortfolio,
+  account: CropAccount = CASH_ACCOUNT,
+  liquidated = false
+): string {
+  return account.mode === "cash"
+    ? buildCashCropPrompt(market, date, prices, portfolio)
+    : buildLeveragedCropPrompt(market, date, prices, portfolio, account, liquidated);
 }
 
-function parseCropResponse(text: string): {
+/** Mechanics spelled out for the with-rules variant: how trades are filled and the portfolio valued. */
+const CROP_TRADING_RULES = `Trading rules:
+- A buy spends SIZE dollars of cash at the current price, in whole bushels; a buy larger than your cash is cut to your cash.
+- A sell sells SIZE whole bushels at the current price; you cannot sell more bushels than you hold (no shorting, no borrowing).
+- Cash earns nothing. Your portfolio is valued at the latest price after every step, and the bankroll carries over from day to day.
+- You are asked again at each new price; only the total value at the end counts.`;
+
+function cropTradingRules(account: CropAccount): string {
+  if (account.mode === "cash") return CROP_TRADING_RULES;
+  const futures = account.mode === "futures";
+  return `Trading rules:
+- buy and cover add ${futures ? "contracts" : "units"} to a position at the current price; sell and short remove them. sell stops at flat from a long and cover at flat from a short; buy and short may go through flat to the other side.
+- ${
+    futures
+      ? "A contract costs nothing to open. Every open position is settled at each new price, so its gains and losses go straight to your cash."
+      : "A buy is paid from cash and may borrow beyond it; a short sale adds its proceeds to cash and owes the units back. Borrowing costs nothing and cash earns nothing."
+  }
+- Trades that open or add to a position are cut so gross exposure stays within equity / ${percent(account.initialMargin)}. When equity falls below ${percent(account.maintenanceMargin)} of gross exposure, every position is closed at the current price before you are asked.
+- Your account is valued at the latest price after every step and carries over from day to day.
+- You are asked again at each new price; only the total value at the end counts.`;
+}
+
+/** Crop prompt templates by variant id (ai/prompt-variants.ts). */
+const CROP_PROMPTS: Record<string, typeof buildCropPrompt> = {
+  "minimal.v1": buildCropPrompt,
+  "with-rules.v1": (...args) => `${buildCropPrompt(...args)}\n\n${cropTradingRules(args[4] ?? CASH_ACCOUNT)}`,
+  "cot.v1": (...args) => withChainOfThought(buildCropPrompt(...args)),
+  // The session memory is appended by cropPromptFor, which has the run's history
+  "memory.v1": buildCropPrompt,
+};
+
+/** A snapshot's units held by commodity id (older and compacted HCS snapshots leave the first commodity to bushels). */
+function positionsOf(s: CropPortfolioSnapshot, primary: Commodity = PRIMARY): Record<string, number> {
+  return { [primary.id]: s.bushels, ...s.positions };
+}
+
+/** Memory variant: the portfolio against the starting bankroll and the last `window` steps, oldest first. */
+function buildTradeMemory(market: Commodity[], history: CropPortfolioSnapshot[], window: number): string[] {
+  const primary = market[0];
+  const last = history[history.length - 1];
+  if (!last) return [];
+  const pnl = last.valueCents - CROP_BANKROLL_CENTS;
+  const single = market.length === 1;
+  const lines = history.slice(-window).map((s) => {
+    const c = findCommodity(s.commodity ?? primary.id) ?? primary;
+    const what = single ? "" : ` ${c.name}`;
+    const futures = s.mode === "futures";
+    const trade =
+      !s.trade || s.trade === "hold"
+        ? "hold"
+        : s.trade === "buy" && !futures
+          ? `buy${what} $${(s.size ?? 0).toFixed(2)}`
+          : `${s.trade} ${Math.floor(s.size ?? 0)} ${futures ? "ct" : c.abbr}${what}`;
+    const positions = positionsOf(s, primary);
+    const holdings = single
+      ? `${s.bushels} ${primary.abbr}`
+      : market.map((h) => `${positions[h.id] ?? 0} ${h.abbr} ${h.name}`).join(", ");
+    const at = single ? ` at $${s.pricePerBushel.toFixed(2)}/${primary.abbr}` : "";
+    const liquidated = s.liquidated ? "positions liquidated, then " : "";
+    const costs = s.costs ? ` (costs ${dollars(totalCostsCents(s.costs))})` : "";
+    const filled = s.orderFills?.filter((f) => f.units !== 0) ?? [];
+    const orders = filled.length > 0 ? `order${filled.length > 1 ? "s" : ""} ${filled.map((f) => `#${f.orderId}`).join(", ")} filled, then ` : "";
+    return `- ${s.date}${at}: ${orders}${liquidated}${trade}${costs} -> portfolio ${signedDollars(s.valueCents)} (cash ${signedDollars(s.cashCents)}, ${holdings})`;
+  });
+  return [`Session so far: ${history.length} steps, portfolio ${signedDollars(last.valueCents)} (${pnl < 0 ? "-" : "+"}${dollars(Math.abs(pnl))} since the ${dollars(CROP_BANKROLL_CENTS)} start). Last ${lines.length}:`, ...lines];
+}
+
+/** The prompt for the provider's variant, with any trading costs and the resting orders; memory variants also get the run's history so far. */
+function cropPromptFor(
+  market: Commodity[],
+  provider: AIProvider,
+  quote: CommodityQuote,
+  portfolio: CropPortfolio,
+  history: CropPortfolioSnapshot[],
+  liquidated: boolean,
+  book: CropOrderBook,
+  fills: CropOrderFill[]
+): string {
+  const variant = promptVariantOf(provider);
+  const costs = describeExecution(EXECUTION);
+  const prompt =
+    (CROP_PROMPTS[variant.id] ?? buildCropPrompt)(market, quote.date, quote.prices, portfolio, ACCOUNT, liquidated) +
+    (costs && `\n\n${costs}`) +
+    `\n\n${describeCropOrders(market, book, fills, ACCOUNT)}`;
+  return variant.name === "memory" ? withSessionMemory(prompt, buildTradeMemory(market, history, config.aiMemoryWindow)) : prompt;
+}
+
+type CropReply = {
   trade: CropTrade;
+  /** Commodity as the reply named it; null when it named none. */
+  commodity: string | null;
   size: number;
   reasoning: string | null;
   longTermBushelsPerAcre: number | null;
   reasonLongTerm: string | null;
-} {
+  /** Resting orders to place and open order numbers (or "all") to cancel. */
+  orders: CropOrderRequest[];
+  cancels: string[];
+};
+
+/** Parse the text reply; events record each instructed line that was missing (its default is used). */
+function parseCropResponse(text: string): CropReply & { events: ComplianceEvent[] } {
   const raw = (text ?? "").trim();
-  const tradeMatch = raw.match(/TRADE:\s*(buy|sell|hold)/i);
+  const tradeMatch = raw.match(/TRADE:\s*(buy|sell|short|cover|hold)/i);
+  const commodityMatch = raw.match(/COMMODITY:\s*([a-z][a-z ]*?)\s*$/im);
   const sizeMatch = raw.match(/SIZE:\s*([\d.]+)/i);
-  const reasoningMatch = raw.match(/REASONING:\s*([\s\S]+?)(?=BUSHELS_PER_ACRE:|REASON_LONGTERM:|$)/i);
+  const reasoningMatch = raw.match(/REASONING:\s*([\s\S]+?)(?=BUSHELS_PER_ACRE:|REASON_LONGTERM:|ORDER:|CANCEL:|$)/i);
   const buMatch = raw.match(/BUSHELS_PER_ACRE:\s*([\d.]+)/i);
-  const reasonLongMatch = raw.match(/REASON_LONGTERM:\s*([\s\S]+)/i);
+  const reasonLongMatch = raw.match(/REASON_LONGTERM:\s*([\s\S]+?)(?=^\s*(?:ORDER|CANCEL):|$(?![\s\S]))/im);
   const trade = (tradeMatch?.[1]?.toLowerCase() ?? "hold") as CropTrade;
   const size = Math.max(0, parseFloat(sizeMatch?.[1] ?? "0") || 0);
   const reasoning = reasoningMatch?.[1]?.trim() ?? null;
   const longTermBushelsPerAcre = buMatch?.[1] != null ? parseFloat(buMatch[1]) : null;
   const reasonLongTerm = reasonLongMatch?.[1]?.trim() ?? null;
+  const events: ComplianceEvent[] = [];
+  if (!tradeMatch) events.push({ field: "trade", issue: "unparsed", detail: "no TRADE line; held" });
+  else if (trade !== "hold" && !sizeMatch) events.push({ field: "size", issue: "unparsed", detail: `no SIZE line; ${trade} of 0` });
+  if (!buMatch) events.push({ field: "bushels_per_acre", issue: "unparsed", detail: "no BUSHELS_PER_ACRE line" });
+  const orders = [...raw.matchAll(/^\s*ORDER:\s*(.*?)\s*$/gim)].flatMap(([, line]) => {
+    if (/^(none|-)?$/i.test(line)) return [];
+    const m = line.match(/^(\w+)\s+(?:([a-z][a-z ]*?)\s+)?\$?([\d,.]+)\s*(?:@|at)\s*\$?([\d.]+)(?:\s+(gtc|day))?$/i);
+    if (!m) {
+      events.push({ field: "order", issue: "unparsed", detail: `unreadable ORDER line "${line}"; dropped` });
+      return [];
+    }
+    return [{ type: m[1], commodity: m[2] ?? null, size: parseFloat(m[3].replace(/,/g, "")), price: parseFloat(m[4]), timeInForce: m[5] ?? null }];
+  });
+  const cancels = [...raw.matchAll(/^\s*CANCEL:\s*(.*?)\s*$/gim)].flatMap(([, line]) => (/^none$/i.test(line) ? [] : line.split(/[\s,]+/)));
   return {
     trade,
+    commodity: commodityMatch?.[1] ?? null,
     size,
     reasoning,
     longTermBushelsPerAcre: Number.isFinite(longTermBushelsPerAcre) ? longTermBushelsPerAcre : null,
     reasonLongTerm,
+    orders,
+    cancels,
+    events,
   };
 }
 
-/** Run a single test: fetch real corn data, then over ~30s run TEST_STEPS steps; at each step ask AI and apply trade. */
+/**
+ * The traded commodity a reply names. Naming none means the first one (the only one in a single-commodity run;
+ * recorded as unparsed otherwise); naming one that is not traded holds.
+ */
+function resolveCommodity(market: Commodity[], named: string | null, trade: CropTrade, events: ComplianceEvent[]): { commodity: Commodity; trade: CropTrade } {
+  const primary = market[0];
+  if (!named) {
+    if (trade !== "hold" && market.length > 1) events.push({ field: "commodity", issue: "unparsed", detail: `no COMMODITY line; traded ${primary.id}` });
+    return { commodity: primary, trade };
+  }
+  const commodity = findCommodity(named);
+  if (commodity && market.includes(commodity)) return { commodity, trade };
+  if (trade !== "hold") events.push({ field: "commodity", issue: "not_offered", detail: `${named} is not traded; held` });
+  return { commodity: primary, trade: "hold" };
+}
+
+/** Steps kept per model for the instruction-following rate (server session). */
+const MAX_COMPLIANCE_STEPS = 1000;
+/** modelId -> compliance of its recent trading steps */
+const complianceByModel = new Map<string, Compliance[]>();
+
+type CropStep = Omit<CropReply, "commodity"> & { commodity: Commodity; compliance: Compliance; usage: UsageTotals };
+
+/**
+ * Ask for one trade (structured when the provider supports it) and judge its compliance: missing lines,
+ * a commodity that is not traded, short or cover in a cash account, and a size beyond the cash, the position
+ * or the margin (clamped when the trade is applied). A provider that failed to answer holds.
+ */
+async function askCropTrade(
+  market: Commodity[],
+  provider: AIProvider,
+  prompt: string,
+  quote: CommodityQuote,
+  portfolio: CropPortfolio
+): Promise<CropStep> {
+  const primary = market[0];
+  const { cashCents, positions } = portfolio;
+  const context = {
+    date: quote.date,
+    pricePerBushel: quote.prices[primary.id],
+    cashCents,
+    bushels: positions[primary.id] ?? 0,
+    prices: quote.prices,
+    positions: Object.fromEntries(market.map((c) => [c.id, positions[c.id] ?? 0])),
+    tradingMode: ACCOUNT.mode,
+  };
+  const { response, text, reply, events } = await askFor(provider, "crop_trade", prompt, context);
+  const usage = newUsage();
+  addUsage(usage, response.usage);
+  let parsed: CropReply;
+  if (response.failure) {
+    parsed = {
+      trade: "hold",
+      commodity: null,
+      size: 0,
+      reasoning: response.reasoning ?? null,
+      longTermBushelsPerAcre: null,
+      reasonLongTerm: null,
+      orders: [],
+      cancels: [],
+    };
+  } else if (reply) {
+    parsed = {
+      trade: reply.trade,
+      commodity: reply.commodity ?? null,
+      size: reply.size,
+      reasoning: reply.reasoning || null,
+      longTermBushelsPerAcre: reply.bushelsPerAcre,
+      reasonLongTerm: reply.reasonLongTerm || null,
+      orders: reply.orders ?? [],
+      cancels: reply.cancel ?? [],
+    };
+  } else {
+    const { events: lineEvents, ...fromText } = parseCropResponse(text);
+    parsed = fromText;
+    events.push(...lineEvents);
+  }
+  const resolved = resolveCommodity(market, parsed.commodity, parsed.trade, events);
+  const { commodity } = resolved;
+  let { trade } = resolved;
+  const held = positions[commodity.id] ?? 0;
+  if (ACCOUNT.mode === "cash") {
+    if (trade === "short" || trade === "cover") {
+      events.push({ field: "trade", issue: "not_offered", detail: `${trade} needs a margin or futures account; held` });
+      trade = "hold";
+    } else if (trade === "buy" && Math.round(parsed.size * 100) > cashCents) {
+      events.push({ field: "size", issue: "clamped", detail: `buy $${parsed.size.toFixed(2)} -> $${(cashCents / 100).toFixed(2)} cash` });
+    } else if (trade === "sell" && Math.floor(parsed.size) > held) {
+      events.push({ field: "size", issue: "clamped", detail: `sell ${Math.floor(parsed.size)} -> ${held} ${commodity.units} held` });
+    }
+  } else if (trade !== "hold") {
+    const price = quote.prices[commodity.id];
+    const requested = requestedCropUnits(trade, parsed.size, commodity, price, ACCOUNT);
+    const max = maxCropTradeUnits(portfolio, trade, commodity, quote.prices, ACCOUNT);
+    if (requested > max) {
+      const [asked, allowed, unit] =
+        ACCOUNT.mode === "futures" ? [requested / commodity.contractSize, max / commodity.contractSize, "contracts"] : [requested, max, commodity.units];
+      const why = trade === "sell" || trade === "cover" ? "down to flat" : "within margin";
+      events.push({ field: "size", issue: "clamped", detail: `${trade} ${asked} -> ${allowed} ${unit} (${why})` });
+    }
+  }
+  const compliance = newCompliance();
+  recordAsk(compliance, events);
+  return { ...parsed, trade, commodity, compliance, usage };
+}
+
+function recordCropCompliance(modelId: string, compliance: Compliance): void {
+  const list = complianceByModel.get(modelId) ?? [];
+  list.push(compliance);
+  if (list.length > MAX_COMPLIANCE_STEPS) list.shift();
+  complianceByModel.set(modelId, list);
+}
+
+/** Per-model instruction-following rate over recent trading steps, best first. */
+export function getCropComplianceStats(): ComplianceStats[] {
+  return Array.from(complianceByModel, ([modelId, list]) => summarizeCompliance(modelId, list)).sort((a, b) => (b.rate ?? 0) - (a.rate ?? 0));
+}
+
+/** Every traded commodity's value in a map, zero when not held (positions in other commodities are kept). */
+function byCommodity(market: Commodity[], values: Record<string, number>): Record<string, number> {
+  return { ...Object.fromEntries(market.map((c) => [c.id, 0])), ...values };
+}
+
+function snapshotOf(
+  market: Commodity[],
+  quote: CommodityQuote,
+  portfolio: CropPortfolio,
+  step: CropStep,
+  liquidated: boolean,
+  costs: CropCosts,
+  fills: CropOrderFill[],
+  book: CropOrderBook
+): CropPortfolioSnapshot {
+  const primary = market[0];
+  return {
+    date: quote.date,
+    pricePerBushel: quote.prices[primary.id],
+    cashCents: portfolio.cashCents,
+    bushels: portfolio.positions[primary.id] ?? 0,
+    valueCents: cropPortfolioValueCents(portfolio, quote.prices),
+    costBasisCents: portfolio.costBasis[primary.id] ?? 0,
+    positions: byCommodity(market, portfolio.positions),
+    costBasis: byCommodity(market, portfolio.costBasis),
+    prices: { ...quote.prices },
+    trade: step.trade,
+    commodity: step.commodity.id,
+    size: step.size,
+    ...(ACCOUNT.mode !== "cash" && { mode: ACCOUNT.mode }),
+    ...(liquidated && { liquidated }),
+    ...(totalCostsCents(costs) > 0 && { costs }),
+    ...(fills.length > 0 && { orderFills: fills }),
+    ...(book.orders.length > 0 && { orders: book.orders }),
+    reasoning: step.reasoning,
+    longTermBushelsPerAcre: step.longTermBushelsPerAcre ?? undefined,
+    reasonLongTerm: step.reasonLongTerm ?? undefined,
+    compliance: step.compliance,
+    usage: step.usage,
+  };
+}
+
+/** The portfolio a snapshot records (older snapshots hold only the first commodity); futures positions were last settled at its prices. */
+export function cropPortfolioOf(snapshot: CropPortfolioSnapshot): CropPortfolio {
+  return {
+    cashCents: snapshot.cashCents,
+    positions: positionsOf(snapshot),
+    costBasis: { [PRIMARY.id]: snapshot.costBasisCents ?? 0, ...snapshot.costBasis },
+    ...(snapshot.mode === "futures" && { marks: { [PRIMARY.id]: snapshot.pricePerBushel, ...snapshot.prices } }),
+  };
+}
+
+/**
+ * Fill the contestant's resting orders against `bars` (every price since its previous step, oldest first, ending
+ * with this quote), settle the account at this quote (futures marks, forced liquidation, which also cancels every
+ * order), ask for its trade and orders and apply them; market lists the commodities offered, the first being the
+ * headline one. The step's compliance counts towards the live stats (getCropComplianceStats) unless
+ * recordCompliance is false, as for backtests, which report it in their own result.
+ */
+export async function tradeStep(
+  market: Commodity[],
+  modelId: string,
+  provider: AIProvider,
+  quote: CommodityQuote,
+  portfolio: CropPortfolio,
+  history: CropPortfolioSnapshot[],
+  book: CropOrderBook = newCropOrderBook(),
+  bars: CommodityQuote[] = [quote],
+  { recordCompliance = true }: { recordCompliance?: boolean } = {}
+): Promise<{ portfolio: CropPortfolio; book: CropOrderBook; snapshot: CropPortfolioSnapshot }> {
+  const resting = fillRestingOrders(portfolio, book, bars, market, ACCOUNT, EXECUTION);
+  const { portfolio: settled, liquidated, costs: liquidationCosts } = settleCropAccount(resting.portfolio, quote, ACCOUNT, EXECUTION);
+  const open = liquidated ? { ...resting.book, orders: [] } : resting.book;
+  const prompt = cropPromptFor(market, provider, quote, settled, history, liquidated, open, resting.fills);
+  const step = await askCropTrade(market, provider, prompt, quote, settled);
+  const fill = applyCropTrade(settled, step.trade, step.size, step.commodity, quote, ACCOUNT, EXECUTION);
+  const orderEvents: ComplianceEvent[] = [];
+  const next = updateCropOrderBook(open, step.cancels, step.orders, market, fill.portfolio, quote.date, ACCOUNT, orderEvents);
+  if (orderEvents.length > 0) {
+    // Orders are checked against the portfolio after the trade, so their events join the step's compliance late
+    if (step.compliance.events.length === 0) step.compliance.compliant--;
+    step.compliance.events.push(...orderEvents);
+  }
+  if (recordCompliance) recordCropCompliance(modelId, step.compliance);
+  const costs = addCosts(resting.costs, addCosts(liquidationCosts, fill.costs));
+  return { portfolio: fill.portfolio, book: next, snapshot: snapshotOf(market, quote, fill.portfolio, step, liquidated, costs, resting.fills, next) };
+}
+
+/** Daily closes of the traded commodities (dates all of them traded) and the first one's series for charts. */
+async function fetchTestQuotes(): Promise<{ quotes: CommodityQuote[]; prices: CornPricePoint[] }> {
+  const quotes = await fetchCommodityQuotes(TRADED);
+  if (quotes.length < TEST_STEPS) throw new Error(`Not enough ${listOf(TRADED.map((c) => c.name))} price data`);
+  return { quotes, prices: quotes.map((q) => ({ date: q.date, pricePerBushel: q.prices[PRIMARY.id] })) };
+}
+
+/** Use up to TEST_STEPS data points (e.g. last 10 days), spread across the series. */
+function testStepIndices(length: number): number[] {
+  const indices =
+    length >= TEST_STEPS
+      ? Array.from({ length: TEST_STEPS }, (_: unknown, i: number) => Math.min(Math.floor((length * (i + 1)) / (TEST_STEPS + 1)), length - 1))
+      : Array.from({ length }, (_: unknown, i: number) => i);
+  return indices.length > 0 ? indices : [0];
+}
+
+/** Run a single test: fetch real prices, then over ~30s run TEST_STEPS steps; at each step ask AI and apply trade. */
 export async function runCropTest(modelId: string): Promise<CropTestResult> {
   const provider = getAIProvider(modelId);
   if (!provider) throw new Error(`Unknown AI model: ${modelId}`);
 
-  const prices = await fetchCornPrices();
-  if (prices.length < TEST_STEPS) throw new Error("Not enough corn price data");
+  const { quotes, prices } = await fetchTestQuotes();
 
   const history: CropPortfolioSnapshot[] = [];
-  let cashCents = CROP_BANKROLL_CENTS;
-  let bushels = 0;
-
-  // Use up to TEST_STEPS data points (e.g. last 10 days), spread across the series
-  let stepIndices: number[] =
-    prices.length >= TEST_STEPS
-      ? Array.from({ length: TEST_STEPS }, (_: unknown, i: number) => Math.min(Math.floor((prices.length * (i + 1)) / (TEST_STEPS + 1)), prices.length - 1))
-      : prices.map((_: CornPricePoint, i: number) => i);
-  if (stepIndices.length === 0) stepIndices = [0];
+  let portfolio = newCropPortfolio(CROP_BANKROLL_CENTS);
+  let book = newCropOrderBook();
 
+  const stepIndices = testStepIndices(quotes.length);
   for (let i = 0; i < stepIndices.length; i++) {
-    const idx = stepIndices[i];
-    const point = prices[idx];
-    const date = point.date;
-    const pricePerBushel = point.pricePerBushel;
-    const priceCentsPerBushel = Math.round(pricePerBushel * 100);
-
-    const prompt = buildCropPrompt(date, pricePerBushel, cashCents, bushels);
-    const response = await provider.ask(prompt);
-    const textToParse = response.raw ?? [response.decision, response.reasoning].filter(Boolean).join(" ");
-    const { trade, size, reasoning, longTermBushelsPerAcre, reasonLongTerm } = parseCropResponse(textToParse);
-
-    if (trade === "buy" && size > 0) {
-      const spendCents = Math.min(cashCents, Math.round(size * 100)); // size in dollars
-      if (priceCentsPerBushel > 0 && spendCents > 0) {
-        const buyBushels = Math.floor(spendCents / priceCentsPerBushel);
-        cashCents -= buyBushels * priceCentsPerBushel;
-        bushels += buyBushels;
-      }
-    } else if (trade === "sell" && size > 0) {
-      const sellBushels = Math.min(bushels, Math.floor(size));
-      cashCents += sellBushels * priceCentsPerBushel;
-      bushels -= sellBushels;
-    }
-
-    const valueCents = cashCents + bushels * priceCentsPerBushel;
-    history.push({
-      date,
-      pricePerBushel,
-      cashCents,
-      bushels,
-      valueCents,
-      trade,
-      size,
-      reasoning,
-      longTermBushelsPerAcre: longTermBushelsPerAcre ?? undefined,
-      reasonLongTerm: reasonLongTerm ?? undefined,
-    });
+    const bars = quotes.slice(i > 0 ? stepIndices[i - 1] + 1 : stepIndices[i], stepIndices[i] + 1);
+    const step = await tradeStep(TRADED, modelId, provider, quotes[stepIndices[i]], portfolio, history, book, bars);
+    portfolio = step.portfolio;
+    book = step.book;
+    history.push(step.snapshot);
 
     // Throttle so total run is ~30s
     if (i < stepIndices.length - 1) {
@@ -175,6 +688,7 @@ export async function runCropTest(modelId: string): Promise<CropTestResult> {
   const last = history[history.length - 1];
   return {
     modelId,
+    commodities: TRADED.map((c) => c.id),
     prices,
     history,
     startValueCents: CROP_BANKROLL_CENTS,
@@ -190,99 +704,30 @@ export async function runCropTestVs(modelIdA: string, modelIdB: string): Promise
   if (!providerB) throw new Error(`Unknown AI model: ${modelIdB}`);
   if (modelIdA === modelIdB) throw new Error("Choose two different models");
 
-  const prices = await fetchCornPrices();
-  if (prices.length < TEST_STEPS) throw new Error("Not enough corn price data");
+  const { quotes, prices } = await fetchTestQuotes();
 
   const historyA: CropPortfolioSnapshot[] = [];
   const historyB: CropPortfolioSnapshot[] = [];
-  let cashA = CROP_BANKROLL_CENTS;
-  let bushelsA = 0;
-  let costBasisA = 0;
-  let cashB = CROP_BANKROLL_CENTS;
-  let bushelsB = 0;
-  let costBasisB = 0;
-
-  let stepIndices: number[] =
-    prices.length >= TEST_STEPS
-      ? Array.from({ length: TEST_STEPS }, (_: unknown, i: number) => Math.min(Math.floor((prices.length * (i + 1)) / (TEST_STEPS + 1)), prices.length - 1))
-      : prices.map((_: CornPricePoint, i: number) => i);
-  if (stepIndices.length === 0) stepIndices = [0];
+  let portfolioA = newCropPortfolio(CROP_BANKROLL_CENTS);
+  let portfolioB = newCropPortfolio(CROP_BANKROLL_CENTS);
+  let bookA = newCropOrderBook();
+  let bookB = newCropOrderBook();
 
+  const stepIndices = testStepIndices(quotes.length);
   for (let i = 0; i < stepIndices.length; i++) {
-    const idx = stepIndices[i];
-    const point = prices[idx];
-    const date = point.date;
-    const pricePerBushel = point.pricePerBushel;
-    const priceCentsPerBushel = Math.round(pricePerBushel * 100);
-
-    const promptA = buildCropPrompt(date, pricePerBushel, cashA, bushelsA);
-    const promptB = buildCropPrompt(date, pricePerBushel, cashB, bushelsB);
-    const [responseA, responseB] = await Promise.all([
-      providerA.ask(promptA),
-      providerB.ask(promptB),
+    const quote = quotes[stepIndices[i]];
+    // Resting orders see every daily close since the previous step
+    const bars = quotes.slice(i > 0 ? stepIndices[i - 1] + 1 : stepIndices[i], stepIndices[i] + 1);
+    const [stepA, stepB] = await Promise.all([
+      tradeStep(TRADED, modelIdA, providerA, quote, portfolioA, historyA, bookA, bars),
+      tradeStep(TRADED, modelIdB, providerB, quote, portfolioB, historyB, bookB, bars),
     ]);
-    const textA = responseA.raw ?? [responseA.decision, responseA.reasoning].filter(Boolean).join(" ");
-    const textB = responseB.raw ?? [responseB.decision, responseB.reasoning].filter(Boolean).join(" ");
-    const parsedA = parseCropResponse(textA);
-    const parsedB = parseCropResponse(textB);
-
-    if (parsedA.trade === "buy" && parsedA.size > 0) {
-      const spendCents = Math.min(cashA, Math.round(parsedA.size * 100));
-      if (priceCentsPerBushel > 0 && spendCents > 0) {
-        const buyBushels = Math.floor(spendCents / priceCentsPerBushel);
-        cashA -= buyBushels * priceCentsPerBushel;
-        costBasisA += buyBushels * pricePerBushel * 100; // exact price for accurate weighted avg (no per-purchase rounding)
-        bushelsA += buyBushels;
-      }
-    } else if (parsedA.trade === "sell" && parsedA.size > 0) {
-      const sellBushels = Math.min(bushelsA, Math.floor(parsedA.size));
-      if (bushelsA > 0) costBasisA = Math.round((costBasisA * (bushelsA - sellBushels)) / bushelsA);
-      cashA += sellBushels * priceCentsPerBushel;
-      bushelsA -= sellBushels;
-    }
-    if (parsedB.trade === "buy" && parsedB.size > 0) {
-      const spendCents = Math.min(cashB, Math.round(parsedB.size * 100));
-      if (priceCentsPerBushel > 0 && spendCents > 0) {
-        const buyBushels = Math.floor(spendCents / priceCentsPerBushel);
-        cashB -= buyBushels * priceCentsPerBushel;
-        costBasisB += buyBushels * pricePerBushel * 100; // exact price for accurate weighted avg (no per-purchase rounding)
-        bushelsB += buyBushels;
-      }
-    } else if (parsedB.trade === "sell" && parsedB.size > 0) {
-      const sellBushels = Math.min(bushelsB, Math.floor(parsedB.size));
-      if (bushelsB > 0) costBasisB = Math.round((costBasisB * (bushelsB - sellBushels)) / bushelsB);
-      cashB += sellBushels * priceCentsPerBushel;
-      bushelsB -= sellBushels;
-    }
-
-    const valueA = cashA + bushelsA * priceCentsPerBushel;
-    const valueB = cashB + bushelsB * priceCentsPerBushel;
-    historyA.push({
-      date,
-      pricePerBushel,
-      cashCents: cashA,
-      bushels: bushelsA,
-      valueCents: valueA,
-      costBasisCents: costBasisA,
-      trade: parsedA.trade,
-      size: parsedA.size,
-      reasoning: parsedA.reasoning,
-      longTermBushelsPerAcre: parsedA.longTermBushelsPerAcre ?? undefined,
-      reasonLongTerm: parsedA.reasonLongTerm ?? undefined,
-    });
-    historyB.push({
-      date,
-      pricePerBushel,
-      cashCents: cashB,
-      bushels: bushelsB,
-      valueCents: valueB,
-      costBasisCents: costBasisB,
-      trade: parsedB.trade,
-      size: parsedB.size,
-      reasoning: parsedB.reasoning,
-      longTermBushelsPerAcre: parsedB.longTermBushelsPerAcre ?? undefined,
-      reasonLongTerm: parsedB.reasonLongTerm ?? undefined,
-    });
+    portfolioA = stepA.portfolio;
+    portfolioB = stepB.portfolio;
+    bookA = stepA.book;
+    bookB = stepB.book;
+    historyA.push(stepA.snapshot);
+    historyB.push(stepB.snapshot);
 
     if (i < stepIndices.length - 1) {
       await new Promise((r) => setTimeout(r, MS_PER_STEP));
@@ -298,6 +743,7 @@ export async function runCropTestVs(modelIdA: string, modelIdB: string): Promise
   return {
     modelAId: modelIdA,
     modelBId: modelIdB,
+    commodities: TRADED.map((c) => c.id),
     prices,
     historyA,
     historyB,
@@ -307,25 +753,80 @@ export async function runCropTestVs(modelIdA: string, modelIdB: string): Promise
   };
 }
 
-/** State for continuous single-step crop VS (one decision per run). */
+/** State for continuous single-step crop VS (one decision per run); the order books rest between runs. */
 export type CropVsState = {
-  cashA: number;
-  bushelsA: number;
-  costBasisA: number;
-  cashB: number;
-  bushelsB: number;
-  costBasisB: number;
+  portfolioA: CropPortfolio;
+  portfolioB: CropPortfolio;
   historyA: CropPortfolioSnapshot[];
   historyB: CropPortfolioSnapshot[];
+  bookA: CropOrderBook;
+  bookB: CropOrderBook;
 };
 
+export function newCropVsState(): CropVsState {
+  return {
+    portfolioA: newCropPortfolio(CROP_BANKROLL_CENTS),
+    portfolioB: newCropPortfolio(CROP_BANKROLL_CENTS),
+    historyA: [],
+    historyB: [],
+    bookA: newCropOrderBook(),
+    bookB: newCropOrderBook(),
+  };
+}
+
+/**
+ * Every intraday point after `since` as quotes, oldest first: each carries the latest price of every commodity
+ * at that time (before a commodity's first point after `since`, its last one before; failing that, its first).
+ */
+function barsSince(series: CommodityPricePoint[][], since: string | undefined): CommodityQuote[] {
+  const prices: Record<string, number> = Object.fromEntries(
+    TRADED.map((c, i) => [c.id, ([...series[i]].reverse().find((p) => since == null || p.date <= since) ?? series[i][0]).price])
+  );
+  const points = series
+    .flatMap((points, i) => points.filter((p) => since != null && p.date > since).map((p) => ({ ...p, id: TRADED[i].id })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return points.map((p) => {
+    prices[p.id] = p.price;
+    return { date: p.date, prices: { ...prices } };
+  });
+}
+
 function trimHistory<T>(arr: T[], max: number): T[] {
   if (arr.length <= max) return arr;
   return arr.slice(-max);
 }
 
+/** A snapshot as sent to HCS: no full compliance events, cost rounded (hedera/hcs.ts compacts it further if needed). */
+function toHcsSnapshot(s: CropPortfolioSnapshot): CropSnapshotPayload {
+  return {
+    date: s.date,
+    pricePerBushel: s.pricePerBushel,
+    cashCents: s.cashCents,
+    bushels: s.bushels,
+    valueCents: s.valueCents,
+    costBasisCents: s.costBasisCents,
+    positions: s.positions,
+    costBasis: s.costBasis,
+    prices: s.prices,
+    trade: s.trade,
+    commodity: s.commodity,
+    size: s.size,
+    mode: s.mode,
+    liquidated: s.liquidated,
+    costs: s.costs,
+    orderFills: s.orderFills,
+    orders: s.orders,
+    reasoning: s.reasoning ?? undefined,
+    longTermBushelsPerAcre: s.longTermBushelsPerAcre ?? undefined,
+    reasonLongTerm: s.reasonLongTerm ?? undefined,
+    compliance: s.compliance && { asks: s.compliance.asks, compliant: s.compliance.compliant },
+    usage: s.usage && { ...s.usage, costUsd: Math.round(s.usage.costUsd * 1e6) / 1e6 },
+  };
+}
+
 /**
- * Single-step VS: fetch latest corn price, ask both agents once, apply trades.
+ * Single-step VS: fetch the latest price of every traded commodity, fill resting orders against the intraday bars
+ * since each agent's last step, ask both agents once, apply trades.
  * Returns result and new state. No throttling — one AI call per model.
  */
 export async function runCropSingleStepVs(
@@ -339,147 +840,63 @@ export async function runCropSingleStepVs(
   if (!providerB) throw new Error(`Unknown AI model: ${modelIdB}`);
   if (modelIdA === modelIdB) throw new Error("Choose two different models");
 
-  const prices = await fetchCornPricesForTrading();
-  if (prices.length < 1) throw new Error("No corn price data");
-
-  const point = prices[prices.length - 1]; // intraday: current price; fallback: latest daily close
-  const date = point.date;
-  const pricePerBushel = point.pricePerBushel;
-  const priceCentsPerBushel = Math.round(pricePerBushel * 100);
+  const series = await Promise.all(TRADED.map((c) => fetchCommodityPricesForTrading(c)));
+  TRADED.forEach((c, i) => {
+    if (series[i].length < 1) throw new Error(`No ${c.name} price data`);
+  });
+  // intraday: current prices; fallback: latest daily closes
+  const latest = series.map((points) => points[points.length - 1]);
+  const volatility = Object.fromEntries(
+    TRADED.flatMap((c, i) => {
+      const sigma = trailingVolatility(series[i].map((p) => p.price));
+      return sigma != null ? [[c.id, sigma]] : [];
+    })
+  );
+  const quote: CommodityQuote = {
+    date: latest.map((p) => p.date).sort().pop()!,
+    prices: Object.fromEntries(TRADED.map((c, i) => [c.id, latest[i].price])),
+    volatility,
+  };
 
-  const promptA = buildCropPrompt(date, pricePerBushel, state.cashA, state.bushelsA);
-  const promptB = buildCropPrompt(date, pricePerBushel, state.cashB, state.bushelsB);
-  const [responseA, responseB] = await Promise.all([
-    providerA.ask(promptA),
-    providerB.ask(promptB),
+  const [stepA, stepB] = await Promise.all([
+    tradeStep(TRADED, modelIdA, providerA, quote, state.portfolioA, state.historyA, state.bookA, barsSince(series, state.historyA[state.historyA.length - 1]?.date)),
+    tradeStep(TRADED, modelIdB, providerB, quote, state.portfolioB, state.historyB, state.bookB, barsSince(series, state.historyB[state.historyB.length - 1]?.date)),
   ]);
-  const textA = responseA.raw ?? [responseA.decision, responseA.reasoning].filter(Boolean).join(" ");
-  const textB = responseB.raw ?? [responseB.decision, responseB.reasoning].filter(Boolean).join(" ");
-  const parsedA = parseCropResponse(textA);
-  const parsedB = parseCropResponse(textB);
-
-  let cashA = state.cashA;
-  let bushelsA = state.bushelsA;
-  let costBasisA = state.costBasisA ?? 0;
-  let cashB = state.cashB;
-  let bushelsB = state.bushelsB;
-  let costBasisB = state.costBasisB ?? 0;
-
-  if (parsedA.trade === "buy" && parsedA.size > 0) {
-    const spendCents = Math.min(cashA, Math.round(parsedA.size * 100));
-    if (priceCentsPerBushel > 0 && spendCents > 0) {
-      const buyBushels = Math.floor(spendCents / priceCentsPerBushel);
-      cashA -= buyBushels * priceCentsPerBushel;
-      costBasisA += buyBushels * pricePerBushel * 100; // exact price for accurate weighted avg (no per-purchase rounding)
-      bushelsA += buyBushels;
-    }
-  } else if (parsedA.trade === "sell" && parsedA.size > 0) {
-    const sellBushels = Math.min(bushelsA, Math.floor(parsedA.size));
-    if (bushelsA > 0) costBasisA = Math.round((costBasisA * (bushelsA - sellBushels)) / bushelsA);
-    cashA += sellBushels * priceCentsPerBushel;
-    bushelsA -= sellBushels;
-  }
-  if (parsedB.trade === "buy" && parsedB.size > 0) {
-    const spendCents = Math.min(cashB, Math.round(parsedB.size * 100));
-    if (priceCentsPerBushel > 0 && spendCents > 0) {
-      const buyBushels = Math.floor(spendCents / priceCentsPerBushel);
-      cashB -= buyBushels * priceCentsPerBushel;
-      costBasisB += buyBushels * pricePerBushel * 100; // exact price for accurate weighted avg (no per-purchase rounding)
-      bushelsB += buyBushels;
-    }
-  } else if (parsedB.trade === "sell" && parsedB.size > 0) {
-    const sellBushels = Math.min(bushelsB, Math.floor(parsedB.size));
-    if (bushelsB > 0) costBasisB = Math.round((costBasisB * (bushelsB - sellBushels)) / bushelsB);
-    cashB += sellBushels * priceCentsPerBushel;
-    bushelsB -= sellBushels;
-  }
-
-  const valueA = cashA + bushelsA * priceCentsPerBushel;
-  const valueB = cashB + bushelsB * priceCentsPerBushel;
-  const snapshotA: CropPortfolioSnapshot = {
-    date,
-    pricePerBushel,
-    cashCents: cashA,
-    bushels: bushelsA,
-    valueCents: valueA,
-    costBasisCents: costBasisA,
-    trade: parsedA.trade,
-    size: parsedA.size,
-    reasoning: parsedA.reasoning,
-    longTermBushelsPerAcre: parsedA.longTermBushelsPerAcre ?? undefined,
-    reasonLongTerm: parsedA.reasonLongTerm ?? undefined,
-  };
-  const snapshotB: CropPortfolioSnapshot = {
-    date,
-    pricePerBushel,
-    cashCents: cashB,
-    bushels: bushelsB,
-    valueCents: valueB,
-    costBasisCents: costBasisB,
-    trade: parsedB.trade,
-    size: parsedB.size,
-    reasoning: parsedB.reasoning,
-    longTermBushelsPerAcre: parsedB.longTermBushelsPerAcre ?? undefined,
-    reasonLongTerm: parsedB.reasonLongTerm ?? undefined,
-  };
+  const snapshotA = stepA.snapshot;
+  const snapshotB = stepB.snapshot;
 
   const historyA = trimHistory([...state.historyA, snapshotA], MAX_HISTORY);
   const historyB = trimHistory([...state.historyB, snapshotB], MAX_HISTORY);
 
-  settleCropNextTestBets(modelIdA, modelIdB, valueA, valueB);
+  settleCropNextTestBets(modelIdA, modelIdB, snapshotA.valueCents, snapshotB.valueCents);
 
   submitAiResult({
     domain: "crop_decision",
     modelAId: modelIdA,
     modelBId: modelIdB,
-    snapshotA: {
-      date,
-      pricePerBushel,
-      cashCents: cashA,
-      bushels: bushelsA,
-      valueCents: valueA,
-      costBasisCents: costBasisA,
-      trade: parsedA.trade,
-      size: parsedA.size,
-      reasoning: parsedA.reasoning ?? undefined,
-      longTermBushelsPerAcre: parsedA.longTermBushelsPerAcre ?? undefined,
-      reasonLongTerm: parsedA.reasonLongTerm ?? undefined,
-    },
-    snapshotB: {
-      date,
-      pricePerBushel,
-      cashCents: cashB,
-      bushels: bushelsB,
-      valueCents: valueB,
-      costBasisCents: costBasisB,
-      trade: parsedB.trade,
-      size: parsedB.size,
-      reasoning: parsedB.reasoning ?? undefined,
-      longTermBushelsPerAcre: parsedB.longTermBushelsPerAcre ?? undefined,
-      reasonLongTerm: parsedB.reasonLongTerm ?? undefined,
-    },
+    snapshotA: toHcsSnapshot(snapshotA),
+    snapshotB: toHcsSnapshot(snapshotB),
   }).catch(() => {});
 
   const result: CropTestResultVs = {
     modelAId: modelIdA,
     modelBId: modelIdB,
-    prices,
+    commodities: TRADED.map((c) => c.id),
+    prices: series[0].map((p) => ({ date: p.date, pricePerBushel: p.price })),
     historyA,
     historyB,
     startValueCents: CROP_BANKROLL_CENTS,
-    finalValueCentsA: valueA,
-    finalValueCentsB: valueB,
+    finalValueCentsA: snapshotA.valueCents,
+    finalValueCentsB: snapshotB.valueCents,
   };
 
   const newState: CropVsState = {
-    cashA,
-    bushelsA,
-    costBasisA,
-    cashB,
-    bushelsB,
-    costBasisB,
+    portfolioA: stepA.portfolio,
+    portfolioB: stepB.portfolio,
     historyA,
     historyB,
+    bookA: stepA.book,
+    bookB: stepB.book,
   };
 
   return { result, newState };
@@ -1,8 +1,12 @@
 import { randomUUID } from "crypto";
 import { query } from "../../db/client.js";
 import { config } from "../../config.js";
-import { getAIProviders } from "../../ai/index.js";
-import { getBlackjackDailyState } from "../blackjack/service.js";
+import { baseProviderId, getAIProvider, getAIProviders, getProviderHealth, promptVariantOf, type AIProvider } from "../../ai/index.js";
+import { ensureAIModel, getBlackjackDailyState } from "../blackjack/service.js";
+import { getTournament } from "../blackjack/tournament.js";
+import { getBlackjackHandModelIds, getBlackjackHands } from "../../hedera/blackjack-hand-store.js";
+import { getCropAutoPlayStatus } from "../../jobs/autoPlayCrop.js";
+import { pnlPerInferenceDollar, sumUsage, type UsageTotals } from "../../ai/usage.js";
 import { credit as creditUserBalance } from "../../user-balance.js";
 
 export type PerformanceBet = {
@@ -71,14 +75,64 @@ export async function getOddsHistory(
   return points;
 }
 
-/** Get daily P/L per model for leaderboard. Period = date YYYY-MM-DD. */
-export async function getLeaderboard(domain: string, period: string): Promise<{ modelId: string; name: string; pnlCents: number }[]> {
-  if (domain !== "blackjack") return [];
+export type LeaderboardRow = {
+  /** Contestant id: a provider id, or "<provider id>@<variant>" for a prompt variant. */
+  modelId: string;
+  name: string;
+  /** The model and prompt variant behind the row, to tell model gains from prompt gains. */
+  providerId: string;
+  promptVariant: string;
+  pnlCents: number;
+  /** Inference spent earning that P/L (ai/usage.ts). */
+  inferenceCostUsd: number;
+  /** Dollars of P/L per dollar of inference; null when nothing was spent (baselines, self-hosted models). */
+  pnlPerInferenceDollar: number | null;
+  /** Member ids for an ensemble's row, to compare it with its best member; null for a single model. */
+  members: string[] | null;
+  /** Share of calls since startup that failed and played the default (ai/resilience.ts); null for models never called over the network. */
+  failureRate: number | null;
+};
+
+function leaderboardRow(modelId: string, name: string, pnlCents: number, usage: (UsageTotals | undefined)[]): LeaderboardRow {
+  const { costUsd } = sumUsage(usage);
+  const providerId = baseProviderId(modelId);
+  const provider = getAIProvider(modelId);
+  const failureRate = getProviderHealth().find((h) => h.modelId === providerId)?.failureRate ?? null;
+  return {
+    modelId,
+    name,
+    providerId,
+    promptVariant: provider ? promptVariantOf(provider).id : "",
+    pnlCents,
+    inferenceCostUsd: costUsd,
+    pnlPerInferenceDollar: pnlPerInferenceDollar(pnlCents, costUsd),
+    members: provider?.members ?? null,
+    failureRate,
+  };
+}
+
+/**
+ * P/L per model for the leaderboard, with the inference it cost. Blackjack: the day's hands (period = YYYY-MM-DD).
+ * Crop: the running auto-play match on its rolling bankroll (period is ignored).
+ */
+export async function getLeaderboard(domain: string, period: string): Promise<LeaderboardRow[]> {
   const providers = getAIProviders();
-  const rows: { modelId: string; name: string; pnlCents: number }[] = [];
-  for (const p of providers) {
-    const state = await getBlackjackDailyState(p.id, period);
-    rows.push({ modelId: p.id, name: p.name, pnlCents: state.pnlCents });
+  const nameOf = (modelId: string) => providers.find((p) => p.id === modelId)?.name ?? modelId;
+  const rows: LeaderboardRow[] = [];
+  if (domain === "blackjack") {
+    // Contestants are created on first play, so ones that played before a restart are found by their hands
+    const handIds = getBlackjackHandModelIds().filter((id) => getBlackjackHands(id, period).length > 0);
+    const contestants = [...new Set([...getAIProviders("blackjack").map((p) => p.id), ...handIds])].map((id) => getAIProvider(id)).filter((p): p is AIProvider => !!p);
+    for (const p of contestants) {
+      const state = await getBlackjackDailyState(p.id, period);
+      rows.push(leaderboardRow(p.id, p.name, state.pnlCents, getBlackjackHands(p.id, period).map((h) => h.usage)));
+    }
+  } else if (domain === "crop") {
+    const match = getCropAutoPlayStatus().lastResult;
+    if (match) {
+      rows.push(leaderboardRow(match.modelAId, nameOf(match.modelAId), match.finalValueCentsA - match.startValueCents, match.historyA.map((s) => s.usage)));
+      rows.push(leaderboardRow(match.modelBId, nameOf(match.modelBId), match.finalValueCentsB - match.startValueCents, match.historyB.map((s) => s.usage)));
+    }
   }
   rows.sort((a, b) => b.pnlCents - a.pnlCents);
   return rows;
@@ -289,3 +343,102 @@ export async function getNext3OddsHistory(
   }
   return points;
 }
+
+export type TournamentBet = {
+  id: string;
+  tournament_id: string;
+  model_id: string;
+  amount_cents: number;
+  outcome: "win" | "loss" | "push" | "pending";
+  payout_cents?: number | null;
+  created_at?: string;
+};
+
+/** Bet on a blackjack tournament's winner. Betting closes when the final table starts. */
+export async function placeTournamentBet(tournamentId: string, modelId: string, amountCents: number): Promise<TournamentBet> {
+  const tournament = getTournament(tournamentId);
+  if (!tournament) throw new Error(`Unknown tournament: ${tournamentId}`);
+  if (!tournament.bettingOpen) throw new Error("Betting is closed for this tournament");
+  if (!tournament.entrants.includes(modelId)) throw new Error(`${modelId} is not entered in this tournament`);
+  // Bets reference ai_models, and an entrant gets its row only when it first plays
+  await ensureAIModel(modelId, getAIProvider(modelId)?.name ?? modelId);
+  const id = randomUUID();
+  const created_at = new Date().toISOString();
+  await query(
+    `INSERT INTO tournament_bets (id, tournament_id, model_id, amount_cents, outcome, created_at)
+     VALUES ($1, $2, $3, $4, 'pending', $5)`,
+    [id, tournamentId, modelId, amountCents, created_at]
+  );
+  return { id, tournament_id: tournamentId, model_id: modelId, amount_cents: amountCents, outcome: "pending", created_at };
+}
+
+/**
+ * Settle a tournament's winner bets once it has ended (called by the tournament runner). Bets on the winner share
+ * the whole pool (parimutuel); if nobody backed the winner, or the tournament failed (winner null), every stake is
+ * refunded. Each row is claimed by a conditional update, so a bet is credited at most once.
+ */
+export async function settleTournamentBets(tournamentId: string, winner: string | null): Promise<void> {
+  const all = await query<TournamentBet>(`SELECT id, model_id, amount_cents, outcome FROM tournament_bets WHERE tournament_id = $1`, [tournamentId]);
+  const totalPool = all.rows.reduce((s, b) => s + Number(b.amount_cents), 0);
+  const totalWinning = all.rows.filter((b) => b.model_id === winner).reduce((s, b) => s + Number(b.amount_cents), 0);
+  for (const bet of all.rows.filter((b) => b.outcome === "pending")) {
+    const amount = Number(bet.amount_cents);
+    let outcome: "win" | "loss" | "push";
+    let payout_cents: number;
+    if (winner == null || totalWinning === 0) {
+      outcome = "push";
+      payout_cents = amount;
+    } else if (bet.model_id === winner) {
+      outcome = "win";
+      payout_cents = Math.round((amount * totalPool) / totalWinning);
+    } else {
+      outcome = "loss";
+      payout_cents = 0;
+    }
+    await settleTournamentBet(bet.id, outcome, payout_cents);
+  }
+}
+
+async function settleTournamentBet(id: string, outcome: "win" | "loss" | "push", payoutCents: number): Promise<void> {
+  const claimed = await query<{ id: string }>(
+    `UPDATE tournament_bets SET outcome = $2, payout_cents = $3 WHERE id = $1 AND outcome = 'pending' RETURNING id`,
+    [id, outcome, payoutCents]
+  );
+  if (claimed.rows.length > 0) creditUserBalance(payoutCents);
+}
+
+/**
+ * Refund pending bets on tournaments this server no longer knows (tournaments live in memory, so one that was
+ * running when the server stopped never settles). Call at startup.
+ */
+export async function refundOrphanedTournamentBets(): Promise<void> {
+  const pending = await query<TournamentBet>(`SELECT id, tournament_id, amount_cents FROM tournament_bets WHERE outcome = 'pending'`);
+  for (const bet of pending.rows) {
+    if (!getTournament(bet.tournament_id)) await settleTournamentBet(bet.id, "push", Number(bet.amount_cents));
+  }
+}
+
+/** A tournament's winner bets, oldest first. */
+export async function listTournamentBets(tournamentId: string): Promise<TournamentBet[]> {
+  const res = await query<TournamentBet>(
+    `SELECT id, tournament_id, model_id, amount_cents, outcome, payout_cents, created_at FROM tournament_bets WHERE tournament_id = $1 ORDER BY created_at`,
+    [tournamentId]
+  );
+  return res.rows.map((r) => ({ ...r, amount_cents: Number(r.amount_cents), payout_cents: r.payout_cents != null ? Number(r.payout_cents) : null }));
+}
+
+export type TournamentOdds = { modelId: string; totalCents: number; impliedPct: number };
+
+/** Pool share per entrant (the market's implied chance of winning); entrants without bets show 0. */
+export async function getTournamentOdds(tournamentId: string): Promise<TournamentOdds[]> {
+  const tournament = getTournament(tournamentId);
+  if (!tournament) return [];
+  const res = await query<{ model_id: string; amount_cents: number }>(`SELECT model_id, amount_cents FROM tournament_bets WHERE tournament_id = $1`, [tournamentId]);
+  const total = res.rows.reduce((s, b) => s + Number(b.amount_cents), 0);
+  return tournament.entrants
+    .map((modelId) => {
+      const totalCents = res.rows.filter((b) => b.model_id === modelId).reduce((s, b) => s + Number(b.amount_cents), 0);
+      return { modelId, totalCents, impliedPct: total > 0 ? Math.round((1000 * totalCents) / total) / 10 : 0 };
+    })
+    .sort((a, b) => b.totalCents - a.totalCents);
+}
@@ -17,6 +17,23 @@ export type BlackjackHandEntry = {
   reasoning?: string | null;
   outcome: string | null;
   pnlCents: number | null;
+  /** Per-hand detail when the player split (VS messages from HCS carry cards only). */
+  subHands?: { cards: string[]; betCents?: number; outcome?: string; pnlCents?: number }[];
+  /** Table rule code (rules.ts); missing on hands recorded before rules were published. */
+  rules?: string;
+  insurance?: "insurance" | "even_money";
+  /** Seeded shoe position of the round's cards (verify with POST /api/blackjack/verify) */
+  deal?: { seedHash: string; nonce: number; from: number; to: number };
+  /** Basic-strategy grade of the round's decisions (domains/blackjack/strategy.ts) */
+  strategy?: { decisions: number; correct: number; evLossCents: number };
+  /** Counting mode: Hi-Lo count before the deal and the opening bet (domains/blackjack/counting.ts) */
+  count?: { running: number; trueCount: number; betCents: number };
+  /** Side bets settled on the initial deal; present (possibly empty) when the table offered them (domains/blackjack/sidebets.ts) */
+  sideBets?: { kind: string; cents: number; result: string | null; pnlCents: number }[];
+  /** Instruction-following: asks, asks answered without a fallback or clamp, and the events (ai/structured.ts; HCS keeps counts only) */
+  compliance?: { asks: number; compliant: number; events?: { field: string; issue: "schema_invalid" | "unparsed" | "clamped" | "not_offered" | "no_reply"; detail?: string }[] };
+  /** Inference spent on the round: calls, tokens, summed latency and cost (ai/usage.ts) */
+  usage?: { calls: number; promptTokens: number; completionTokens: number; latencyMs: number; costUsd: number };
 };
 
 /** modelId -> list of hands (chronological) */
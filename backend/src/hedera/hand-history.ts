@@ -21,6 +21,72 @@ function get(obj: Record<string, unknown>, ...keys: string[]): unknown {
   return undefined;
 }
 
+/** Split hands from an HCS message: full objects (blackjack) or card lists only (blackjack_vs). */
+function parseSubHands(raw: unknown): BlackjackHandEntry["subHands"] {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+  return raw.map((h) => {
+    if (Array.isArray(h)) return { cards: h as string[] };
+    const o = (h ?? {}) as Record<string, unknown>;
+    return {
+      cards: Array.isArray(o.cards) ? (o.cards as string[]) : [],
+      betCents: typeof o.betCents === "number" ? o.betCents : undefined,
+      outcome: typeof o.outcome === "string" ? o.outcome : undefined,
+      pnlCents: typeof o.pnlCents === "number" ? o.pnlCents : undefined,
+    };
+  });
+}
+
+function parseInsurance(raw: unknown): BlackjackHandEntry["insurance"] {
+  return raw === "insurance" || raw === "even_money" ? raw : undefined;
+}
+
+function parseStrategy(raw: unknown): BlackjackHandEntry["strategy"] {
+  const o = (raw ?? {}) as Record<string, unknown>;
+  if (typeof o.decisions !== "number") return undefined;
+  return { decisions: o.decisions, correct: Number(o.correct ?? 0), evLossCents: Number(o.evLossCents ?? 0) };
+}
+
+function parseDeal(raw: unknown): BlackjackHandEntry["deal"] {
+  const o = (raw ?? {}) as Record<string, unknown>;
+  if (typeof o.seedHash !== "string" || typeof o.from !== "number" || typeof o.to !== "number") return undefined;
+  return { seedHash: o.seedHash, nonce: Number(o.nonce ?? 0), from: o.from, to: o.to };
+}
+
+function parseCount(raw: unknown, betCents: unknown): BlackjackHandEntry["count"] {
+  const o = (raw ?? {}) as Record<string, unknown>;
+  const bet = typeof o.betCents === "number" ? o.betCents : betCents;
+  if (typeof o.trueCount !== "number" || typeof bet !== "number") return undefined;
+  return { running: Number(o.running ?? 0), trueCount: o.trueCount, betCents: bet };
+}
+
+/** Side bets from HCS; HCS keeps kind, stake and P&L only. */
+function parseSideBets(raw: unknown): BlackjackHandEntry["sideBets"] {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.map((b) => {
+    const o = (b ?? {}) as Record<string, unknown>;
+    return { kind: String(o.kind ?? ""), cents: Number(o.cents ?? 0), result: typeof o.result === "string" ? o.result : null, pnlCents: Number(o.pnlCents ?? 0) };
+  });
+}
+
+/** Compliance counts from HCS (events are not published). */
+function parseCompliance(raw: unknown): BlackjackHandEntry["compliance"] {
+  const o = (raw ?? {}) as Record<string, unknown>;
+  if (typeof o.asks !== "number") return undefined;
+  return { asks: o.asks, compliant: Number(o.compliant ?? 0) };
+}
+
+function parseUsage(raw: unknown): BlackjackHandEntry["usage"] {
+  const o = (raw ?? {}) as Record<string, unknown>;
+  if (typeof o.calls !== "number") return undefined;
+  return {
+    calls: o.calls,
+    promptTokens: Number(o.promptTokens ?? 0),
+    completionTokens: Number(o.completionTokens ?? 0),
+    latencyMs: Number(o.latencyMs ?? 0),
+    costUsd: Number(o.costUsd ?? 0),
+  };
+}
+
 /** Fetch blackjack hands. Serves from in-memory store first; falls back to HCS when empty. Older HCS messages may lack cards/bets — we show what we have. */
 export async function fetchBlackjackHandHistory(
   modelId: string,
@@ -76,6 +142,15 @@ export async function parseAllMessagesToHandsByModel(
           decision: typeof get(parsed, "decision") === "string" ? (get(parsed, "decision") as string) : null,
           outcome: typeof get(parsed, "outcome") === "string" ? (get(parsed, "outcome") as string) : null,
           pnlCents: typeof get(parsed, "pnlCents", "pnl_cents") === "number" ? (get(parsed, "pnlCents", "pnl_cents") as number) : null,
+          subHands: parseSubHands(get(parsed, "subHands", "sub_hands")),
+          rules: typeof get(parsed, "rules") === "string" ? (get(parsed, "rules") as string) : undefined,
+          insurance: parseInsurance(get(parsed, "insurance")),
+          deal: parseDeal(get(parsed, "deal")),
+          strategy: parseStrategy(get(parsed, "strategy")),
+          count: parseCount(get(parsed, "count"), undefined),
+          sideBets: parseSideBets(get(parsed, "sideBets", "side_bets")),
+          compliance: parseCompliance(get(parsed, "compliance")),
+          usage: parseUsage(get(parsed, "usage")),
         });
       } else if (domain === "blackjack_vs") {
         const modelAId = String(get(parsed, "modelIdA", "modelAId", "model_id_a") ?? "").trim();
@@ -98,6 +173,8 @@ export async function parseAllMessagesToHandsByModel(
         const betB = typeof get(parsed, "betB", "bet_b") === "number" ? (get(parsed, "betB", "bet_b") as number) : null;
         const decisionA = typeof get(parsed, "decisionA", "decision_a") === "string" ? (get(parsed, "decisionA", "decision_a") as string) : null;
         const decisionB = typeof get(parsed, "decisionB", "decision_b") === "string" ? (get(parsed, "decisionB", "decision_b") as string) : null;
+        const rules = typeof get(parsed, "rules") === "string" ? (get(parsed, "rules") as string) : undefined;
+        const deal = parseDeal(get(parsed, "deal"));
         if (modelAId) {
           push(modelAId, {
             date: d || undefined,
@@ -109,6 +186,10 @@ export async function parseAllMessagesToHandsByModel(
             decision: decisionA,
             outcome: outcomeA || null,
             pnlCents: pnlA,
+            subHands: parseSubHands(get(parsed, "handsA", "hands_a")),
+            rules,
+            deal,
+            strategy: parseStrategy(get(parsed, "strategyA")),
           });
         }
         if (modelBId) {
@@ -122,6 +203,44 @@ export async function parseAllMessagesToHandsByModel(
             decision: decisionB,
             outcome: outcomeB || null,
             pnlCents: pnlB,
+            subHands: parseSubHands(get(parsed, "handsB", "hands_b")),
+            rules,
+            deal,
+            strategy: parseStrategy(get(parsed, "strategyB")),
+          });
+        }
+      } else if (domain === "blackjack_table") {
+        const d = String(get(parsed, "date") ?? "").slice(0, 10);
+        if (dateFilter != null && d !== dateFilter) continue;
+        const rawDC = get(parsed, "dealerCards", "dealer_cards");
+        const dealerCards = Array.isArray(rawDC) ? (rawDC as string[]) : [];
+        const dealerUpcard = typeof get(parsed, "dealerUpcard", "dealer_upcard") === "string" ? (get(parsed, "dealerUpcard", "dealer_upcard") as string) : null;
+        const dealerTotal = typeof get(parsed, "dealerTotal", "dealer_total") === "number" ? (get(parsed, "dealerTotal", "dealer_total") as number) : null;
+        const rules = typeof get(parsed, "rules") === "string" ? (get(parsed, "rules") as string) : undefined;
+        const deal = parseDeal(get(parsed, "deal"));
+        const seats = Array.isArray(parsed.seats) ? (parsed.seats as Record<string, unknown>[]) : [];
+        for (const seat of seats) {
+          const mid = String(get(seat, "modelId", "model_id") ?? "").trim();
+          if (!mid) continue;
+          push(mid, {
+            date: d || undefined,
+            betCents: typeof seat.bet === "number" ? seat.bet : null,
+            playerCards: Array.isArray(seat.cards) ? (seat.cards as string[]) : [],
+            dealerUpcard,
+            dealerCards: dealerCards.length > 0 ? dealerCards : undefined,
+            dealerTotal: dealerTotal ?? undefined,
+            decision: typeof seat.decision === "string" ? seat.decision : null,
+            outcome: typeof seat.outcome === "string" ? seat.outcome : null,
+            pnlCents: typeof seat.pnl === "number" ? seat.pnl : null,
+            subHands: parseSubHands(seat.hands),
+            rules,
+            insurance: parseInsurance(seat.insurance),
+            deal,
+            strategy: parseStrategy(seat.strategy),
+            count: parseCount(get(parsed, "count"), seat.openingBet),
+            sideBets: parseSideBets(seat.sideBets),
+            compliance: parseCompliance(seat.compliance),
+            usage: parseUsage(seat.usage),
           });
         }
       }
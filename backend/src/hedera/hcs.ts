@@ -103,6 +103,18 @@ export type AiResultPayload = HcsPayload;
 
 const MAX_MESSAGE_BYTES = 1024;
 
+function roundValues(map: unknown, decimals: number): Record<string, number> | undefined {
+  if (!map || typeof map !== "object") return undefined;
+  const f = 10 ** decimals;
+  return Object.fromEntries(Object.entries(map as Record<string, number>).map(([k, v]) => [k, Math.round(v * f) / f]));
+}
+
+/** A map without zero entries and without the first commodity (the snapshot's own bushels, costBasisCents, pricePerBushel). */
+function sparse(map: Record<string, number> | undefined): Record<string, number> | undefined {
+  const primary = config.cropCommodities[0] ?? "corn";
+  return map && Object.fromEntries(Object.entries(map).filter(([k, v]) => v !== 0 && k !== primary));
+}
+
 /** Compact snapshot without long text fields (for HCS 1024-byte limit). */
 function compactCropSnapshot(snap: Record<string, unknown>): Record<string, unknown> {
   return {
@@ -112,13 +124,38 @@ function compactCropSnapshot(snap: Record<string, unknown>): Record<string, unkn
     bushels: snap.bushels,
     valueCents: snap.valueCents,
     costBasisCents: snap.costBasisCents,
+    positions: snap.positions,
+    costBasis: roundValues(snap.costBasis, 0),
+    prices: roundValues(snap.prices, 4),
     trade: snap.trade,
+    commodity: snap.commodity,
     size: snap.size,
+    mode: snap.mode,
+    liquidated: snap.liquidated,
+    costs: snap.costs,
+    orderFills: snap.orderFills,
+    orders: snap.orders,
     longTermBushelsPerAcre: snap.longTermBushelsPerAcre ?? null,
+    compliance: snap.compliance,
+    usage: snap.usage,
     // omit reasoning, reasonLongTerm to fit 1024 bytes
   };
 }
 
+/** Smaller still, for several commodities: sparse maps (prices only of what is held or traded) and no usage. */
+function minimalCropSnapshot(snap: Record<string, unknown>): Record<string, unknown> {
+  const compact = compactCropSnapshot(snap);
+  const positions = sparse(compact.positions as Record<string, number> | undefined);
+  const prices = sparse(compact.prices as Record<string, number> | undefined);
+  return {
+    ...compact,
+    positions,
+    costBasis: sparse(compact.costBasis as Record<string, number> | undefined),
+    prices: prices && Object.fromEntries(Object.entries(prices).filter(([k]) => positions?.[k] != null || k === compact.commodity)),
+    usage: undefined,
+  };
+}
+
 function buildMessage(payload: AiResultPayload): string {
   // blackjack_vs: always use compact format to guarantee we include playerACards, playerBCards, dealerUpcard, bets (fit 1024 bytes)
   if (payload.domain === "blackjack_vs") {
@@ -127,6 +164,8 @@ function buildMessage(payload: AiResultPayload): string {
       outcomeA?: string; outcomeB?: string; pnlA?: number; pnlB?: number;
       playerACards?: string[]; playerBCards?: string[]; dealerUpcard?: string;
       dealerTotal?: number; betA?: number; betB?: number;
+      handsA?: string[][]; handsB?: string[][]; rules?: string; deal?: unknown;
+      strategyA?: unknown; strategyB?: unknown;
     };
     const compact = {
       v: HCS_SCHEMA_VERSION,
@@ -145,6 +184,12 @@ function buildMessage(payload: AiResultPayload): string {
       dealerTotal: vs.dealerTotal ?? null,
       betA: vs.betA ?? null,
       betB: vs.betB ?? null,
+      ...(vs.handsA ? { handsA: vs.handsA } : {}),
+      ...(vs.handsB ? { handsB: vs.handsB } : {}),
+      ...(vs.rules ? { rules: vs.rules } : {}),
+      ...(vs.deal ? { deal: vs.deal } : {}),
+      ...(vs.strategyA ? { strategyA: vs.strategyA } : {}),
+      ...(vs.strategyB ? { strategyB: vs.strategyB } : {}),
     };
     const compactMsg = JSON.stringify(compact);
     if (new TextEncoder().encode(compactMsg).length <= MAX_MESSAGE_BYTES) return compactMsg;
@@ -152,6 +197,22 @@ function buildMessage(payload: AiResultPayload): string {
     return "";
   }
 
+  // blackjack_table: up to 7 seats; drop per-seat detail (strategy, decision, split hands) before giving up
+  if (payload.domain === "blackjack_table") {
+    const full = JSON.stringify({ v: HCS_SCHEMA_VERSION, ts: new Date().toISOString(), ...payload });
+    if (new TextEncoder().encode(full).length <= MAX_MESSAGE_BYTES) return full;
+    const compact = JSON.stringify({
+      v: HCS_SCHEMA_VERSION,
+      ts: new Date().toISOString(),
+      ...payload,
+      dealerCards: undefined,
+      seats: payload.seats.map(({ seat, modelId, outcome, pnl, bet, cards, openingBet }) => ({ seat, modelId, outcome, pnl, bet, cards, openingBet })),
+    });
+    if (new TextEncoder().encode(compact).length <= MAX_MESSAGE_BYTES) return compact;
+    console.warn("[HCS] blackjack_table compact too large, skipping");
+    return "";
+  }
+
   const obj = { v: HCS_SCHEMA_VERSION, ts: new Date().toISOString(), ...payload };
   const msg = JSON.stringify(obj);
   if (new TextEncoder().encode(msg).length <= MAX_MESSAGE_BYTES) return msg;
@@ -169,6 +230,19 @@ function buildMessage(payload: AiResultPayload): string {
     };
     const compactMsg = JSON.stringify(compact);
     if (new TextEncoder().encode(compactMsg).length <= MAX_MESSAGE_BYTES) return compactMsg;
+    const minimalMsg = JSON.stringify({
+      ...compact,
+      snapshotA: minimalCropSnapshot(payload.snapshotA as Record<string, unknown>),
+      snapshotB: minimalCropSnapshot(payload.snapshotB as Record<string, unknown>),
+    });
+    if (new TextEncoder().encode(minimalMsg).length <= MAX_MESSAGE_BYTES) return minimalMsg;
+    // Last resort (many open positions, long and short): without the cost basis maps and compliance
+    const bareMsg = JSON.stringify({
+      ...compact,
+      snapshotA: { ...minimalCropSnapshot(payload.snapshotA as Record<string, unknown>), costBasis: undefined, costs: undefined, orderFills: undefined, orders: undefined, compliance: undefined },
+      snapshotB: { ...minimalCropSnapshot(payload.snapshotB as Record<string, unknown>), costBasis: undefined, costs: undefined, orderFills: undefined, orders: undefined, compliance: undefined },
+    });
+    if (new TextEncoder().encode(bareMsg).length <= MAX_MESSAGE_BYTES) return bareMsg;
     console.warn("[HCS] crop_decision still too large after compact, skipping");
     return "";
   }
@@ -199,6 +273,14 @@ export async function submitAiResult(payload: AiResultPayload): Promise<void> {
       console.log("[HCS] Submitted blackjack:", (payload as { modelId?: string }).modelId, (payload as { date?: string }).date);
     } else if (payload.domain === "blackjack_vs") {
       console.log("[HCS] Submitted blackjack_vs:", (payload as { modelIdA?: string }).modelIdA, "vs", (payload as { modelIdB?: string }).modelIdB, (payload as { date?: string }).date);
+    } else if (payload.domain === "blackjack_table") {
+      console.log("[HCS] Submitted blackjack_table:", payload.seats.map((s) => s.modelId).join(", "), payload.date);
+    } else if (payload.domain === "blackjack_shoe") {
+      console.log("[HCS] Submitted blackjack_shoe", payload.phase + ":", payload.tableId, payload.seedHash.slice(0, 12));
+    } else if (payload.domain === "blackjack_duplicate") {
+      console.log("[HCS] Submitted blackjack_duplicate:", payload.sessionId, payload.deals, "deals", payload.replay ? "(replay)" : "");
+    } else if (payload.domain === "blackjack_tournament") {
+      console.log("[HCS] Submitted blackjack_tournament:", payload.tournamentId, "winner", payload.winner);
     } else if (payload.domain === "crop_decision") {
       console.log("[HCS] Submitted crop_decision:", payload.modelAId, "vs", payload.modelBId);
     }
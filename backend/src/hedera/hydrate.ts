@@ -9,7 +9,19 @@ import { loadBlackjackHandsFromHedera, recomputeDailyBankrollsFromHands } from "
 import { setCropVsStateFromHydration } from "../jobs/autoPlayCrop.js";
 import { parseAllMessagesToHandsByModel } from "./hand-history.js";
 import { loadBlackjackHandHistoryFromHcs } from "./blackjack-hand-store.js";
-import type { CropVsState, CropPortfolioSnapshot } from "../domains/crop/service.js";
+import {
+  cropPortfolioOf,
+  getCropAccount,
+  type CropCosts,
+  type CropOrder,
+  type CropOrderBook,
+  type CropOrderFill,
+  type CropVsState,
+  type CropPortfolioSnapshot,
+} from "../domains/crop/service.js";
+import { CROP_TRADES, type CropTrade } from "../domains/crop/portfolio.js";
+import { CROP_ORDER_TYPES, TIMES_IN_FORCE, type CropOrderType, type TimeInForce } from "../domains/crop/orders.js";
+import { recordRevealedSeed } from "../domains/blackjack/fairness.js";
 
 export async function hydrateFromHedera(): Promise<void> {
   if (!config.hederaTopicId) return;
@@ -19,6 +31,7 @@ export async function hydrateFromHedera(): Promise<void> {
 
   let blackjackCount = 0;
   let blackjackVsCount = 0;
+  let blackjackTableCount = 0;
   let cropDecisionCount = 0;
   let cropSkipped = 0;
   const blackjackHands: Array<{ model_id: string; date: string; pnl_cents: number }> = [];
@@ -46,6 +59,19 @@ export async function hydrateFromHedera(): Promise<void> {
         const pnlB = Number(parsed.pnlB ?? 0);
         if (modelAId && date) blackjackHands.push({ model_id: modelAId, date, pnl_cents: pnlA });
         if (modelBId && date) blackjackHands.push({ model_id: modelBId, date, pnl_cents: pnlB });
+      } else if (domain === "blackjack_table") {
+        blackjackTableCount++;
+        const date = String(parsed.date ?? "").slice(0, 10);
+        const seats = Array.isArray(parsed.seats) ? (parsed.seats as Record<string, unknown>[]) : [];
+        for (const seat of seats) {
+          const modelId = String(seat.modelId ?? "");
+          if (modelId && date) blackjackHands.push({ model_id: modelId, date, pnl_cents: Number(seat.pnl ?? 0) });
+        }
+      } else if (domain === "blackjack_shoe") {
+        // Revealed seeds stay verifiable after a restart
+        if (parsed.phase === "reveal" && typeof parsed.seed === "string" && typeof parsed.seedHash === "string") {
+          recordRevealedSeed({ seed: parsed.seed, seedHash: parsed.seedHash, nonce: Number(parsed.nonce ?? 0), decks: Number(parsed.decks ?? 1) });
+        }
       } else if (domain === "crop_decision") {
         cropDecisionCount++;
         const modelAId = String(parsed.modelAId ?? "");
@@ -64,17 +90,22 @@ export async function hydrateFromHedera(): Promise<void> {
           continue;
         }
 
+        // A run in another account mode (CROP_TRADING_MODE changed) cannot be continued; the state restarts after it
+        if ((snapA.mode ?? "cash") !== getCropAccount().mode) {
+          cropState = null;
+          cropSkipped++;
+          continue;
+        }
+
         cropModelAId = modelAId;
         cropModelBId = modelBId;
         cropState = {
-          cashA: snapA.cashCents,
-          bushelsA: snapA.bushels,
-          costBasisA: snapA.costBasisCents ?? 0,
-          cashB: snapB.cashCents,
-          bushelsB: snapB.bushels,
-          costBasisB: snapB.costBasisCents ?? 0,
+          portfolioA: cropPortfolioOf(snapA),
+          portfolioB: cropPortfolioOf(snapB),
           historyA: cropState ? [...cropState.historyA, snapA] : [snapA],
           historyB: cropState ? [...cropState.historyB, snapB] : [snapB],
+          bookA: bookAfter(cropState ? cropState.bookA : undefined, snapA),
+          bookB: bookAfter(cropState ? cropState.bookB : undefined, snapB),
         };
       }
     } catch {
@@ -83,7 +114,7 @@ export async function hydrateFromHedera(): Promise<void> {
   }
 
   console.log(
-    `[HCS Hydrate] ${messages.length} messages: blackjack=${blackjackCount}, blackjack_vs=${blackjackVsCount}, crop_decision=${cropDecisionCount} (skipped=${cropSkipped})`
+    `[HCS Hydrate] ${messages.length} messages: blackjack=${blackjackCount}, blackjack_vs=${blackjackVsCount}, blackjack_table=${blackjackTableCount}, crop_decision=${cropDecisionCount} (skipped=${cropSkipped})`
   );
   if (blackjackHands.length > 0 && config.useSqlite) {
     loadBlackjackHandsFromHedera(blackjackHands);
@@ -107,6 +138,64 @@ export async function hydrateFromHedera(): Promise<void> {
   }
 }
 
+/** A { commodity id: number } map from a message; undefined when absent (snapshots from before multi-commodity trading). */
+function numberMap(value: unknown): Record<string, number> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => typeof v === "number" && Number.isFinite(v));
+  return Object.fromEntries(entries) as Record<string, number>;
+}
+
+/** Itemised execution costs from a message; undefined when absent or not all three numbers. */
+function costsOf(value: unknown): CropCosts | undefined {
+  const costs = numberMap(value);
+  if (!costs || costs.commissionCents == null || costs.spreadCents == null || costs.slippageCents == null) return undefined;
+  return { commissionCents: costs.commissionCents, spreadCents: costs.spreadCents, slippageCents: costs.slippageCents };
+}
+
+const records = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter((v): v is Record<string, unknown> => !!v && typeof v === "object") : [];
+
+/** Resting orders from a message, skipping any that are malformed. */
+function ordersOf(value: unknown): CropOrder[] | undefined {
+  const orders = records(value).flatMap((o) =>
+    typeof o.id === "number" &&
+    CROP_ORDER_TYPES.includes(o.type as CropOrderType) &&
+    typeof o.commodity === "string" &&
+    Number(o.price) > 0 &&
+    Number(o.size) > 0 &&
+    TIMES_IN_FORCE.includes(o.timeInForce as TimeInForce) &&
+    CROP_TRADES.includes(o.trade as CropTrade) &&
+    typeof o.placedAt === "string"
+      ? [{ id: o.id, type: o.type as CropOrderType, commodity: o.commodity, price: Number(o.price), size: Number(o.size), timeInForce: o.timeInForce as TimeInForce, trade: o.trade as CropTrade, placedAt: o.placedAt }]
+      : []
+  );
+  return orders.length > 0 ? orders : undefined;
+}
+
+function orderFillsOf(value: unknown): CropOrderFill[] | undefined {
+  const fills = records(value).flatMap((f) =>
+    typeof f.orderId === "number" && CROP_ORDER_TYPES.includes(f.type as CropOrderType) && CROP_TRADES.includes(f.trade as CropTrade) && typeof f.commodity === "string"
+      ? [{
+          orderId: f.orderId,
+          type: f.type as CropOrderType,
+          trade: f.trade as CropTrade,
+          commodity: f.commodity,
+          date: String(f.date ?? ""),
+          price: Number(f.price ?? 0),
+          units: Number(f.units ?? 0),
+          ...(costsOf(f.costs) && { costs: costsOf(f.costs) }),
+        }]
+      : []
+  );
+  return fills.length > 0 ? fills : undefined;
+}
+
+/** The order book a snapshot left open; numbering continues after every order seen so far. */
+function bookAfter(book: CropOrderBook | undefined, s: CropPortfolioSnapshot): CropOrderBook {
+  const ids = [...(s.orders ?? []).map((o) => o.id), ...(s.orderFills ?? []).map((f) => f.orderId)];
+  return { orders: s.orders ?? [], nextId: Math.max(book?.nextId ?? 1, ...ids.map((id) => id + 1)) };
+}
+
 function toPortfolioSnapshot(obj: Record<string, unknown>): CropPortfolioSnapshot | null {
   const date = String(obj.date ?? "");
   const pricePerBushel = Number(obj.pricePerBushel ?? 0);
@@ -116,6 +205,8 @@ function toPortfolioSnapshot(obj: Record<string, unknown>): CropPortfolioSnapsho
   if (!date) return null;
   if (pricePerBushel === 0 && bushels === 0 && cashCents === 0) return null;
   const costBasisCents = obj.costBasisCents != null ? Number(obj.costBasisCents) : undefined;
+  const compliance = (obj.compliance ?? {}) as Record<string, unknown>;
+  const usage = (obj.usage ?? {}) as Record<string, unknown>;
   return {
     date,
     pricePerBushel,
@@ -123,10 +214,29 @@ function toPortfolioSnapshot(obj: Record<string, unknown>): CropPortfolioSnapsho
     bushels,
     valueCents,
     costBasisCents: Number.isFinite(costBasisCents) ? costBasisCents : undefined,
-    trade: (obj.trade === "buy" || obj.trade === "sell" || obj.trade === "hold" ? obj.trade : undefined),
+    positions: numberMap(obj.positions),
+    costBasis: numberMap(obj.costBasis),
+    prices: numberMap(obj.prices),
+    trade: CROP_TRADES.includes(obj.trade as CropTrade) ? (obj.trade as CropTrade) : undefined,
+    commodity: typeof obj.commodity === "string" ? obj.commodity : undefined,
     size: obj.size as number | undefined,
+    mode: obj.mode === "margin" || obj.mode === "futures" ? obj.mode : undefined,
+    liquidated: obj.liquidated === true ? true : undefined,
+    costs: costsOf(obj.costs),
+    orderFills: orderFillsOf(obj.orderFills),
+    orders: ordersOf(obj.orders),
     reasoning: (obj.reasoning as string | null | undefined) ?? undefined,
     longTermBushelsPerAcre: (obj.longTermBushelsPerAcre as number | null | undefined) ?? undefined,
     reasonLongTerm: (obj.reasonLongTerm as string | null | undefined) ?? undefined,
+    compliance: typeof compliance.asks === "number" ? { asks: compliance.asks, compliant: Number(compliance.compliant ?? 0), events: [] } : undefined,
+    usage: typeof usage.calls === "number"
+      ? {
+          calls: usage.calls,
+          promptTokens: Number(usage.promptTokens ?? 0),
+          completionTokens: Number(usage.completionTokens ?? 0),
+          latencyMs: Number(usage.latencyMs ?? 0),
+          costUsd: Number(usage.costUsd ?? 0),
+        }
+      : undefined,
   };
 }
@@ -7,12 +7,63 @@
  * - ts: ISO timestamp when submitted
  * - domain: discriminator for payload shape
  *
- * Hydration uses: blackjack, blackjack_vs, crop_decision
+ * Hydration uses: blackjack, blackjack_vs, blackjack_table, crop_decision (blackjack_shoe is for independent verification)
  * Charts pull from in-memory state rebuilt by hydration.
  */
 
 export const HCS_SCHEMA_VERSION = 1;
 
+/** Where a hand's cards sit in its seeded shoe: positions [from, to) in deal order */
+export type BlackjackDealPayload = {
+  seedHash: string;
+  nonce: number;
+  from: number;
+  to: number;
+};
+
+/** Basic-strategy grade of a round's decisions (EV lost vs the optimal action) */
+export type BlackjackStrategyPayload = {
+  decisions: number;
+  correct: number;
+  evLossCents: number;
+};
+
+/** Counting mode: Hi-Lo count before the deal */
+export type BlackjackCountPayload = {
+  running: number;
+  trueCount: number;
+};
+
+/** A side bet settled on the initial deal (kind: perfect_pairs | 21+3) */
+export type BlackjackSideBetPayload = {
+  kind: string;
+  cents: number;
+  pnlCents: number;
+};
+
+/** Instruction-following for the round: asks, and asks answered without a fallback or clamp */
+export type BlackjackCompliancePayload = {
+  asks: number;
+  compliant: number;
+};
+
+/** Inference spent on the round: model calls, tokens, summed wall-clock latency and cost */
+export type InferenceUsagePayload = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number;
+};
+
+/** One hand of a split round */
+export type BlackjackSubHandPayload = {
+  cards: string[];
+  betCents: number;
+  outcome: string;
+  pnlCents: number;
+};
+
 /** Blackjack: single hand (model plays alone) */
 export type BlackjackPayload = {
   domain: "blackjack";
@@ -24,7 +75,22 @@ export type BlackjackPayload = {
   pnlCents: number;
   playerCards: string[];
   dealerUpcard: string;
+  /** hit | stand | double | split | surrender */
   decision: string;
+  /** Only when the player split; playerCards is then the first hand. betCents/pnlCents are round totals. */
+  subHands?: BlackjackSubHandPayload[];
+  /** Table rule code the hand was dealt under, e.g. v1:S17,3:2,DAS,peek,ins,LS */
+  rules?: string;
+  /** Set when the player took insurance or even money against a dealer ace */
+  insurance?: "insurance" | "even_money";
+  deal?: BlackjackDealPayload;
+  strategy?: BlackjackStrategyPayload;
+  /** Counting mode only; betCents is the opening bet */
+  count?: BlackjackCountPayload & { betCents: number };
+  /** Only when side bets were placed; betCents/pnlCents include them */
+  sideBets?: BlackjackSideBetPayload[];
+  compliance?: BlackjackCompliancePayload;
+  usage?: InferenceUsagePayload;
 };
 
 /** Blackjack VS: two models, same table */
@@ -49,9 +115,90 @@ export type BlackjackVsPayload = {
   betB?: number;
   decisionA?: string;
   decisionB?: string;
+  /** Cards of every hand when that player split */
+  handsA?: string[][];
+  handsB?: string[][];
+  /** Table rule code the round was dealt under */
+  rules?: string;
+  deal?: BlackjackDealPayload;
+  strategyA?: BlackjackStrategyPayload;
+  strategyB?: BlackjackStrategyPayload;
+};
+
+/** One seat of an N-player table round */
+export type BlackjackTableSeatPayload = {
+  seat: number;
+  modelId: string;
+  outcome: string;
+  pnl: number;
+  /** Total staked, including doubles, splits and insurance */
+  bet: number;
+  cards: string[];
+  decision?: string;
+  /** Cards of every hand when this seat split */
+  hands?: string[][];
+  insurance?: "insurance" | "even_money";
+  /** Counting mode: bet before doubles, splits and insurance */
+  openingBet?: number;
+  sideBets?: BlackjackSideBetPayload[];
+  strategy?: BlackjackStrategyPayload;
+  compliance?: BlackjackCompliancePayload;
+  usage?: InferenceUsagePayload;
+};
+
+/** Blackjack table: 1–7 models sharing one dealer and shoe, one entry per seat */
+export type BlackjackTablePayload = {
+  domain: "blackjack_table";
+  handId: string;
+  date: string;
+  seats: BlackjackTableSeatPayload[];
+  dealerUpcard: string;
+  dealerCards?: string[];
+  dealerTotal?: number;
+  rules?: string;
+  deal?: BlackjackDealPayload;
+  /** Counting mode only (same for every seat) */
+  count?: BlackjackCountPayload;
+};
+
+/**
+ * Blackjack shoe commit–reveal. "commit" (seedHash only) is sent before the shoe's first card;
+ * "reveal" (with seed) once the shoe is retired. sha256(seed) must equal seedHash.
+ */
+export type BlackjackShoePayload = {
+  domain: "blackjack_shoe";
+  phase: "commit" | "reveal";
+  tableId: string;
+  seedHash: string;
+  nonce: number;
+  decks: number;
+  seed?: string;
+};
+
+/** Duplicate blackjack session standings (every model played the same seeded deals). */
+export type BlackjackDuplicatePayload = {
+  domain: "blackjack_duplicate";
+  sessionId: string;
+  seedHash: string;
+  /** A replay of an earlier shoe's revealed seed (no commitment of its own). */
+  replay?: true;
+  deals: number;
+  rules: string;
+  standings: { modelId: string; pnlCents: number; matchpoints: number }[];
+};
+
+/** Elimination tournament result: finishing order and virtual prizes. */
+export type BlackjackTournamentPayload = {
+  domain: "blackjack_tournament";
+  tournamentId: string;
+  rules: string;
+  handsPerRound: number;
+  prizePoolCents: number;
+  winner: string;
+  placings: { modelId: string; place: number; prizeCents: number }[];
 };
 
-/** Crop portfolio snapshot (one decision per model) */
+/** Crop portfolio snapshot (one decision per model). pricePerBushel, bushels and costBasisCents are the first traded commodity's. */
 export type CropSnapshotPayload = {
   date: string;
   pricePerBushel: number;
@@ -59,11 +206,34 @@ export type CropSnapshotPayload = {
   bushels: number;
   valueCents: number;
   costBasisCents?: number;
+  /**
+   * Units held, cost basis (cents) and price ($/unit) by commodity id, e.g. { corn: 2300, soybeans: 0 }. When a message
+   * must shrink to fit, zero entries, the first commodity's (see bushels, costBasisCents, pricePerBushel) and prices of
+   * commodities neither held nor traded are left out; as a last resort costBasis, costs (and compliance) are dropped too.
+   */
+  positions?: Record<string, number>;
+  costBasis?: Record<string, number>;
+  prices?: Record<string, number>;
   trade?: string;
+  /** Commodity id the trade was in */
+  commodity?: string;
   size?: number;
+  /** Account mode when not cash ("margin" | "futures"); futures positions are settled at the snapshot's prices */
+  mode?: string;
+  /** Every position was force-closed (maintenance margin) before the step's trade */
+  liquidated?: boolean;
+  /** Execution costs (cents) the step's fills paid, when any: { commissionCents, spreadCents, slippageCents } */
+  costs?: { commissionCents: number; spreadCents: number; slippageCents: number };
+  /** Resting orders that triggered since the previous step (units signed; 0 = triggered, nothing filled) */
+  orderFills?: { orderId: number; type: string; trade: string; commodity: string; date: string; price: number; units: number; costs?: { commissionCents: number; spreadCents: number; slippageCents: number } }[];
+  /** Open resting orders after the step; dropped (with fills) from messages that must shrink to the last resort */
+  orders?: { id: number; type: string; commodity: string; price: number; size: number; timeInForce: string; trade: string; placedAt: string }[];
   reasoning?: string | null;
   longTermBushelsPerAcre?: number | null;
   reasonLongTerm?: string | null;
+  /** Instruction-following for the step's answer */
+  compliance?: { asks: number; compliant: number };
+  usage?: InferenceUsagePayload;
 };
 
 /** Crop VS: one step (both models decide on same price) */
@@ -96,6 +266,10 @@ export type MarketPayload = {
 export type HcsPayload =
   | BlackjackPayload
   | BlackjackVsPayload
+  | BlackjackTablePayload
+  | BlackjackShoePayload
+  | BlackjackDuplicatePayload
+  | BlackjackTournamentPayload
   | CropDecisionPayload
   | CropPayload
   | MarketPayload;
@@ -5,15 +5,17 @@ import { fileURLToPath } from "url";
 import express from "express";
 import cors from "cors";
 import { config } from "./config.js";
-import { getAIProviders } from "./ai/index.js";
+import { getAIProviders, getProviderHealth } from "./ai/index.js";
 import { blackjackRouter } from "./api/blackjack.js";
 import { marketRouter } from "./api/market.js";
 import { cropRouter } from "./api/crop.js";
 import { userRouter } from "./api/user.js";
 import { hederaRouter } from "./api/hedera.js";
+import { agentsRouter } from "./api/agents.js";
 import { startAutoPlayBlackjack } from "./jobs/autoPlayBlackjack.js";
 import { startAutoPlayCrop } from "./jobs/autoPlayCrop.js";
 import { hydrateFromHedera } from "./hedera/hydrate.js";
+import { refundOrphanedTournamentBets } from "./domains/market/service.js";
 import { startInboundSubscription } from "./hedera/subscribe-inbound.js";
 import { invokeBenchmarkAnalyst, parseAnalystQuestion } from "./prompts/benchmark-analyst.js";
 import {
@@ -27,7 +29,8 @@ const publicDir = path.join(__dirname, "..", "public");
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+// The raw body is kept for webhook agents' signed requests (api/agents.ts)
+app.use(express.json({ verify: (req, _res, buf) => Object.assign(req, { rawBody: buf.toString("utf-8") }) }));
 
 app.get("/health", (_req, res) =>
   res.json({
@@ -36,6 +39,8 @@ app.get("/health", (_req, res) =>
     hederaKnowledgeConfigured: !!(config.knowledgeInboundTopicId && config.hederaInboundTopicId),
     /** Send to topic: needs topic + operator creds + HEDERA_TOPIC_ID (uses same client as blackjack storage) */
     knowledgeSendConfigured: !!(config.knowledgeInboundTopicId && config.hederaOperatorId && config.hederaOperatorKey && config.hederaTopicId),
+    /** Per model since startup: calls, failures (timeouts, errors, open circuit), failure rate and circuit state. */
+    providers: getProviderHealth(),
     /** Debug: which vars the server sees (values hidden). Use to diagnose "Set KNOWLEDGE_INBOUND_TOPIC_ID" etc. */
     env: {
       KNOWLEDGE_INBOUND_TOPIC_ID: config.knowledgeInboundTopicId ? "set" : "missing",
@@ -51,6 +56,7 @@ app.use("/api/market", marketRouter);
 app.use("/api/crop", cropRouter);
 app.use("/api/user", userRouter);
 app.use("/api/hedera", hederaRouter);
+app.use("/api/agents", agentsRouter);
 
 // Production: serve built frontend only if present (optional for split Vercel+Render deploy)
 const indexPath = path.join(publicDir, "index.html");
@@ -71,6 +77,7 @@ async function main() {
       console.warn("HCS: Hydration failed:", e);
     }
   }
+  await refundOrphanedTournamentBets().catch((e) => console.warn("Refunding orphaned tournament bets failed:", e));
   const server = app.listen(config.port, "0.0.0.0", () => {
     const providers = getAIProviders();
     console.log(`Server listening on http://localhost:${config.port}`);
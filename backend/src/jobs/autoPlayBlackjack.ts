@@ -4,7 +4,7 @@
  * the hand in the UI. If no one claims within CLAIM_MS, we run the hand with noop.
  */
 import { config } from "../config.js";
-import { getAIProviders } from "../ai/index.js";
+import { getAutoPlayProviders } from "../ai/index.js";
 import { playHandsStreamVs } from "../domains/blackjack/service.js";
 
 const CLAIM_MS = 30_000;
@@ -68,7 +68,7 @@ export function setAutoPlayLastHandAt(): void {
 async function runVsLoop(): Promise<void> {
   const delayMs = config.autoPlayDelayMs;
   const tickMs = 1_000;
-  const providers = getAIProviders();
+  const providers = getAutoPlayProviders("blackjack");
   if (providers.length < 2) return;
 
   const modelAId = providers[0].id;
@@ -121,7 +121,7 @@ async function runVsLoop(): Promise<void> {
 export function startAutoPlayBlackjack(): void {
   if (config.autoPlayDelayMs <= 0) return;
 
-  const providers = getAIProviders();
+  const providers = getAutoPlayProviders("blackjack");
   if (providers.length < 2) {
     console.log("Auto-play blackjack: need at least 2 models for VS; skipping.");
     return;
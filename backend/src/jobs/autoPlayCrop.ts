@@ -1,10 +1,11 @@
 /**
  * Auto-play: one crop decision per agent every CROP_AUTO_PLAY_DELAY_MS (e.g. 5 min).
- * Each run: fetch latest corn price, ask both agents once, apply trades, accumulate portfolio.
+ * Each run: fetch the latest price of every traded commodity, fill resting orders against the intraday bars since the
+ * last run, ask both agents once, apply trades and orders, accumulate portfolio and order books.
  */
 import { config } from "../config.js";
-import { getAIProviders } from "../ai/index.js";
-import { runCropSingleStepVs, type CropTestResultVs, type CropVsState } from "../domains/crop/service.js";
+import { getAutoPlayProviders } from "../ai/index.js";
+import { getCropCommodities, newCropVsState, runCropSingleStepVs, type CropTestResultVs, type CropVsState } from "../domains/crop/service.js";
 
 let cropVsState: CropVsState | null = null;
 
@@ -20,6 +21,7 @@ export function setCropVsStateFromHydration(
     cropAutoPlayState.lastResult = {
       modelAId: result.modelAId,
       modelBId: result.modelBId,
+      commodities: getCropCommodities().map((c) => c.id),
       prices: [],
       historyA: state.historyA,
       historyB: state.historyB,
@@ -46,8 +48,10 @@ export type CropAutoPlayStatus = {
   lastResult: CropTestResultVs | null;
   lastError: string | null;
   running: boolean;
-  /** Current corn $/bu — used for live portfolio value */
+  /** Current $/unit of the first traded commodity (corn by default) — used for live portfolio value */
   currentPricePerBushel?: number;
+  /** Current $/unit of every traded commodity, by id */
+  currentPrices?: Record<string, number>;
   /** Portfolio value at current price (vs finalValueCents at decision time) */
   liveValueCentsA?: number;
   liveValueCentsB?: number;
@@ -86,7 +90,7 @@ export function getCropAutoPlayStatus(): CropAutoPlayStatus {
 
 async function runCropLoop(): Promise<void> {
   const delayMs = config.cropAutoPlayDelayMs;
-  const providers = getAIProviders();
+  const providers = getAutoPlayProviders("crop");
   if (providers.length < 2) return;
 
   const modelAId = providers[0].id;
@@ -107,18 +111,7 @@ async function runCropLoop(): Promise<void> {
       cropAutoPlayState.lastError = null;
       cropAutoPlayState.nextRunAt = new Date(now + delayMs);
       try {
-        const state: CropVsState =
-          cropVsState ??
-          ({
-            cashA: config.cropBankrollCents,
-            bushelsA: 0,
-            costBasisA: 0,
-            cashB: config.cropBankrollCents,
-            bushelsB: 0,
-            costBasisB: 0,
-            historyA: [],
-            historyB: [],
-          } satisfies CropVsState);
+        const state: CropVsState = cropVsState ?? newCropVsState();
         const { result, newState } = await runCropSingleStepVs(modelAId, modelBId, state);
         cropVsState = newState;
         cropAutoPlayState.lastResult = result;
@@ -143,7 +136,7 @@ async function runCropLoop(): Promise<void> {
 export function startAutoPlayCrop(): void {
   if (config.cropAutoPlayDelayMs <= 0) return;
 
-  const providers = getAIProviders();
+  const providers = getAutoPlayProviders("crop");
   if (providers.length < 2) {
     console.log("Auto-play crop: need at least 2 models; skipping.");
     return;
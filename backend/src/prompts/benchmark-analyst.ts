@@ -11,14 +11,15 @@ We run AI models against each other on various benchmarks (Blackjack, Crop Tradi
 
 ## Data Sources (Hedera Topics)
 The data below is fetched from our HCS topics. Each message has:
-- \`domain\`: "blackjack" | "blackjack_vs" | "crop_decision"
+- \`domain\`: "blackjack" | "blackjack_vs" | "blackjack_table" | "crop_decision"
 - \`ts\`: submission timestamp
 - Model IDs identify which AI produced each result
 
 ### Test Types
 1. **Blackjack (single)** — One AI plays alone: outcome (win/loss/push), PnL per hand, cards, decisions.
 2. **Blackjack VS** — Two AIs at same table: modelIdA vs modelIdB, pnlA vs pnlB, outcomes, bets.
-3. **Crop Decision** — Two AIs trading corn futures: modelAId vs modelBId, snapshotA vs snapshotB with cash, bushels, value, cost basis, trades (buy/sell/hold), portfolio P&L over time.
+3. **Blackjack table** — 1–7 AIs at one table sharing a dealer: seats[] with seat, modelId, outcome, pnl, bet, cards.
+4. **Crop Decision** — Two AIs trading corn futures: modelAId vs modelBId, snapshotA vs snapshotB with cash, bushels, value, cost basis, trades (buy/sell/hold), portfolio P&L over time.
 
 ## Your Task
 For each benchmark test present in the data:
@@ -37,7 +38,7 @@ export function buildDataContext(messages: Array<{ message: string; consensus_ti
     return "## Chain Data\nNo messages found on the topic yet. No benchmark results to analyze.";
   }
 
-  const byDomain: Record<string, unknown[]> = { blackjack: [], blackjack_vs: [], crop_decision: [] };
+  const byDomain: Record<string, unknown[]> = { blackjack: [], blackjack_vs: [], blackjack_table: [], crop_decision: [] };
   for (const { message } of messages) {
     try {
       const parsed = JSON.parse(message) as Record<string, unknown>;
@@ -0,0 +1,162 @@
+/**
+ * Futures the crop benchmark can trade, and their price data from Yahoo Finance. No fake data — errors if fetch fails.
+ * Each commodity has a symbol, a unit and how the exchange quotes it (CME grains in cents per bushel, rough rice
+ * in dollars per cwt); prices are always converted to dollars per unit for display and calculations.
+ */
+
+import YahooFinance from "yahoo-finance2";
+
+export type Commodity = {
+  /** Short id used in prompts, replies and position maps, e.g. "corn". */
+  id: string;
+  /** Lowercase name for prompts, e.g. "soybeans". */
+  name: string;
+  symbol: string;
+  /** Quantity unit, singular, plural and short: "bushel"/"bushels"/"bu", "cwt". */
+  unit: string;
+  units: string;
+  abbr: string;
+  /** How the exchange quotes a close: cents per unit (÷ 100) or dollars per unit. */
+  quote: "cents_per_unit" | "dollars_per_unit";
+  /** Units per futures contract (for the prompt's context). */
+  contractSize: number;
+};
+
+export const COMMODITIES: Commodity[] = [
+  { id: "corn", name: "corn", symbol: "ZC=F", unit: "bushel", units: "bushels", abbr: "bu", quote: "cents_per_unit", contractSize: 5000 },
+  { id: "soybeans", name: "soybeans", symbol: "ZS=F", unit: "bushel", units: "bushels", abbr: "bu", quote: "cents_per_unit", contractSize: 5000 },
+  { id: "wheat", name: "wheat", symbol: "ZW=F", unit: "bushel", units: "bushels", abbr: "bu", quote: "cents_per_unit", contractSize: 5000 },
+  { id: "oats", name: "oats", symbol: "ZO=F", unit: "bushel", units: "bushels", abbr: "bu", quote: "cents_per_unit", contractSize: 5000 },
+  { id: "rice", name: "rough rice", symbol: "ZR=F", unit: "cwt", units: "cwt", abbr: "cwt", quote: "dollars_per_unit", contractSize: 2000 },
+];
+
+export function findCommodity(id: string): Commodity | undefined {
+  const key = (id ?? "").trim().toLowerCase();
+  return COMMODITIES.find((c) => c.id === key || c.name === key);
+}
+
+/** One commodity's price in dollars per unit. */
+export type CommodityPricePoint = {
+  date: string;
+  price: number;
+};
+
+/** Prices of several commodities at one time, in dollars per unit by commodity id. */
+export type CommodityQuote = {
+  date: string;
+  prices: Record<string, number>;
+  /** Per-step volatility by commodity id (see trailingVolatility), when there were enough earlier prices. */
+  volatility?: Record<string, number>;
+};
+
+/** Returns that trailingVolatility looks back over. */
+const VOLATILITY_WINDOW = 20;
+
+/** Standard deviation of the log returns between the last VOLATILITY_WINDOW + 1 prices (oldest first); undefined with fewer than 3. */
+export function trailingVolatility(prices: number[]): number | undefined {
+  const window = prices.slice(-(VOLATILITY_WINDOW + 1)).filter((p) => p > 0);
+  if (window.length < 3) return undefined;
+  const returns = window.slice(1).map((p, i) => Math.log(p / window[i]));
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  return Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+}
+
+/** Each quote with every commodity's volatility up to and including it (never a later price), oldest first. */
+export function withVolatility(quotes: CommodityQuote[]): CommodityQuote[] {
+  return quotes.map((quote, i) => {
+    const earlier = quotes.slice(Math.max(0, i - VOLATILITY_WINDOW), i + 1);
+    const volatility = Object.fromEntries(
+      Object.keys(quote.prices).flatMap((id) => {
+        const sigma = trailingVolatility(earlier.flatMap((q) => (q.prices[id] != null ? [q.prices[id]] : [])));
+        return sigma != null ? [[id, sigma]] : [];
+      })
+    );
+    return Object.keys(volatility).length > 0 ? { ...quote, volatility } : quote;
+  });
+}
+
+const DAYS_BACK = 60;
+const MIN_POINTS = 10;
+
+function toDollars(commodity: Commodity, close: number): number {
+  return commodity.quote === "cents_per_unit" ? close / 100 : close;
+}
+
+/** Daily closes for the last DAYS_BACK days. */
+export async function fetchCommodityPrices(commodity: Commodity): Promise<CommodityPricePoint[]> {
+  const yahooFinance = new YahooFinance();
+  const period1 = new Date(Date.now() - DAYS_BACK * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const period2 = new Date().toISOString().slice(0, 10);
+  const raw = await yahooFinance.historical(commodity.symbol, { period1, period2 });
+  if (!Array.isArray(raw) || raw.length < MIN_POINTS) {
+    throw new Error(
+      `${commodity.name} futures: insufficient data from Yahoo Finance (got ${raw?.length ?? 0}, need ${MIN_POINTS}+). Check connectivity and ${commodity.symbol} availability.`
+    );
+  }
+  const points: CommodityPricePoint[] = raw
+    .filter((row: { date?: Date; close?: number }) => row?.date && typeof row?.close === "number")
+    .map((row: { date: Date; close: number }) => ({
+      date: row.date.toISOString().slice(0, 10),
+      price: toDollars(commodity, row.close),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (points.length < MIN_POINTS) {
+    throw new Error(
+      `${commodity.name} futures: valid data points insufficient (got ${points.length}, need ${MIN_POINTS}+). Yahoo Finance may have returned malformed data.`
+    );
+  }
+  return points;
+}
+
+/** Fetch current prices using intraday chart data (1h bars, last 5 days). Falls back to daily historical if chart fails. */
+export async function fetchCommodityPricesForTrading(commodity: Commodity): Promise<CommodityPricePoint[]> {
+  const yahooFinance = new YahooFinance();
+  const period1 = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000);
+  try {
+    const result = await yahooFinance.chart(commodity.symbol, { period1, interval: "1h" });
+    const quotes = (result as { quotes?: Array<{ date?: Date; close?: number | null }> }).quotes ?? [];
+    const points: CommodityPricePoint[] = quotes
+      .filter((q) => q?.date && typeof q?.close === "number" && q.close !== null)
+      .map((q) => ({
+        date: (q.date as Date).toISOString(),
+        price: toDollars(commodity, q.close as number),
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (points.length >= 1) return points;
+  } catch {
+    /* fall through to daily */
+  }
+  return fetchCommodityPrices(commodity);
+}
+
+/** Latest price in dollars per unit (for live portfolio valuation). Returns null on error. */
+export async function fetchLatestCommodityPrice(commodity: Commodity): Promise<number | null> {
+  try {
+    const points = await fetchCommodityPricesForTrading(commodity);
+    if (points.length > 0) return points[points.length - 1].price;
+  } catch {
+    /* */
+  }
+  return null;
+}
+
+/** Daily closes of every commodity, on the dates all of them traded, oldest first, with their trailing volatility. */
+export async function fetchCommodityQuotes(commodities: Commodity[]): Promise<CommodityQuote[]> {
+  const series = await Promise.all(commodities.map((c) => fetchCommodityPrices(c)));
+  const byDate = new Map<string, Record<string, number>>();
+  series.forEach((points, i) => {
+    for (const p of points) byDate.set(p.date, { ...byDate.get(p.date), [commodities[i].id]: p.price });
+  });
+  return withVolatility(
+    [...byDate]
+      .filter(([, prices]) => commodities.every((c) => prices[c.id] != null))
+      .map(([date, prices]) => ({ date, prices }))
+      .sort((a, b) => a.date.localeCompare(b.date))
+  );
+}
+
+/** Latest price of each commodity that has one, for live valuation. */
+export async function fetchLatestCommodityPrices(commodities: Commodity[]): Promise<Record<string, number>> {
+  const latest = await Promise.all(commodities.map((c) => fetchLatestCommodityPrice(c)));
+  return Object.fromEntries(commodities.flatMap((c, i) => (latest[i] != null && latest[i]! > 0 ? [[c.id, latest[i]!]] : [])));
+}
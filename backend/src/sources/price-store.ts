@@ -0,0 +1,152 @@
+/**
+ * Offline price store for crop backtests: historical bars per commodity and interval, ingested from CSV or
+ * JSON and kept as one JSON file per series under PRICE_STORE_DIR (e.g. data/prices/corn.1d.json). Backtests
+ * read only from here, so a run needs no network and the same window always gives the same bars.
+ *
+ * Bars are stored in dollars per unit; ingest converts from the exchange's quote (e.g. cents per bushel)
+ * unless told the file is already in dollars. A bar with a date already stored replaces it.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { resolve } from "path";
+import { config } from "../config.js";
+import type { Commodity } from "./commodities.js";
+
+export const BAR_INTERVALS = ["1h", "1d", "1wk"] as const;
+export type BarInterval = (typeof BAR_INTERVALS)[number];
+
+/** One bar in dollars per unit. Daily and weekly bars are dated YYYY-MM-DD (a week by its last trading day); hourly bars by ISO time. */
+export type PriceBar = { date: string; open?: number; high?: number; low?: number; close: number };
+
+/** A bar as ingested: numbers may be strings (CSV) and the date a Unix time in seconds or ms. */
+export type RawBar = { date?: unknown; time?: unknown; timestamp?: unknown; open?: unknown; high?: unknown; low?: unknown; close?: unknown };
+
+export type StoredSeries = { commodity: string; interval: BarInterval; bars: number; from: string | null; to: string | null };
+
+export function isBarInterval(value: unknown): value is BarInterval {
+  return BAR_INTERVALS.includes(value as BarInterval);
+}
+
+function seriesFile(commodityId: string, interval: BarInterval): string {
+  return resolve(config.priceStoreDir, `${commodityId}.${interval}.json`);
+}
+
+function readSeries(commodityId: string, interval: BarInterval): PriceBar[] {
+  const file = seriesFile(commodityId, interval);
+  if (!existsSync(file)) return [];
+  return JSON.parse(readFileSync(file, "utf-8")) as PriceBar[];
+}
+
+/** Stored series, by commodity then interval. */
+export function listStoredSeries(): StoredSeries[] {
+  const dir = resolve(config.priceStoreDir);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .map((name) => name.match(/^([a-z0-9_-]+)\.(1h|1d|1wk)\.json$/))
+    .filter((m): m is RegExpMatchArray => m != null)
+    .map(([, commodity, interval]) => {
+      const bars = readSeries(commodity, interval as BarInterval);
+      return { commodity, interval: interval as BarInterval, bars: bars.length, from: bars[0]?.date ?? null, to: bars[bars.length - 1]?.date ?? null };
+    })
+    .sort((a, b) => a.commodity.localeCompare(b.commodity) || BAR_INTERVALS.indexOf(a.interval) - BAR_INTERVALS.indexOf(b.interval));
+}
+
+/** Bars from CSV with a header row: a date (or time/timestamp) column and close; open, high and low are optional, other columns ignored. */
+export function parseBarsCsv(text: string): RawBar[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase().replace(/^"|"$/g, ""));
+  const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const cols = { date: column("date", "datetime", "time", "timestamp"), open: column("open"), high: column("high"), low: column("low"), close: column("close", "price", "settle") };
+  if (cols.date < 0 || cols.close < 0) throw new Error("CSV needs a header row with date and close columns");
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",").map((c) => c.trim().replace(/^"|"$/g, ""));
+    const cell = (i: number) => (i >= 0 ? cells[i] : undefined);
+    return { date: cell(cols.date), open: cell(cols.open), high: cell(cols.high), low: cell(cols.low), close: cell(cols.close) };
+  });
+}
+
+function dateOf(raw: RawBar, interval: BarInterval): string | null {
+  const value = raw.date ?? raw.time ?? raw.timestamp;
+  const asNumber = typeof value === "number" ? value : typeof value === "string" && /^\d{9,13}$/.test(value.trim()) ? Number(value) : NaN;
+  const date = Number.isFinite(asNumber) ? new Date(asNumber < 1e12 ? asNumber * 1000 : asNumber) : typeof value === "string" ? new Date(value.trim()) : null;
+  if (!date || Number.isNaN(date.getTime())) return null;
+  return interval === "1h" ? date.toISOString() : date.toISOString().slice(0, 10);
+}
+
+function priceOf(value: unknown, commodity: Commodity, inDollars: boolean): number | undefined {
+  if (value == null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) return undefined;
+  return inDollars || commodity.quote === "dollars_per_unit" ? n : n / 100;
+}
+
+/**
+ * Add bars to a series, replacing any with the same date. Prices are in the exchange's quote unless
+ * `inDollars`; a bar without a valid date or a positive close is an error (nothing is written).
+ */
+export function ingestBars(
+  commodity: Commodity,
+  interval: BarInterval,
+  rawBars: RawBar[],
+  inDollars = false
+): { added: number; replaced: number; series: StoredSeries } {
+  const bars = rawBars.map((raw, i) => {
+    const date = dateOf(raw, interval);
+    const close = priceOf(raw.close, commodity, inDollars);
+    if (!date) throw new Error(`Bar ${i + 1}: missing or invalid date`);
+    if (close == null) throw new Error(`Bar ${i + 1} (${date}): close must be a positive number`);
+    const bar: PriceBar = { date, close };
+    for (const key of ["open", "high", "low"] as const) {
+      const price = priceOf(raw[key], commodity, inDollars);
+      if (price != null) bar[key] = price;
+    }
+    return bar;
+  });
+  const byDate = new Map(readSeries(commodity.id, interval).map((b) => [b.date, b]));
+  let replaced = 0;
+  for (const bar of bars) {
+    if (byDate.has(bar.date)) replaced++;
+    byDate.set(bar.date, bar);
+  }
+  const merged = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  mkdirSync(resolve(config.priceStoreDir), { recursive: true });
+  writeFileSync(seriesFile(commodity.id, interval), JSON.stringify(merged));
+  return {
+    added: bars.length - replaced,
+    replaced,
+    series: { commodity: commodity.id, interval, bars: merged.length, from: merged[0]?.date ?? null, to: merged[merged.length - 1]?.date ?? null },
+  };
+}
+
+/** Monday (UTC) of a bar's ISO week, as the key its weekly bar is grouped under. */
+function weekOf(date: string): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+/** Finer bars combined into coarser ones, each dated by its last bar so no bar carries a later price. */
+function resample(bars: PriceBar[], key: (date: string) => string, dateFormat: (date: string) => string): PriceBar[] {
+  const groups = new Map<string, PriceBar[]>();
+  for (const bar of bars) groups.set(key(bar.date), [...(groups.get(key(bar.date)) ?? []), bar]);
+  return [...groups.values()].map((group) => {
+    const last = group[group.length - 1];
+    const highs = group.map((b) => b.high ?? b.close);
+    const lows = group.map((b) => b.low ?? b.close);
+    return { date: dateFormat(last.date), open: group[0].open ?? group[0].close, high: Math.max(...highs), low: Math.min(...lows), close: last.close };
+  });
+}
+
+/** Stored bars at an interval, or built from a finer stored interval when that one was never ingested. */
+function barsAt(commodity: Commodity, interval: BarInterval): PriceBar[] {
+  const stored = readSeries(commodity.id, interval);
+  if (stored.length > 0 || interval === "1h") return stored;
+  if (interval === "1d") return resample(readSeries(commodity.id, "1h"), (d) => d.slice(0, 10), (d) => d.slice(0, 10));
+  return resample(barsAt(commodity, "1d"), weekOf, (d) => d.slice(0, 10));
+}
+
+/** A commodity's bars from `from` to `to` inclusive (YYYY-MM-DD or ISO time; either may be omitted), oldest first. */
+export function loadBars(commodity: Commodity, interval: BarInterval, from?: string, to?: string): PriceBar[] {
+  return barsAt(commodity, interval).filter((b) => (!from || b.date >= from) && (!to || b.date.slice(0, to.length) <= to));
+}